@@ -3,38 +3,69 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import AuthProvider from "@/components/AuthProvider";
 import BottomNav from "@/components/BottomNav";
+import CartProvider from "@/components/CartProvider";
+import ChatProvider from "@/components/ChatProvider";
+import FavoritesProvider from "@/components/FavoritesProvider";
+import LocationProvider from "@/components/LocationProvider";
+import ProtectedRoute from "@/components/ProtectedRoute";
 import Index from "./pages/Index";
+import Explore from "./pages/Explore";
+import MapView from "./pages/MapView";
 import SalonDetail from "./pages/SalonDetail";
 import BookingFlow from "./pages/BookingFlow";
 import Bookings from "./pages/Bookings";
+import Invoice from "./pages/Invoice";
+import Payment from "./pages/Payment";
 import Offers from "./pages/Offers";
 import Profile from "./pages/Profile";
+import SavedSalons from "./pages/SavedSalons";
+import Chats from "./pages/Chats";
+import Conversation from "./pages/Conversation";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <div className="max-w-lg mx-auto relative">
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/salon/:id" element={<SalonDetail />} />
-            <Route path="/booking/:id" element={<BookingFlow />} />
-            <Route path="/bookings" element={<Bookings />} />
-            <Route path="/offers" element={<Offers />} />
-            <Route path="/profile" element={<Profile />} />
-            <Route path="/explore" element={<Index />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-          <BottomNav />
-        </div>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <LocationProvider>
+        <ChatProvider>
+          <FavoritesProvider>
+            <CartProvider>
+              <TooltipProvider>
+                <Toaster />
+                <Sonner />
+                <BrowserRouter>
+                  <div className="max-w-lg mx-auto relative print:max-w-none">
+                    <Routes>
+                      <Route path="/" element={<Index />} />
+                      <Route path="/salon/:id" element={<SalonDetail />} />
+                      <Route path="/booking/:id" element={<ProtectedRoute><BookingFlow /></ProtectedRoute>} />
+                      <Route path="/bookings" element={<ProtectedRoute><Bookings /></ProtectedRoute>} />
+                      <Route path="/bookings/:id/invoice" element={<ProtectedRoute><Invoice /></ProtectedRoute>} />
+                      <Route path="/pay/:id" element={<ProtectedRoute><Payment /></ProtectedRoute>} />
+                      <Route path="/chats" element={<ProtectedRoute><Chats /></ProtectedRoute>} />
+                      <Route path="/chats/:salonId" element={<ProtectedRoute><Conversation /></ProtectedRoute>} />
+                      <Route path="/offers" element={<Offers />} />
+                      <Route path="/profile" element={<Profile />} />
+                      <Route path="/saved" element={<SavedSalons />} />
+                      <Route path="/login" element={<Login />} />
+                      <Route path="/explore" element={<Explore />} />
+                      <Route path="/map" element={<MapView />} />
+                      <Route path="*" element={<NotFound />} />
+                    </Routes>
+                    <BottomNav />
+                  </div>
+                </BrowserRouter>
+              </TooltipProvider>
+            </CartProvider>
+          </FavoritesProvider>
+        </ChatProvider>
+      </LocationProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
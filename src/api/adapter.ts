@@ -0,0 +1,75 @@
+import type {
+  Salon,
+  Service,
+  Artist,
+  Review,
+  Booking,
+  BookingPayment,
+  BookingStatus,
+  Bounds,
+  Category,
+  City,
+  Locality,
+  Promotion,
+} from '@/types/salon';
+
+export interface SalonQuery {
+  featured?: boolean;
+  cityId?: string;
+  /** Only salons inside this part of the map, whichever city they're in. */
+  bounds?: Bounds;
+}
+
+export interface BookingQuery {
+  /** Every booking held at the salon, not just the current customer's. Used for availability. */
+  salonId?: string;
+  customerId?: string;
+}
+
+export type NewBooking = Omit<Booking, 'id' | 'status' | 'history' | 'payment' | 'invoice'> & {
+  /** Confirmed straight away and settled at the visit; otherwise held in pending-payment until paid. */
+  payAtSalon: boolean;
+};
+
+/** What a reschedule may change; the booked services stay as they were. */
+export type BookingChanges = Pick<Booking, 'date' | 'time' | 'artistId' | 'artistName' | 'itinerary'>;
+
+/**
+ * Storage-agnostic contract the app talks to. The in-memory adapter serves the
+ * bundled mock data; a backend adapter only needs to implement these methods.
+ */
+export interface DataAdapter {
+  listCategories(): Promise<Category[]>;
+  listCities(): Promise<City[]>;
+  /** Omitting `cityId` returns every city's localities. */
+  listLocalities(cityId?: string): Promise<Locality[]>;
+  listSalons(query?: SalonQuery): Promise<Salon[]>;
+  getSalon(id: string): Promise<Salon | null>;
+  /** Omitting `salonId` returns records across every salon. */
+  listServices(salonId?: string): Promise<Service[]>;
+  listArtists(salonId?: string): Promise<Artist[]>;
+  listReviews(salonId?: string): Promise<Review[]>;
+  /** Includes expired offers; callers decide what to show. */
+  listPromotions(): Promise<Promotion[]>;
+  listBookings(query?: BookingQuery): Promise<Booking[]>;
+  /**
+   * The customer-facing booking calls take the signed-in customer's id and treat
+   * anyone else's booking as missing: null here, 'Booking not found' below.
+   */
+  getBooking(id: string, customerId: string): Promise<Booking | null>;
+  /**
+   * Rejects when any requested artist is already booked for an overlapping time,
+   * or when `price.discount` no longer passes the promotion's rules.
+   */
+  createBooking(input: NewBooking): Promise<Booking>;
+  cancelBooking(id: string, customerId: string): Promise<Booking>;
+  /** Salon-side: moves a booking through its lifecycle; rejects transitions the state machine doesn't allow. */
+  updateBookingStatus(id: string, status: BookingStatus, note?: string): Promise<Booking>;
+  /** Same conflict rules as `createBooking`, ignoring the booking being moved. */
+  rescheduleBooking(id: string, customerId: string, changes: BookingChanges): Promise<Booking>;
+  /**
+   * Records the latest payment state; a pending-payment booking is confirmed once paid or switched to pay-at-salon.
+   * Rejects a new payment for a booking that is no longer pending-payment, e.g. one whose hold has lapsed.
+   */
+  updatePayment(id: string, customerId: string, payment: BookingPayment): Promise<Booking>;
+}
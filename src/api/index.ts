@@ -0,0 +1,33 @@
+import type { BookingChanges, BookingQuery, DataAdapter, NewBooking, SalonQuery } from './adapter';
+import { createMemoryAdapter } from './memoryAdapter';
+import type { BookingPayment, BookingStatus } from '@/types/salon';
+
+export type { BookingChanges, BookingQuery, DataAdapter, NewBooking, SalonQuery } from './adapter';
+export { createMemoryAdapter } from './memoryAdapter';
+
+let adapter: DataAdapter = createMemoryAdapter();
+
+/** Swap the backing store, e.g. for an HTTP adapter or a test double. */
+export const setDataAdapter = (next: DataAdapter) => {
+  adapter = next;
+};
+
+export const listCategories = () => adapter.listCategories();
+export const listCities = () => adapter.listCities();
+export const listLocalities = (cityId?: string) => adapter.listLocalities(cityId);
+export const listSalons = (query?: SalonQuery) => adapter.listSalons(query);
+export const getSalon = (id: string) => adapter.getSalon(id);
+export const listServices = (salonId?: string) => adapter.listServices(salonId);
+export const listArtists = (salonId?: string) => adapter.listArtists(salonId);
+export const listReviews = (salonId?: string) => adapter.listReviews(salonId);
+export const listPromotions = () => adapter.listPromotions();
+export const listBookings = (query?: BookingQuery) => adapter.listBookings(query);
+export const getBooking = (id: string, customerId: string) => adapter.getBooking(id, customerId);
+export const createBooking = (input: NewBooking) => adapter.createBooking(input);
+export const cancelBooking = (id: string, customerId: string) => adapter.cancelBooking(id, customerId);
+export const updateBookingStatus = (id: string, status: BookingStatus, note?: string) =>
+  adapter.updateBookingStatus(id, status, note);
+export const rescheduleBooking = (id: string, customerId: string, changes: BookingChanges) =>
+  adapter.rescheduleBooking(id, customerId, changes);
+export const updatePayment = (id: string, customerId: string, payment: BookingPayment) =>
+  adapter.updatePayment(id, customerId, payment);
@@ -0,0 +1,226 @@
+import {
+  categories as seedCategories,
+  cities as seedCities,
+  localities as seedLocalities,
+  featuredSalons,
+  nearbySalons,
+  services as seedServices,
+  artists as seedArtists,
+  reviews as seedReviews,
+  bookings as seedBookings,
+  promotions as seedPromotions,
+} from '@/data/mockData';
+import type { Booking } from '@/types/salon';
+import { findConflict } from '@/lib/availability';
+import {
+  PAYMENT_HOLD_MINUTES,
+  canReschedule,
+  createHistoryEvent,
+  holdsSlot,
+  isPaymentHoldExpired,
+  transitionBooking,
+} from '@/lib/bookingLifecycle';
+import { nextInvoiceNumber, priceBooking } from '@/lib/pricing';
+import { withinBounds } from '@/lib/map';
+import { evaluatePromotion, findPromotion } from '@/lib/promotions';
+import { readJSON, writeJSON } from '@/lib/storage';
+import { PAYMENT_METHOD_LABELS } from '@/payments/details';
+import type { DataAdapter, NewBooking } from './adapter';
+
+const BOOKINGS_KEY = 'salon_bookings';
+
+const featuredIds = new Set(featuredSalons.map((s) => s.id));
+
+const ownedBy = <T extends { salonId: string }>(records: T[], salonId?: string) =>
+  salonId ? records.filter((r) => r.salonId === salonId) : records;
+
+type StoredBooking = Omit<Booking, 'status' | 'history' | 'payment' | 'customerId'> & {
+  customerId?: string;
+  status: string;
+  history?: Booking['history'];
+  payment?: Booking['payment'];
+};
+
+const LEGACY_STATUSES: Record<string, Booking['status']> = {
+  upcoming: 'confirmed',
+  cancelled: 'cancelled-by-customer',
+};
+
+// Bookings made before sign-in existed all belonged to the demo customer
+const LEGACY_CUSTOMER_ID = '1';
+
+/** Upgrades bookings saved before the lifecycle, payment and account models existed. */
+const migrateBooking = (stored: StoredBooking): Booking => {
+  const status = LEGACY_STATUSES[stored.status] ?? (stored.status as Booking['status']);
+  return {
+    ...stored,
+    customerId: stored.customerId ?? LEGACY_CUSTOMER_ID,
+    status,
+    history: stored.history ?? [createHistoryEvent(status, new Date(stored.date))],
+    // Everything used to be settled at the salon
+    payment: stored.payment ?? {
+      method: 'pay-at-salon',
+      status: status === 'completed' ? 'paid' : 'unpaid',
+      amount: stored.price.total,
+    },
+  };
+};
+
+const SLOT_TAKEN = 'That time was just booked with this specialist. Please pick another slot.';
+const NOT_AWAITING_PAYMENT = 'This booking is no longer awaiting payment.';
+const OFFER_CHANGED = 'This offer has changed since you applied it. Please re-apply the code.';
+
+interface MemoryAdapterOptions {
+  /** Keep bookings in localStorage so they survive a reload. Defaults to true. */
+  persist?: boolean;
+}
+
+export const createMemoryAdapter = ({ persist = true }: MemoryAdapterOptions = {}): DataAdapter => {
+  const salons = [...featuredSalons, ...nearbySalons];
+  let bookings: Booking[] = persist
+    ? readJSON<StoredBooking[]>(BOOKINGS_KEY, seedBookings).map(migrateBooking)
+    : [...seedBookings];
+
+  const save = () => {
+    if (persist) writeJSON(BOOKINGS_KEY, bookings);
+  };
+
+  // Another customer's booking is reported as missing rather than forbidden, so ids can't be probed
+  const findBooking = (id: string, customerId?: string) => {
+    releaseExpiredHolds();
+    const booking = bookings.find((b) => b.id === id && (customerId === undefined || b.customerId === customerId));
+    if (!booking) throw new Error('Booking not found');
+    return booking;
+  };
+
+  // Checkouts abandoned past their hold are cancelled, so they can't be paid for once the slot has gone to someone else
+  const releaseExpiredHolds = () => {
+    if (!bookings.some((b) => isPaymentHoldExpired(b))) return;
+    const note = `Not paid within ${PAYMENT_HOLD_MINUTES} minutes`;
+    bookings = bookings.map((b) => (isPaymentHoldExpired(b) ? transitionBooking(b, 'cancelled-by-customer', { note }) : b));
+    save();
+  };
+
+  const replaceBooking = (next: Booking) => {
+    bookings = bookings.map((b) => (b.id === next.id ? next : b));
+    save();
+    return next;
+  };
+
+  // Seeded counts stand in for other customers; this customer's bookings add to them
+  const listPromotions = () =>
+    seedPromotions.map((p) => ({
+      ...p,
+      redemptions: p.redemptions + bookings.filter((b) => b.price.discount?.code === p.code && holdsSlot(b)).length,
+    }));
+
+  const checkDiscount = (input: Pick<NewBooking, 'customerId' | 'salonId' | 'items' | 'date' | 'price'>) => {
+    const { discount } = input.price;
+    if (!discount) return;
+    const promotion = findPromotion(listPromotions(), discount.code);
+    if (!promotion) throw new Error(`"${discount.code}" isn't a valid coupon code`);
+    const customerBookings = bookings.filter((b) => b.customerId === input.customerId);
+    const result = evaluatePromotion(promotion, { ...input, customerBookings });
+    if (!result.valid) throw new Error(result.reason);
+    if (result.discount.amount !== discount.amount) throw new Error(OFFER_CHANGED);
+  };
+
+  // Completing a visit is what makes it billable
+  const issueInvoice = (booking: Booking): Booking =>
+    booking.status === 'completed' && !booking.invoice
+      ? { ...booking, invoice: { number: nextInvoiceNumber(bookings, booking.salonId), issuedAt: new Date().toISOString() } }
+      : booking;
+
+  const nextBookingId = () => String(bookings.reduce((max, b) => Math.max(max, Number(b.id) || 0), 0) + 1);
+
+  return {
+    async listCategories() {
+      return seedCategories;
+    },
+    async listCities() {
+      return seedCities;
+    },
+    async listLocalities(cityId) {
+      return cityId ? seedLocalities.filter((l) => l.cityId === cityId) : seedLocalities;
+    },
+    async listSalons(query = {}) {
+      return salons.filter(
+        (s) =>
+          (query.featured === undefined || featuredIds.has(s.id) === query.featured) &&
+          (query.cityId === undefined || s.cityId === query.cityId) &&
+          (query.bounds === undefined || withinBounds(s.coordinates, query.bounds)),
+      );
+    },
+    async getSalon(id) {
+      return salons.find((s) => s.id === id) ?? null;
+    },
+    async listServices(salonId) {
+      return ownedBy(seedServices, salonId);
+    },
+    async listArtists(salonId) {
+      return ownedBy(seedArtists, salonId);
+    },
+    async listReviews(salonId) {
+      return ownedBy(seedReviews, salonId);
+    },
+    async listPromotions() {
+      return listPromotions();
+    },
+    async listBookings(query = {}) {
+      releaseExpiredHolds();
+      return bookings.filter(
+        (b) => (!query.salonId || b.salonId === query.salonId) && (!query.customerId || b.customerId === query.customerId),
+      );
+    },
+    async getBooking(id, customerId) {
+      releaseExpiredHolds();
+      return bookings.find((b) => b.id === id && b.customerId === customerId) ?? null;
+    },
+    async createBooking({ payAtSalon, ...input }) {
+      if (findConflict(bookings, input)) throw new Error(SLOT_TAKEN);
+      checkDiscount(input);
+      // Priced here rather than trusting the client's arithmetic
+      const price = priceBooking(input.items, input.price.discount);
+      const status = payAtSalon ? 'confirmed' : 'pending-payment';
+      const booking: Booking = {
+        ...input,
+        price,
+        id: nextBookingId(),
+        status,
+        history: [createHistoryEvent(status)],
+        payment: payAtSalon
+          ? { method: 'pay-at-salon', status: 'unpaid', amount: price.total }
+          : { status: 'pending', amount: price.total },
+      };
+      bookings = [booking, ...bookings];
+      save();
+      return booking;
+    },
+    async cancelBooking(id, customerId) {
+      return replaceBooking(transitionBooking(findBooking(id, customerId), 'cancelled-by-customer'));
+    },
+    async updateBookingStatus(id, status, note) {
+      return replaceBooking(issueInvoice(transitionBooking(findBooking(id), status, { note })));
+    },
+    async rescheduleBooking(id, customerId, changes) {
+      const booking = findBooking(id, customerId);
+      if (!canReschedule(booking)) throw new Error('This booking can no longer be rescheduled');
+      const moved = { ...booking, ...changes };
+      const others = bookings.filter((b) => b.id !== id);
+      if (findConflict(others, moved)) throw new Error(SLOT_TAKEN);
+      return replaceBooking(moved);
+    },
+    async updatePayment(id, customerId, payment) {
+      const current = findBooking(id, customerId);
+      // E.g. the hold lapsed while the gateway was busy: the slot may already be someone else's
+      if (payment.status === 'paid' && current.payment.status !== 'paid' && current.status !== 'pending-payment') {
+        throw new Error(NOT_AWAITING_PAYMENT);
+      }
+      const booking = { ...current, payment };
+      const settled = payment.status === 'paid' || payment.method === 'pay-at-salon';
+      if (booking.status !== 'pending-payment' || !settled) return replaceBooking(booking);
+      const note = payment.status === 'paid' ? `Paid via ${PAYMENT_METHOD_LABELS[payment.method]}` : 'Will pay at the salon';
+      return replaceBooking(transitionBooking(booking, 'confirmed', { note }));
+    },
+  };
+};
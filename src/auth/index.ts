@@ -0,0 +1,19 @@
+import type { AuthService } from './service';
+import { createStubAuthService } from './stubService';
+import type { User } from '@/types/salon';
+
+export type { AuthErrorCode, AuthService, OtpChallenge, Session } from './service';
+export { AuthError, formatPhone, normalizePhone } from './service';
+export { createStubAuthService, STUB_OTP } from './stubService';
+
+let service: AuthService = createStubAuthService();
+
+/** Swap the sign-in provider, e.g. for a real SMS/OTP backend or a test double. */
+export const setAuthService = (next: AuthService) => {
+  service = next;
+};
+
+export const requestOtp = (phone: string) => service.requestOtp(phone);
+export const verifyOtp = (challengeId: string, code: string) => service.verifyOtp(challengeId, code);
+export const updateProfile = (userId: string, changes: Partial<Pick<User, 'name' | 'avatar' | 'genderPreference'>>) =>
+  service.updateProfile(userId, changes);
@@ -0,0 +1,44 @@
+import type { User } from '@/types/salon';
+
+export interface OtpChallenge {
+  id: string;
+  phone: string;
+  /** ISO timestamps */
+  expiresAt: string;
+  resendAvailableAt: string;
+  attemptsLeft: number;
+}
+
+export interface Session {
+  token: string;
+  user: User;
+  /** ISO timestamp */
+  expiresAt: string;
+}
+
+export type AuthErrorCode = 'invalid-phone' | 'cooldown' | 'wrong-code' | 'too-many-attempts' | 'expired';
+
+export class AuthError extends Error {
+  constructor(public readonly code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/** Phone + one-time-code sign in. Sending and checking codes is the provider's job, not the app's. */
+export interface AuthService {
+  /** Sends a code. Asking again for the same number before `resendAvailableAt` is rejected. */
+  requestOtp(phone: string): Promise<OtpChallenge>;
+  /** Signs in, creating the account on first use. Each wrong code uses up an attempt. */
+  verifyOtp(challengeId: string, code: string): Promise<Session>;
+  updateProfile(userId: string, changes: Partial<Pick<User, 'name' | 'avatar' | 'genderPreference'>>): Promise<User>;
+}
+
+/** '98765 43210', '+91 98765-43210' → '+919876543210'; null when it isn't an Indian mobile number. */
+export function normalizePhone(input: string): string | null {
+  const digits = input.replace(/[\s-]/g, '').replace(/^(\+91|0)/, '');
+  return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : null;
+}
+
+/** '+919876543210' → '+91 98765 43210', for mobiles and landlines alike. Numbers from elsewhere are shown as stored. */
+export const formatPhone = (phone: string) => phone.replace(/^\+91(\d{5})(\d{5})$/, '+91 $1 $2');
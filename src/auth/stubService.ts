@@ -0,0 +1,102 @@
+import { addDays, addMinutes, addSeconds, differenceInSeconds } from 'date-fns';
+import { users as seedUsers } from '@/data/mockData';
+import { readJSON, writeJSON } from '@/lib/storage';
+import type { User } from '@/types/salon';
+import { AuthError, normalizePhone, type AuthService, type OtpChallenge } from './service';
+
+const USERS_KEY = 'salon_users';
+
+/** The only code the stub accepts. */
+export const STUB_OTP = '123456';
+
+interface StubAuthOptions {
+  resendCooldownSeconds?: number;
+  maxAttempts?: number;
+  codeTtlMinutes?: number;
+  sessionDays?: number;
+  /** Keep accounts in localStorage so sign-ups survive a reload. Defaults to true. */
+  persist?: boolean;
+  now?: () => Date;
+}
+
+/** Local stand-in for an SMS provider: no texts are sent and `STUB_OTP` always works. */
+export const createStubAuthService = ({
+  resendCooldownSeconds = 30,
+  maxAttempts = 5,
+  codeTtlMinutes = 5,
+  sessionDays = 30,
+  persist = true,
+  now = () => new Date(),
+}: StubAuthOptions = {}): AuthService => {
+  let users: User[] = persist ? readJSON(USERS_KEY, seedUsers) : [...seedUsers];
+  const challenges = new Map<string, OtpChallenge>();
+  let sequence = 0;
+
+  const saveUsers = () => {
+    if (persist) writeJSON(USERS_KEY, users);
+  };
+
+  const findOrCreateUser = (phone: string) => {
+    const existing = users.find((u) => u.phone === phone);
+    if (existing) return existing;
+    const user: User = { id: `u${Date.now()}`, name: '', phone };
+    users = [...users, user];
+    saveUsers();
+    return user;
+  };
+
+  return {
+    async requestOtp(input) {
+      const phone = normalizePhone(input);
+      if (!phone) throw new AuthError('invalid-phone', 'Enter a valid 10-digit mobile number');
+
+      const pending = [...challenges.values()].find((c) => c.phone === phone);
+      if (pending) {
+        const wait = differenceInSeconds(new Date(pending.resendAvailableAt), now());
+        if (wait > 0) throw new AuthError('cooldown', `Please wait ${wait}s before requesting another code`);
+        challenges.delete(pending.id);
+      }
+
+      sequence += 1;
+      const challenge: OtpChallenge = {
+        id: `otp_${sequence}`,
+        phone,
+        expiresAt: addMinutes(now(), codeTtlMinutes).toISOString(),
+        resendAvailableAt: addSeconds(now(), resendCooldownSeconds).toISOString(),
+        attemptsLeft: maxAttempts,
+      };
+      challenges.set(challenge.id, challenge);
+      return challenge;
+    },
+    async verifyOtp(challengeId, code) {
+      const challenge = challenges.get(challengeId);
+      if (!challenge || new Date(challenge.expiresAt) <= now()) {
+        throw new AuthError('expired', 'This code has expired. Request a new one.');
+      }
+      if (challenge.attemptsLeft <= 0) {
+        throw new AuthError('too-many-attempts', 'Too many incorrect attempts. Request a new code.');
+      }
+      if (code !== STUB_OTP) {
+        const attemptsLeft = challenge.attemptsLeft - 1;
+        challenges.set(challengeId, { ...challenge, attemptsLeft });
+        if (attemptsLeft === 0) throw new AuthError('too-many-attempts', 'Too many incorrect attempts. Request a new code.');
+        throw new AuthError('wrong-code', `Incorrect code. ${attemptsLeft} attempt${attemptsLeft > 1 ? 's' : ''} left.`);
+      }
+
+      challenges.delete(challengeId);
+      return {
+        token: `stub_${challengeId}_${Date.now()}`,
+        user: findOrCreateUser(challenge.phone),
+        expiresAt: addDays(now(), sessionDays).toISOString(),
+      };
+    },
+    async updateProfile(userId, changes) {
+      const user = users.find((u) => u.id === userId);
+      if (!user) throw new Error('Account not found');
+      const updated = { ...user, ...changes };
+      users = users.map((u) => (u.id === userId ? updated : u));
+      saveUsers();
+      return updated;
+    },
+  };
+};
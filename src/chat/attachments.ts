@@ -0,0 +1,66 @@
+import type { ChatAttachment } from './transport';
+
+// Photos from phone cameras run to several megabytes; scaled down they still read fine in a chat
+// bubble and leave room in storage for the rest of the conversation. Each step is tried in turn
+// until the encoded photo fits under `MAX_ENCODED_CHARS`.
+const ENCODINGS = [
+  { maxSide: 1280, quality: 0.8 },
+  { maxSide: 1024, quality: 0.7 },
+  { maxSide: 720, quality: 0.6 },
+  { maxSide: 480, quality: 0.5 },
+];
+// Attachments are kept inline in localStorage, which browsers cap at around 5 MB in all
+const MAX_ENCODED_CHARS = 400 * 1024;
+const MAX_FILE_BYTES = 15 * 1024 * 1024;
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("That photo couldn't be opened"));
+    image.src = src;
+  });
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("That photo couldn't be read"));
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Turns a picked file into an attachment, scaled down and re-encoded until it's small enough to keep.
+ * Rejects anything but images, and photos that stay too large.
+ */
+export async function readImageAttachment(file: File): Promise<ChatAttachment> {
+  if (!file.type.startsWith('image/')) throw new Error('Only photos can be attached');
+  if (file.size > MAX_FILE_BYTES) throw new Error('That photo is too large to send');
+
+  const original = await readAsDataUrl(file);
+  const image = await loadImage(original);
+  const attachment = (dataUrl: string, width: number, height: number): ChatAttachment => ({
+    id: crypto.randomUUID(),
+    kind: 'image',
+    name: file.name,
+    dataUrl,
+    width,
+    height,
+  });
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    if (original.length > MAX_ENCODED_CHARS) throw new Error('That photo is too large to send');
+    return attachment(original, image.naturalWidth, image.naturalHeight);
+  }
+  for (const { maxSide, quality } of ENCODINGS) {
+    const scale = Math.min(1, maxSide / Math.max(image.naturalWidth, image.naturalHeight));
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const dataUrl = canvas.toDataURL('image/jpeg', quality);
+    if (dataUrl.length <= MAX_ENCODED_CHARS) return attachment(dataUrl, canvas.width, canvas.height);
+  }
+  throw new Error('That photo is too large to send');
+}
@@ -0,0 +1,282 @@
+import { readJSON, writeJSON } from '@/lib/storage';
+import type { ChatAttachment, ChatEvent, ChatMessage, ChatRole, ChatThread, ChatTransport } from './transport';
+
+const STORAGE_KEY = 'salon_chats';
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_ATTACHMENTS = 4;
+
+/** Who this app is chatting as: a customer by their user id, or a salon by its id. */
+export interface ChatIdentity {
+  role: ChatRole;
+  id: string;
+}
+
+export interface ChatState {
+  threads: ChatThread[];
+  /** Every thread's messages, oldest first. */
+  messages: ChatMessage[];
+  /** Who is typing in each thread right now. */
+  typing: Record<string, ChatRole[]>;
+}
+
+export interface ChatDraft {
+  text: string;
+  attachments?: ChatAttachment[];
+}
+
+export interface ChatClient {
+  getState(): ChatState;
+  subscribe(listener: () => void): () => void;
+  /**
+   * Marks this app as open for `identity`. Messages to it are acknowledged as delivered while it's
+   * connected, including any that arrived while it wasn't.
+   */
+  connect(identity: ChatIdentity): () => void;
+  /**
+   * Starts the thread if this is its first message. Throws when the draft can't be sent; a message
+   * that can't be saved, e.g. with storage full, comes back `failed` and isn't delivered.
+   */
+  send(thread: ChatThread, from: ChatRole, draft: ChatDraft): ChatMessage;
+  /** Tries a `failed` message again. */
+  retry(messageId: string): ChatMessage;
+  /** Acknowledges everything the other side has sent in the thread. */
+  markRead(threadId: string, reader: ChatRole): void;
+  setTyping(threadId: string, from: ChatRole, typing: boolean): void;
+  close(): void;
+}
+
+export const threadIdFor = (salonId: string, customerId: string) => `${salonId}~${customerId}`;
+
+const otherRole = (role: ChatRole): ChatRole => (role === 'customer' ? 'salon' : 'customer');
+
+export const belongsTo = (thread: ChatThread, identity: ChatIdentity) =>
+  identity.role === 'customer' ? thread.customerId === identity.id : thread.salonId === identity.id;
+
+/** Why a draft can't be sent, or null when it can. */
+export function validateDraft(draft: ChatDraft): string | null {
+  const attachments = draft.attachments ?? [];
+  if (!draft.text.trim() && attachments.length === 0) return 'Type a message or add a photo';
+  if (draft.text.length > MAX_MESSAGE_LENGTH) return `Messages can be up to ${MAX_MESSAGE_LENGTH} characters`;
+  if (attachments.length > MAX_ATTACHMENTS) return `Attach up to ${MAX_ATTACHMENTS} photos at a time`;
+  return null;
+}
+
+const earliest = (a?: string, b?: string) => (a && b ? (a < b ? a : b) : a ?? b);
+
+/**
+ * Combines two copies of the same messages, as kept by different tabs. Receipts only move
+ * forward, and a read message has necessarily been delivered.
+ */
+export function mergeMessages(current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+  const byId = new Map(current.map((m) => [m.id, m]));
+  for (const message of incoming) {
+    const existing = byId.get(message.id);
+    const readAt = earliest(existing?.readAt, message.readAt);
+    byId.set(message.id, {
+      ...(existing ?? message),
+      deliveredAt: earliest(earliest(existing?.deliveredAt, message.deliveredAt), readAt),
+      readAt,
+    });
+  }
+  return [...byId.values()].sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+}
+
+function mergeThreads(current: ChatThread[], incoming: ChatThread[]): ChatThread[] {
+  const byId = new Map(current.map((t) => [t.id, t]));
+  incoming.forEach((t) => byId.set(t.id, t));
+  return [...byId.values()];
+}
+
+export interface ThreadSummary {
+  thread: ChatThread;
+  last: ChatMessage;
+  unread: number;
+}
+
+/** `identity`'s conversations with at least one message, most recent first. */
+export function threadSummaries(state: ChatState, identity: ChatIdentity): ThreadSummary[] {
+  return state.threads
+    .filter((thread) => belongsTo(thread, identity))
+    .map((thread) => {
+      const messages = state.messages.filter((m) => m.threadId === thread.id);
+      return {
+        thread,
+        last: messages[messages.length - 1],
+        unread: messages.filter((m) => m.from !== identity.role && !m.readAt).length,
+      };
+    })
+    .filter((summary) => summary.last)
+    .sort((a, b) => b.last.sentAt.localeCompare(a.last.sentAt));
+}
+
+export const unreadCount = (state: ChatState, identity: ChatIdentity) =>
+  threadSummaries(state, identity).reduce((total, s) => total + s.unread, 0);
+
+interface ChatClientOptions {
+  transport: ChatTransport;
+  /** Keep conversations in localStorage. Tabs of one browser share them. */
+  persist?: boolean;
+  /** How long "typing…" stays up without hearing from the other side again. */
+  typingTimeoutMs?: number;
+  now?: () => Date;
+}
+
+export function createChatClient({ transport, persist = true, typingTimeoutMs = 5000, now = () => new Date() }: ChatClientOptions): ChatClient {
+  const stored = persist ? readJSON<Pick<ChatState, 'threads' | 'messages'>>(STORAGE_KEY, { threads: [], messages: [] }) : null;
+  let state: ChatState = { threads: stored?.threads ?? [], messages: stored?.messages ?? [], typing: {} };
+  const listeners = new Set<() => void>();
+  const identities = new Set<ChatIdentity>();
+  const typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  const typingSentAt = new Map<string, number>();
+
+  const emit = (next: ChatState) => {
+    state = next;
+    listeners.forEach((l) => l());
+  };
+
+  // Another tab may have written since we last read, so fold its copy in rather than overwrite it.
+  // Returns false when the result couldn't be saved.
+  const commit = (threads: ChatThread[], messages: ChatMessage[]) => {
+    let next = { threads, messages };
+    let saved = true;
+    if (persist) {
+      const latest = readJSON<Pick<ChatState, 'threads' | 'messages'>>(STORAGE_KEY, { threads: [], messages: [] });
+      next = { threads: mergeThreads(latest.threads, threads), messages: mergeMessages(latest.messages, messages) };
+      saved = writeJSON(STORAGE_KEY, { ...next, messages: next.messages.filter((m) => !m.failed) });
+    }
+    emit({ ...state, ...next });
+    return saved;
+  };
+
+  // Only what was saved goes out; otherwise it would look sent here and then vanish on reload
+  const deliver = (thread: ChatThread, message: ChatMessage): ChatMessage => {
+    const sending = { ...message, failed: undefined };
+    const withMessage = (m: ChatMessage) => [...state.messages.filter((existing) => existing.id !== m.id), m];
+    if (!commit(mergeThreads(state.threads, [thread]), mergeMessages([], withMessage(sending)))) {
+      const failed = { ...sending, failed: true };
+      emit({ ...state, messages: mergeMessages([], withMessage(failed)) });
+      return failed;
+    }
+    transport.publish({ type: 'message', thread, message: sending });
+    return sending;
+  };
+
+  const setRoleTyping = (threadId: string, role: ChatRole, typing: boolean) => {
+    const key = `${threadId}:${role}`;
+    clearTimeout(typingTimers.get(key));
+    typingTimers.delete(key);
+    const current = state.typing[threadId] ?? [];
+    if (current.includes(role) !== typing) {
+      const roles = typing ? [...current, role] : current.filter((r) => r !== role);
+      emit({ ...state, typing: { ...state.typing, [threadId]: roles } });
+    }
+    // The other app may close mid-sentence; don't show it typing forever
+    if (typing) typingTimers.set(key, setTimeout(() => setRoleTyping(threadId, role, false), typingTimeoutMs));
+  };
+
+  /** Stamps a receipt on messages in one thread and tells the sender. */
+  const acknowledge = (threadId: string, messageIds: string[], status: 'delivered' | 'read') => {
+    if (messageIds.length === 0) return;
+    const at = now().toISOString();
+    const stamped = state.messages
+      .filter((m) => messageIds.includes(m.id))
+      .map((m) => (status === 'read' ? { ...m, readAt: at } : { ...m, deliveredAt: at }));
+    commit(state.threads, mergeMessages(state.messages, stamped));
+    transport.publish({ type: 'receipt', threadId, messageIds, status, at });
+  };
+
+  const undeliveredFor = (identity: ChatIdentity) => {
+    const threads = new Map(state.threads.filter((t) => belongsTo(t, identity)).map((t) => [t.id, t]));
+    return state.messages.filter((m) => threads.has(m.threadId) && m.from !== identity.role && !m.deliveredAt);
+  };
+
+  const deliverPending = (identity: ChatIdentity) => {
+    const pending = undeliveredFor(identity);
+    for (const threadId of new Set(pending.map((m) => m.threadId))) {
+      acknowledge(
+        threadId,
+        pending.filter((m) => m.threadId === threadId).map((m) => m.id),
+        'delivered',
+      );
+    }
+  };
+
+  const onEvent = (event: ChatEvent) => {
+    switch (event.type) {
+      case 'message':
+        commit(mergeThreads(state.threads, [event.thread]), mergeMessages(state.messages, [event.message]));
+        setRoleTyping(event.message.threadId, event.message.from, false);
+        identities.forEach(deliverPending);
+        break;
+      case 'receipt': {
+        const stamp = event.status === 'read' ? { readAt: event.at } : { deliveredAt: event.at };
+        const updates = state.messages.filter((m) => event.messageIds.includes(m.id)).map((m) => ({ ...m, ...stamp }));
+        if (updates.length > 0) commit(state.threads, mergeMessages(state.messages, updates));
+        break;
+      }
+      case 'typing':
+        setRoleTyping(event.threadId, event.from, event.typing);
+        break;
+    }
+  };
+
+  const unsubscribe = transport.subscribe(onEvent);
+
+  return {
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    connect(identity) {
+      identities.add(identity);
+      deliverPending(identity);
+      return () => identities.delete(identity);
+    },
+    send(thread, from, draft) {
+      const problem = validateDraft(draft);
+      if (problem) throw new Error(problem);
+      const message: ChatMessage = {
+        // Random rather than sequential: several tabs create messages independently
+        id: crypto.randomUUID(),
+        threadId: thread.id,
+        from,
+        text: draft.text.trim(),
+        attachments: draft.attachments ?? [],
+        sentAt: now().toISOString(),
+      };
+      typingSentAt.delete(`${thread.id}:${from}`);
+      return deliver(thread, message);
+    },
+    retry(messageId) {
+      const message = state.messages.find((m) => m.id === messageId);
+      const thread = message && state.threads.find((t) => t.id === message.threadId);
+      if (!message?.failed || !thread) throw new Error('Only unsent messages can be retried');
+      return deliver(thread, message);
+    },
+    markRead(threadId, reader) {
+      const unread = state.messages.filter((m) => m.threadId === threadId && m.from === otherRole(reader) && !m.readAt);
+      acknowledge(
+        threadId,
+        unread.map((m) => m.id),
+        'read',
+      );
+    },
+    setTyping(threadId, from, typing) {
+      const key = `${threadId}:${from}`;
+      const last = typingSentAt.get(key);
+      // While typing, a refresh every half timeout keeps the indicator up without flooding the channel
+      if (typing && last !== undefined && now().getTime() - last < typingTimeoutMs / 2) return;
+      if (!typing && last === undefined) return;
+      if (typing) typingSentAt.set(key, now().getTime());
+      else typingSentAt.delete(key);
+      transport.publish({ type: 'typing', threadId, from, typing });
+    },
+    close() {
+      unsubscribe();
+      typingTimers.forEach(clearTimeout);
+      transport.close();
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { createChatClient, type ChatClient } from './client';
+import { createDefaultTransport } from './transport';
+
+export type { ChatClient, ChatDraft, ChatIdentity, ChatState, ThreadSummary } from './client';
+export type { ChatAttachment, ChatEvent, ChatMessage, ChatRole, ChatThread, ChatTransport } from './transport';
+export {
+  MAX_ATTACHMENTS,
+  MAX_MESSAGE_LENGTH,
+  belongsTo,
+  createChatClient,
+  mergeMessages,
+  threadIdFor,
+  threadSummaries,
+  unreadCount,
+  validateDraft,
+} from './client';
+export { createBroadcastTransport, createMemoryBus } from './transport';
+export { readImageAttachment } from './attachments';
+
+// Opened on first use, so merely importing chat doesn't hold a channel open
+let client: ChatClient | null = null;
+
+export const getChatClient = () => (client ??= createChatClient({ transport: createDefaultTransport() }));
+
+/** Swap the chat backend, e.g. for a real messaging service or a test double. */
+export const setChatClient = (next: ChatClient) => {
+  client?.close();
+  client = next;
+};
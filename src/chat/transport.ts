@@ -0,0 +1,99 @@
+export type ChatRole = 'customer' | 'salon';
+
+export interface ChatAttachment {
+  id: string;
+  kind: 'image';
+  name: string;
+  /** The image itself, inlined so it travels with the message and survives a reload. */
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/** One conversation between a customer and a salon. Both sides derive the same id. */
+export interface ChatThread {
+  id: string;
+  salonId: string;
+  salonName: string;
+  salonImage: string;
+  customerId: string;
+  customerName: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  threadId: string;
+  from: ChatRole;
+  text: string;
+  attachments: ChatAttachment[];
+  /** ISO timestamps; the receipts are unset until the other side's app reports them. */
+  sentAt: string;
+  deliveredAt?: string;
+  readAt?: string;
+  /** Set on the sender's device when the message couldn't be saved there, so it was never sent. */
+  failed?: boolean;
+}
+
+export type ChatEvent =
+  | { type: 'message'; thread: ChatThread; message: ChatMessage }
+  | { type: 'receipt'; threadId: string; messageIds: string[]; status: 'delivered' | 'read'; at: string }
+  | { type: 'typing'; threadId: string; from: ChatRole; typing: boolean };
+
+/**
+ * Carries chat events between the apps taking part. Like a socket, publishing reaches everyone
+ * else listening but not the publisher itself.
+ */
+export interface ChatTransport {
+  publish(event: ChatEvent): void;
+  /** Returns a function that stops listening. */
+  subscribe(listener: (event: ChatEvent) => void): () => void;
+  close(): void;
+}
+
+const CHANNEL_NAME = 'salon_chat';
+
+/** Reaches the app open in other tabs of the same browser, so two tabs can talk without a server. */
+export function createBroadcastTransport(channelName = CHANNEL_NAME): ChatTransport {
+  const channel = new BroadcastChannel(channelName);
+  return {
+    publish: (event) => channel.postMessage(event),
+    subscribe(listener) {
+      const onMessage = (e: MessageEvent<ChatEvent>) => listener(e.data);
+      channel.addEventListener('message', onMessage);
+      return () => channel.removeEventListener('message', onMessage);
+    },
+    close: () => channel.close(),
+  };
+}
+
+/**
+ * Transports that only reach each other, within one page. For tests, and for browsers without
+ * BroadcastChannel, where chat then simply stays within the tab.
+ */
+export function createMemoryBus() {
+  const listeners = new Set<{ owner: object; listener: (event: ChatEvent) => void }>();
+
+  return {
+    createTransport(): ChatTransport {
+      const owner = {};
+      return {
+        publish(event) {
+          // Delivered asynchronously, like a real channel
+          const targets = [...listeners].filter((l) => l.owner !== owner);
+          queueMicrotask(() => targets.forEach((t) => t.listener(structuredClone(event))));
+        },
+        subscribe(listener) {
+          const entry = { owner, listener };
+          listeners.add(entry);
+          return () => listeners.delete(entry);
+        },
+        close() {
+          listeners.forEach((l) => l.owner === owner && listeners.delete(l));
+        },
+      };
+    },
+  };
+}
+
+export const createDefaultTransport = (): ChatTransport =>
+  typeof BroadcastChannel !== 'undefined' ? createBroadcastTransport() : createMemoryBus().createTransport();
@@ -0,0 +1,32 @@
+import { X } from 'lucide-react';
+import type { FilterChip, SalonFilters } from '@/lib/filters';
+
+interface ActiveFilterChipsProps {
+  chips: FilterChip[];
+  filters: SalonFilters;
+  onChange: (filters: SalonFilters) => void;
+  onClear: () => void;
+}
+
+const ActiveFilterChips = ({ chips, filters, onChange, onClear }: ActiveFilterChipsProps) => {
+  if (chips.length === 0) return null;
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto px-4 pb-3 scrollbar-hide">
+      {chips.map((chip) => (
+        <button
+          key={chip.key}
+          onClick={() => onChange(chip.remove(filters))}
+          className="flex-shrink-0 flex items-center gap-1 bg-primary/10 text-primary text-xs font-heading font-medium pl-3 pr-2 py-1.5 rounded-full"
+        >
+          {chip.label}
+          <X size={12} />
+        </button>
+      ))}
+      <button onClick={onClear} className="flex-shrink-0 text-xs font-body font-medium text-muted-foreground px-2">
+        Clear all
+      </button>
+    </div>
+  );
+};
+
+export default ActiveFilterChips;
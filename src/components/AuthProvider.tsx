@@ -0,0 +1,41 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { Session } from '@/auth';
+import { AuthContext, type AuthContextValue } from '@/hooks/use-auth';
+import { bookingKeys } from '@/hooks/use-bookings';
+import { readJSON, removeKey, writeJSON } from '@/lib/storage';
+
+const SESSION_KEY = 'salon_session';
+
+const loadSession = () => {
+  const session = readJSON<Session | null>(SESSION_KEY, null);
+  return session && new Date(session.expiresAt) > new Date() ? session : null;
+};
+
+const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<Session | null>(loadSession);
+
+  const value = useMemo<AuthContextValue>(() => {
+    const save = (next: Session) => {
+      writeJSON(SESSION_KEY, next);
+      setSession(next);
+    };
+    return {
+      session,
+      user: session?.user ?? null,
+      signIn: save,
+      updateUser: (user) => session && save({ ...session, user }),
+      signOut: () => {
+        removeKey(SESSION_KEY);
+        setSession(null);
+        // Don't leave the previous customer's bookings in the cache
+        queryClient.removeQueries({ queryKey: bookingKeys.all });
+      },
+    };
+  }, [session, queryClient]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
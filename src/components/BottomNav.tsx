@@ -1,10 +1,13 @@
-import { Home, Search, CalendarDays, Tag, User } from 'lucide-react';
+import { Home, Search, CalendarDays, MessageCircle, Tag, User } from 'lucide-react';
 import { useLocation, useNavigate } from 'react-router-dom';
+import { unreadCount } from '@/chat';
+import { useChat } from '@/hooks/use-chat';
 
 const tabs = [
   { icon: Home, label: 'Home', path: '/' },
   { icon: Search, label: 'Explore', path: '/explore' },
   { icon: CalendarDays, label: 'Bookings', path: '/bookings' },
+  { icon: MessageCircle, label: 'Chats', path: '/chats' },
   { icon: Tag, label: 'Offers', path: '/offers' },
   { icon: User, label: 'Profile', path: '/profile' },
 ];
@@ -12,12 +15,20 @@ const tabs = [
 const BottomNav = () => {
   const location = useLocation();
   const navigate = useNavigate();
+  const { state, identity } = useChat();
+  const unread = identity ? unreadCount(state, identity) : 0;
 
-  // Hide on salon detail page
-  if (location.pathname.startsWith('/salon/')) return null;
+  // Hide on salon detail, payment, conversation and login pages
+  if (
+    location.pathname.startsWith('/salon/') ||
+    location.pathname.startsWith('/pay/') ||
+    location.pathname.startsWith('/chats/') ||
+    location.pathname === '/login'
+  )
+    return null;
 
   return (
-    <nav className="fixed bottom-0 left-0 right-0 z-50 bg-card border-t border-border" style={{ boxShadow: 'var(--shadow-bottom-bar)' }}>
+    <nav className="fixed bottom-0 left-0 right-0 z-50 bg-card border-t border-border print:hidden" style={{ boxShadow: 'var(--shadow-bottom-bar)' }}>
       <div className="flex justify-around items-center h-16 max-w-lg mx-auto px-2">
         {tabs.map((tab) => {
           const isActive = location.pathname === tab.path;
@@ -25,13 +36,18 @@ const BottomNav = () => {
             <button
               key={tab.path}
               onClick={() => navigate(tab.path)}
-              className={`flex flex-col items-center gap-0.5 py-1.5 px-3 rounded-2xl transition-all duration-200 ${
+              className={`relative flex flex-col items-center gap-0.5 py-1.5 px-2.5 rounded-2xl transition-all duration-200 ${
                 isActive
                   ? 'bg-primary/10 text-primary'
                   : 'text-muted-foreground'
               }`}
             >
               <tab.icon size={20} strokeWidth={isActive ? 2.5 : 1.8} />
+              {tab.path === '/chats' && unread > 0 && (
+                <span className="absolute top-0.5 right-1 min-w-[1rem] h-4 px-1 rounded-full bg-primary text-primary-foreground text-[9px] font-heading font-semibold flex items-center justify-center">
+                  {unread > 9 ? '9+' : unread}
+                </span>
+              )}
               <span className="text-[10px] font-medium font-body">{tab.label}</span>
             </button>
           );
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { CartContext, type CartContextValue } from '@/hooks/use-cart';
+import { addToCart, removeFromCart, type Cart } from '@/lib/cart';
+import { readJSON, removeKey, writeJSON } from '@/lib/storage';
+
+const STORAGE_KEY = 'cart';
+
+/** The services being booked, kept on the device so a refresh or a detour through login doesn't lose them. */
+const CartProvider = ({ children }: { children: ReactNode }) => {
+  const [cart, setCart] = useState<Cart | null>(() => readJSON(STORAGE_KEY, null));
+
+  const update = useCallback((next: Cart | null) => {
+    if (next) writeJSON(STORAGE_KEY, next);
+    else removeKey(STORAGE_KEY);
+    setCart(next);
+  }, []);
+
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => e.key === STORAGE_KEY && setCart(readJSON(STORAGE_KEY, null));
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
+
+  const value = useMemo<CartContextValue>(
+    () => ({
+      cart,
+      add: (salon, serviceId) => update(addToCart(cart, salon, serviceId)),
+      remove: (serviceId) => update(removeFromCart(cart, serviceId)),
+      clear: () => update(null),
+    }),
+    [cart, update],
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+};
+
+export default CartProvider;
@@ -0,0 +1,19 @@
+import { useEffect, useMemo, useSyncExternalStore, type ReactNode } from 'react';
+import { getChatClient, type ChatIdentity } from '@/chat';
+import { useAuth } from '@/hooks/use-auth';
+import { ChatContext, type ChatContextValue } from '@/hooks/use-chat';
+
+/** Keeps the signed-in customer reachable, so salon replies count as delivered wherever they are in the app. */
+const ChatProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const client = getChatClient();
+  const state = useSyncExternalStore(client.subscribe, client.getState);
+  const identity = useMemo<ChatIdentity | null>(() => (user ? { role: 'customer', id: user.id } : null), [user]);
+
+  useEffect(() => (identity ? client.connect(identity) : undefined), [client, identity]);
+
+  const value = useMemo<ChatContextValue>(() => ({ client, state, identity }), [client, state, identity]);
+  return <ChatContext.Provider value={value}>{children}</ChatContext.Provider>;
+};
+
+export default ChatProvider;
@@ -0,0 +1,32 @@
+import { Heart } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFavorites } from '@/hooks/use-favorites';
+import type { Salon } from '@/types/salon';
+
+interface FavoriteButtonProps {
+  salon: Salon;
+  size?: number;
+  className?: string;
+}
+
+/** The heart that saves a salon. Safe inside clickable cards: tapping it doesn't open the salon. */
+const FavoriteButton = ({ salon, size = 16, className = '' }: FavoriteButtonProps) => {
+  const { isFavorite, toggle } = useFavorites();
+  const saved = isFavorite(salon.id);
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        toast.success(toggle(salon.id) ? `Saved ${salon.name}` : `Removed ${salon.name} from saved`);
+      }}
+      aria-label={saved ? `Remove ${salon.name} from saved salons` : `Save ${salon.name}`}
+      aria-pressed={saved}
+      className={`rounded-full bg-card/80 backdrop-blur-sm flex items-center justify-center active:scale-90 transition-transform ${className}`}
+    >
+      <Heart size={size} className={saved ? 'text-destructive fill-destructive' : 'text-foreground'} />
+    </button>
+  );
+};
+
+export default FavoriteButton;
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { FavoritesContext, type FavoritesContextValue } from '@/hooks/use-favorites';
+import { isSaved, removeSaved, restoreSaved, toggleSaved, type SavedSalon } from '@/lib/favorites';
+import { readJSON, writeJSON } from '@/lib/storage';
+
+const STORAGE_KEY = 'saved_salons';
+
+/** Saved salons on this device, shared by every heart in the app and kept in step across tabs. */
+const FavoritesProvider = ({ children }: { children: ReactNode }) => {
+  const [saved, setSaved] = useState<SavedSalon[]>(() => readJSON(STORAGE_KEY, []));
+  // Callbacks such as an Undo toast outlive the render they came from, so changes apply to the latest list
+  const latest = useRef(saved);
+
+  const update = useCallback((change: (current: SavedSalon[]) => SavedSalon[]) => {
+    const next = change(latest.current);
+    latest.current = next;
+    writeJSON(STORAGE_KEY, next);
+    setSaved(next);
+    return next;
+  }, []);
+
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== STORAGE_KEY) return;
+      latest.current = readJSON(STORAGE_KEY, []);
+      setSaved(latest.current);
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
+
+  const value = useMemo<FavoritesContextValue>(
+    () => ({
+      saved,
+      isFavorite: (salonId) => isSaved(saved, salonId),
+      toggle: (salonId) => isSaved(update((current) => toggleSaved(current, salonId)), salonId),
+      remove: (salonId) => {
+        update((current) => removeSaved(current, salonId));
+      },
+      restore: (entry) => {
+        update((current) => restoreSaved(current, entry));
+      },
+    }),
+    [saved, update],
+  );
+
+  return <FavoritesContext.Provider value={value}>{children}</FavoritesContext.Provider>;
+};
+
+export default FavoritesProvider;
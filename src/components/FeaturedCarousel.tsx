@@ -2,6 +2,10 @@ import { useState, useEffect, useCallback } from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import type { Salon } from '@/types/salon';
+import FavoriteButton from '@/components/FavoriteButton';
+import { getOpenStatus } from '@/lib/openingHours';
+import { getSalonPromotion } from '@/lib/promotions';
+import { usePromotions } from '@/hooks/use-catalog';
 
 interface FeaturedCarouselProps {
   salons: Salon[];
@@ -11,6 +15,7 @@ const FeaturedCarousel = ({ salons }: FeaturedCarouselProps) => {
   const [current, setCurrent] = useState(0);
   const [paused, setPaused] = useState(false);
   const navigate = useNavigate();
+  const { data: promotions = [] } = usePromotions();
 
   const next = useCallback(() => {
     setCurrent((c) => (c + 1) % salons.length);
@@ -32,7 +37,10 @@ const FeaturedCarousel = ({ salons }: FeaturedCarouselProps) => {
         className="flex transition-transform duration-500 ease-out"
         style={{ transform: `translateX(-${current * 100}%)` }}
       >
-        {salons.map((salon) => (
+        {salons.map((salon) => {
+          const status = getOpenStatus(salon.hours);
+          const offer = getSalonPromotion(promotions, salon.id);
+          return (
           <div key={salon.id} className="w-full flex-shrink-0 relative aspect-[16/10]">
             <img
               src={salon.image}
@@ -42,19 +50,26 @@ const FeaturedCarousel = ({ salons }: FeaturedCarouselProps) => {
             />
             <div className="absolute inset-0 bg-gradient-to-t from-foreground/80 via-foreground/20 to-transparent" />
 
-            {salon.offer && (
+            {offer && (
               <span className="absolute top-3 left-3 bg-accent text-accent-foreground text-xs font-semibold font-heading px-3 py-1 rounded-full">
-                {salon.offer}
+                {offer.title}
               </span>
             )}
 
-            <div className="absolute top-3 right-3 bg-card/90 backdrop-blur-sm text-foreground text-xs font-semibold px-2 py-1 rounded-lg flex items-center gap-1">
-              ⭐ {salon.rating}
+            <div className="absolute top-3 right-3 flex items-center gap-2">
+              <div className="bg-card/90 backdrop-blur-sm text-foreground text-xs font-semibold px-2 py-1 rounded-lg flex items-center gap-1">
+                ⭐ {salon.rating}
+              </div>
+              <FavoriteButton salon={salon} size={14} className="w-7 h-7" />
             </div>
 
             <div className="absolute bottom-0 left-0 right-0 p-4">
               <h3 className="font-heading font-semibold text-lg text-primary-foreground">{salon.name}</h3>
               <p className="text-primary-foreground/70 text-xs font-body italic">{salon.tagline}</p>
+              <p className="text-primary-foreground/80 text-[10px] font-body mt-1 flex items-center gap-1">
+                <span className={`w-1.5 h-1.5 rounded-full ${status.isOpen ? 'bg-success' : 'bg-destructive'}`} />
+                {status.label}{status.detail && ` • ${status.detail}`}
+              </p>
               {salon.bookingsThisWeek && (
                 <p className="text-primary-foreground/60 text-[10px] font-body mt-1">
                   🔥 {salon.bookingsThisWeek} bookings this week
@@ -68,7 +83,8 @@ const FeaturedCarousel = ({ salons }: FeaturedCarouselProps) => {
               </button>
             </div>
           </div>
-        ))}
+          );
+        })}
       </div>
 
       {/* Dots */}
@@ -0,0 +1,179 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  DEFAULT_FILTERS,
+  DISTANCE_OPTIONS,
+  FILTER_TAGS,
+  PRICE_RANGE,
+  RATING_OPTIONS,
+  SORT_LABELS,
+  type ClienteleFilter,
+  type SalonFilters,
+  type SortOption,
+} from '@/lib/filters';
+
+interface FilterSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: SalonFilters;
+  onApply: (filters: SalonFilters) => void;
+}
+
+const Section = ({ title, children }: { title: string; children: ReactNode }) => (
+  <div className="py-4 border-b border-border last:border-0">
+    <h3 className="font-heading font-semibold text-sm text-foreground mb-3">{title}</h3>
+    {children}
+  </div>
+);
+
+const Chip = ({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) => (
+  <button
+    onClick={onClick}
+    className={`px-3 py-1.5 rounded-full text-xs font-heading font-medium border transition-colors ${
+      active ? 'bg-primary text-primary-foreground border-primary' : 'bg-card text-foreground border-border'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const clienteleOptions: { value: ClienteleFilter | undefined; label: string }[] = [
+  { value: undefined, label: 'Everyone' },
+  { value: 'men', label: 'Men' },
+  { value: 'women', label: 'Women' },
+];
+
+/** Edits a draft copy of the filters; nothing changes in the results until Apply. */
+const FilterSheet = ({ open, onOpenChange, filters, onApply }: FilterSheetProps) => {
+  const [draft, setDraft] = useState(filters);
+
+  // Start from what's applied each time the sheet opens
+  useEffect(() => {
+    if (open) setDraft(filters);
+  }, [open, filters]);
+
+  const update = (changes: Partial<SalonFilters>) => setDraft((d) => ({ ...d, ...changes }));
+  const priceValue = [draft.minPrice ?? PRICE_RANGE.min, draft.maxPrice ?? PRICE_RANGE.max];
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-3xl max-h-[85vh] overflow-y-auto px-4 pb-0">
+        <SheetHeader className="text-left">
+          <SheetTitle className="font-heading">Filter & Sort</SheetTitle>
+        </SheetHeader>
+
+        <Section title="Sort by">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(SORT_LABELS) as SortOption[]).map((sort) => (
+              <Chip key={sort} active={draft.sort === sort} onClick={() => update({ sort })}>
+                {SORT_LABELS[sort]}
+              </Chip>
+            ))}
+          </div>
+        </Section>
+
+        <Section title="Price">
+          <Slider
+            min={PRICE_RANGE.min}
+            max={PRICE_RANGE.max}
+            step={PRICE_RANGE.step}
+            minStepsBetweenThumbs={1}
+            value={priceValue}
+            onValueChange={([min, max]) =>
+              update({
+                minPrice: min === PRICE_RANGE.min ? undefined : min,
+                maxPrice: max === PRICE_RANGE.max ? undefined : max,
+              })
+            }
+          />
+          <div className="flex justify-between mt-2 text-xs font-body text-muted-foreground">
+            <span>₹{priceValue[0]}</span>
+            <span>{draft.maxPrice === undefined ? `₹${PRICE_RANGE.max}+` : `₹${draft.maxPrice}`}</span>
+          </div>
+        </Section>
+
+        <Section title="Rating">
+          <div className="flex flex-wrap gap-2">
+            <Chip active={draft.minRating === undefined} onClick={() => update({ minRating: undefined })}>Any</Chip>
+            {RATING_OPTIONS.map((rating) => (
+              <Chip key={rating} active={draft.minRating === rating} onClick={() => update({ minRating: rating })}>
+                {rating}+ ★
+              </Chip>
+            ))}
+          </div>
+        </Section>
+
+        <Section title="Distance">
+          <div className="flex flex-wrap gap-2">
+            <Chip active={draft.maxDistanceKm === undefined} onClick={() => update({ maxDistanceKm: undefined })}>Any</Chip>
+            {DISTANCE_OPTIONS.map((km) => (
+              <Chip key={km} active={draft.maxDistanceKm === km} onClick={() => update({ maxDistanceKm: km })}>
+                Within {km} km
+              </Chip>
+            ))}
+          </div>
+        </Section>
+
+        <Section title="Serves">
+          <div className="flex flex-wrap gap-2">
+            {clienteleOptions.map((option) => (
+              <Chip key={option.label} active={draft.serves === option.value} onClick={() => update({ serves: option.value })}>
+                {option.label}
+              </Chip>
+            ))}
+          </div>
+        </Section>
+
+        <Section title="Amenities">
+          <div className="flex flex-wrap gap-2">
+            {FILTER_TAGS.map((tag) => {
+              const active = draft.tags.includes(tag);
+              return (
+                <Chip
+                  key={tag}
+                  active={active}
+                  onClick={() => update({ tags: active ? draft.tags.filter((t) => t !== tag) : [...draft.tags, tag] })}
+                >
+                  {tag}
+                </Chip>
+              );
+            })}
+          </div>
+        </Section>
+
+        <div className="py-4 space-y-4">
+          <label className="flex items-center justify-between">
+            <span className="font-heading font-semibold text-sm text-foreground">Open now</span>
+            <Switch checked={!!draft.openNow} onCheckedChange={(checked) => update({ openNow: checked || undefined })} />
+          </label>
+          <label className="flex items-center justify-between">
+            <span className="font-heading font-semibold text-sm text-foreground">Only salons with offers</span>
+            <Switch checked={!!draft.offersOnly} onCheckedChange={(checked) => update({ offersOnly: checked || undefined })} />
+          </label>
+        </div>
+
+        <div className="sticky bottom-0 -mx-4 bg-card border-t border-border px-4 py-3 flex gap-3">
+          <button
+            onClick={() => setDraft({ ...DEFAULT_FILTERS, category: draft.category })}
+            className="py-3 px-5 rounded-2xl font-heading font-medium text-sm border-2 border-border text-foreground"
+          >
+            Reset
+          </button>
+          <button
+            onClick={() => {
+              onApply(draft);
+              onOpenChange(false);
+            }}
+            className="flex-1 py-3 rounded-2xl font-heading font-semibold text-sm bg-primary text-primary-foreground active:scale-[0.98] transition-transform"
+          >
+            Show Results
+          </button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default FilterSheet;
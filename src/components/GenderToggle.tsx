@@ -0,0 +1,38 @@
+import type { GenderPreference } from '@/types/salon';
+import { GENDER_OPTIONS } from '@/lib/genderPreference';
+
+interface GenderToggleProps {
+  value: GenderPreference;
+  onChange: (value: GenderPreference) => void;
+}
+
+const GenderToggle = ({ value, onChange }: GenderToggleProps) => {
+  const index = Math.max(0, GENDER_OPTIONS.findIndex((o) => o.value === value));
+
+  return (
+    <div role="radiogroup" aria-label="Show services for" className="relative grid grid-cols-3 bg-secondary rounded-xl p-0.5">
+      <div
+        className="absolute top-0.5 bottom-0.5 left-0.5 rounded-lg bg-primary transition-transform duration-250 ease-out"
+        style={{
+          width: `calc((100% - 4px) / ${GENDER_OPTIONS.length})`,
+          transform: `translateX(${index * 100}%)`,
+        }}
+      />
+      {GENDER_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          role="radio"
+          aria-checked={value === option.value}
+          onClick={() => onChange(option.value)}
+          className={`relative z-10 px-3 py-1.5 text-xs font-heading font-medium rounded-lg transition-colors duration-200 ${
+            value === option.value ? 'text-primary-foreground' : 'text-muted-foreground'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default GenderToggle;
@@ -0,0 +1,21 @@
+import { highlight } from '@/lib/search';
+
+interface HighlightProps {
+  text: string;
+  query: string;
+}
+
+/** Renders `text` with the words that matched `query` marked. */
+const Highlight = ({ text, query }: HighlightProps) => (
+  <>
+    {highlight(text, query).map((segment, i) =>
+      segment.match ? (
+        <mark key={i} className="bg-primary/15 text-inherit rounded-sm">{segment.text}</mark>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      ),
+    )}
+  </>
+);
+
+export default Highlight;
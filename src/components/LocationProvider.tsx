@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { useCities, useLocalities } from '@/hooks/use-catalog';
+import {
+  DEFAULT_LOCATION,
+  MAX_RECENT_LOCATIONS,
+  UserLocationContext,
+  type UserLocation,
+  type UserLocationContextValue,
+} from '@/hooks/use-user-location';
+import { CITY_RADIUS_KM, getCurrentPosition, haversineKm, LOCALITY_RADIUS_KM, nearestPlace } from '@/lib/geo';
+import { readJSON, writeJSON } from '@/lib/storage';
+
+const LOCATION_KEY = 'user_location';
+const RECENT_KEY = 'recent_locations';
+
+// Locations saved before the catalog had cities don't say which one they're in; start those over
+const loadLocation = () => {
+  const saved = readJSON<UserLocation | null>(LOCATION_KEY, null);
+  return saved?.cityId ? saved : DEFAULT_LOCATION;
+};
+
+const LocationProvider = ({ children }: { children: ReactNode }) => {
+  const { data: cities = [] } = useCities();
+  const { data: localities = [] } = useLocalities();
+  const [location, setLocation] = useState<UserLocation>(loadLocation);
+  const [recentIds, setRecentIds] = useState<string[]>(() => readJSON(RECENT_KEY, []));
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = useCallback((next: UserLocation) => {
+    writeJSON(LOCATION_KEY, next);
+    setLocation(next);
+    setError(null);
+  }, []);
+
+  const locate = useCallback(async () => {
+    setLocating(true);
+    setError(null);
+    try {
+      const coordinates = await getCurrentPosition();
+      const city = nearestPlace(coordinates, cities, CITY_RADIUS_KM);
+      if (!city) throw new Error("We aren't in your area yet");
+      save({ cityId: city.id, coordinates, source: 'gps' });
+      return true;
+    } catch (e) {
+      setError((e as Error).message);
+      return false;
+    } finally {
+      setLocating(false);
+    }
+  }, [cities, save]);
+
+  // Refresh a GPS location (or find a first one) on launch, but only if the browser won't have to ask.
+  // A city or locality the customer picked by hand stays until they change it.
+  const checkedPermission = useRef(false);
+  useEffect(() => {
+    const pickedByHand = location.source === 'city' || location.source === 'locality';
+    if (checkedPermission.current || pickedByHand || cities.length === 0) return;
+    checkedPermission.current = true;
+    navigator.permissions
+      ?.query({ name: 'geolocation' })
+      .then((status) => status.state === 'granted' && locate())
+      .catch(() => undefined);
+  }, [location.source, cities.length, locate]);
+
+  const value = useMemo<UserLocationContextValue>(() => {
+    const city = cities.find((c) => c.id === location.cityId);
+    const inCity = localities.filter((l) => l.cityId === location.cityId);
+    const locality =
+      location.source === 'locality'
+        ? localities.find((l) => l.id === location.localityId)
+        : location.source === 'gps'
+          ? nearestPlace(location.coordinates, inCity, LOCALITY_RADIUS_KM)
+          : undefined;
+    return {
+      location,
+      city,
+      label: locality?.name ?? city?.name ?? '',
+      recent: recentIds
+        .filter((id) => id !== location.localityId)
+        .map((id) => localities.find((l) => l.id === id))
+        .filter(Boolean),
+      locating,
+      error,
+      locate,
+      chooseCity: (next) => save({ cityId: next.id, coordinates: next.coordinates, source: 'city' }),
+      chooseLocality: (next) => {
+        save({ cityId: next.cityId, coordinates: next.coordinates, source: 'locality', localityId: next.id });
+        const ids = [next.id, ...recentIds.filter((id) => id !== next.id)].slice(0, MAX_RECENT_LOCATIONS);
+        writeJSON(RECENT_KEY, ids);
+        setRecentIds(ids);
+      },
+      distanceTo: (point) => haversineKm(location.coordinates, point),
+    };
+  }, [location, cities, localities, recentIds, locating, error, locate, save]);
+
+  return <UserLocationContext.Provider value={value}>{children}</UserLocationContext.Provider>;
+};
+
+export default LocationProvider;
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { Building2, Check, History, LocateFixed, Loader2, MapPin, Search, X } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import Highlight from '@/components/Highlight';
+import { useCities, useLocalities } from '@/hooks/use-catalog';
+import { useUserLocation } from '@/hooks/use-user-location';
+import { queryTerms, tokenize } from '@/lib/search';
+import type { City, Locality } from '@/types/salon';
+
+interface LocationSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Every word typed has to start a word of the name: "band w" finds Bandra West
+const matches = (name: string, query: string) => {
+  const words = tokenize(name);
+  return queryTerms(query).every((term) => words.some((w) => w.startsWith(term)));
+};
+
+/** GPS first; the city and locality lists are there for when the browser can't or won't say where the customer is. */
+const LocationSheet = ({ open, onOpenChange }: LocationSheetProps) => {
+  const { location, city, recent, locating, error, locate, chooseCity, chooseLocality } = useUserLocation();
+  const { data: cities = [] } = useCities();
+  const { data: localities = [] } = useLocalities();
+  const [query, setQuery] = useState('');
+  const [browsingCityId, setBrowsingCityId] = useState(location.cityId);
+
+  // Each time the sheet opens, start from a blank search in the current city
+  useEffect(() => {
+    if (!open) return;
+    setQuery('');
+    setBrowsingCityId(location.cityId);
+  }, [open, location.cityId]);
+
+  const cityName = (id: string) => cities.find((c) => c.id === id)?.name ?? '';
+  const searching = query.trim().length > 0;
+  const matchedCities = searching ? cities.filter((c) => matches(c.name, query)) : [];
+  const matchedLocalities = searching
+    ? localities.filter((l) => matches(l.name, query))
+    : localities.filter((l) => l.cityId === browsingCityId);
+
+  const pickCity = (next: City) => {
+    chooseCity(next);
+    onOpenChange(false);
+  };
+
+  const pickLocality = (next: Locality) => {
+    chooseLocality(next);
+    onOpenChange(false);
+  };
+
+  const locateMe = async () => {
+    if (await locate()) onOpenChange(false);
+  };
+
+  const row = (key: string, icon: typeof MapPin, title: string, subtitle: string, selected: boolean, onClick: () => void) => {
+    const Icon = icon;
+    return (
+      <button
+        key={key}
+        onClick={onClick}
+        className={`w-full flex items-center gap-3 rounded-xl px-3 py-2.5 text-left transition-colors ${
+          selected ? 'bg-secondary' : 'active:bg-secondary/60'
+        }`}
+      >
+        <Icon size={16} className="text-muted-foreground flex-shrink-0" />
+        <span className="flex-1 min-w-0">
+          <span className="block font-body text-sm text-foreground truncate"><Highlight text={title} query={query} /></span>
+          {subtitle && <span className="block font-body text-[10px] text-muted-foreground">{subtitle}</span>}
+        </span>
+        {selected && <Check size={16} className="text-primary" />}
+      </button>
+    );
+  };
+
+  const isCurrentLocality = (l: Locality) => location.source === 'locality' && location.localityId === l.id;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-3xl h-[85vh] overflow-y-auto px-4">
+        <SheetHeader className="text-left">
+          <SheetTitle className="font-heading">Your location</SheetTitle>
+          <SheetDescription className="font-body text-xs">
+            Salons, offers and search results are for {city?.name ?? 'this city'}, and distances are worked out from here.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 flex items-center gap-2 bg-card border border-border rounded-2xl px-4 py-3">
+          <Search size={16} className="text-muted-foreground flex-shrink-0" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search for a city or area"
+            className="flex-1 bg-transparent text-sm font-body text-foreground placeholder:text-muted-foreground outline-none"
+          />
+          {query && (
+            <button onClick={() => setQuery('')} aria-label="Clear search">
+              <X size={16} className="text-muted-foreground" />
+            </button>
+          )}
+        </div>
+
+        <button
+          onClick={locateMe}
+          disabled={locating}
+          className="mt-3 w-full flex items-center gap-3 bg-primary/10 text-primary rounded-2xl p-3.5 active:scale-[0.98] transition-transform disabled:opacity-70"
+        >
+          {locating ? <Loader2 size={18} className="animate-spin" /> : <LocateFixed size={18} />}
+          <span className="flex-1 text-left font-heading font-semibold text-sm">
+            {locating ? 'Finding you…' : 'Use my current location'}
+          </span>
+          {location.source === 'gps' && <Check size={16} />}
+        </button>
+        {error && (
+          <p role="alert" className="mt-2 text-[11px] font-body text-destructive">
+            {error}. Pick a city or area below instead.
+          </p>
+        )}
+
+        {searching ? (
+          <div className="space-y-1 pt-4 pb-4">
+            {matchedCities.map((c) =>
+              row(`city:${c.id}`, Building2, c.name, 'City', location.source === 'city' && location.cityId === c.id, () => pickCity(c)),
+            )}
+            {matchedLocalities.map((l) =>
+              row(l.id, MapPin, l.name, cityName(l.cityId), isCurrentLocality(l), () => pickLocality(l)),
+            )}
+            {matchedCities.length + matchedLocalities.length === 0 && (
+              <p className="text-center text-xs font-body text-muted-foreground py-6">No cities or areas match “{query.trim()}”</p>
+            )}
+          </div>
+        ) : (
+          <>
+            {recent.length > 0 && (
+              <>
+                <h3 className="font-heading font-semibold text-xs text-muted-foreground mt-5 mb-2">RECENT</h3>
+                <div className="space-y-1">
+                  {recent.map((l) => row(`recent:${l.id}`, History, l.name, cityName(l.cityId), false, () => pickLocality(l)))}
+                </div>
+              </>
+            )}
+
+            <h3 className="font-heading font-semibold text-xs text-muted-foreground mt-5 mb-2">CITIES</h3>
+            <div className="flex flex-wrap gap-2">
+              {cities.map((c) => (
+                <button
+                  key={c.id}
+                  onClick={() => setBrowsingCityId(c.id)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-heading font-medium border transition-colors ${
+                    browsingCityId === c.id ? 'bg-primary text-primary-foreground border-primary' : 'bg-card text-foreground border-border'
+                  }`}
+                >
+                  {c.name}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-1 pt-3 pb-4">
+              {cities
+                .filter((c) => c.id === browsingCityId)
+                .map((c) =>
+                  row(
+                    `city:${c.id}`,
+                    Building2,
+                    `All of ${c.name}`,
+                    '',
+                    location.source !== 'locality' && location.source !== 'gps' && location.cityId === c.id,
+                    () => pickCity(c),
+                  ),
+                )}
+              {matchedLocalities.map((l) => row(l.id, MapPin, l.name, '', isCurrentLocality(l), () => pickLocality(l)))}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default LocationSheet;
@@ -1,13 +1,21 @@
 import { Star } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import type { Salon } from '@/types/salon';
+import FavoriteButton from '@/components/FavoriteButton';
+import { useUserLocation } from '@/hooks/use-user-location';
+import { formatDistance } from '@/lib/geo';
+import { getOpenStatus } from '@/lib/openingHours';
 
 interface NearbySalonCardProps {
   salon: Salon;
+  /** Shown instead of the salon's starting price, e.g. the cheapest service in the chosen category. */
+  fromPrice?: number;
 }
 
-const NearbySalonCard = ({ salon }: NearbySalonCardProps) => {
+const NearbySalonCard = ({ salon, fromPrice = salon.startingPrice }: NearbySalonCardProps) => {
   const navigate = useNavigate();
+  const status = getOpenStatus(salon.hours);
+  const { distanceTo } = useUserLocation();
 
   return (
     <div
@@ -16,10 +24,11 @@ const NearbySalonCard = ({ salon }: NearbySalonCardProps) => {
     >
       <div className="relative h-32">
         <img src={salon.image} alt={salon.name} className="w-full h-full object-cover" loading="lazy" />
+        <FavoriteButton salon={salon} size={14} className="absolute top-2 left-2 w-7 h-7" />
         <span className={`absolute top-2 right-2 text-[10px] font-semibold px-2 py-0.5 rounded-full ${
-          salon.isOpen ? 'bg-success text-success-foreground' : 'bg-destructive text-destructive-foreground'
+          status.isOpen ? 'bg-success text-success-foreground' : 'bg-destructive text-destructive-foreground'
         }`}>
-          {salon.isOpen ? 'Open' : 'Closed'}
+          {status.isOpen ? 'Open' : 'Closed'}
         </span>
       </div>
       <div className="p-3">
@@ -27,10 +36,15 @@ const NearbySalonCard = ({ salon }: NearbySalonCardProps) => {
         <div className="flex items-center gap-1 mt-1">
           <Star size={12} className="text-accent fill-accent" />
           <span className="text-xs font-body text-foreground">{salon.rating}</span>
-          <span className="text-xs text-muted-foreground">• {salon.distance}</span>
+          <span className="text-xs text-muted-foreground">• {formatDistance(distanceTo(salon.coordinates))}</span>
         </div>
+        {status.detail && (
+          <p className={`text-[10px] font-body mt-0.5 truncate ${status.isOpen ? 'text-success' : 'text-muted-foreground'}`}>
+            {status.detail}
+          </p>
+        )}
         <div className="flex items-center justify-between mt-2">
-          <span className="text-xs text-muted-foreground font-body">From ₹{salon.startingPrice}</span>
+          <span className="text-xs text-muted-foreground font-body">From ₹{fromPrice}</span>
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -0,0 +1,359 @@
+import { useEffect, useLayoutEffect, useRef, useState, type PointerEvent, type WheelEvent } from 'react';
+import { LocateFixed, Minus, Plus, RotateCw, Star } from 'lucide-react';
+import type { Bounds, Salon } from '@/types/salon';
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from '@/components/ui/carousel';
+import { basemap } from '@/data/basemap';
+import { useLocalities } from '@/hooks/use-catalog';
+import { useLocalityOf } from '@/hooks/use-search';
+import { useUserLocation } from '@/hooks/use-user-location';
+import { formatDistance } from '@/lib/geo';
+import {
+  clusterPoints,
+  fitViewport,
+  geometryPath,
+  panBy,
+  toScreen,
+  viewportBounds,
+  zoomTo,
+  type MapFeatureKind,
+  type Point,
+  type Size,
+  type Viewport,
+} from '@/lib/map';
+
+interface SalonMapProps {
+  salons: Salon[];
+  onOpen: (id: string) => void;
+  /** Offers "Search this area" once the customer has moved the map. */
+  onSearchArea?: (bounds: Bounds) => void;
+  className?: string;
+}
+
+const FEATURE_STYLES: Record<MapFeatureKind, { className: string; strokeWidth?: number }> = {
+  water: { className: 'fill-sky-200/80 dark:fill-sky-900/60' },
+  park: { className: 'fill-emerald-200/70 dark:fill-emerald-900/50' },
+  highway: { className: 'fill-none stroke-amber-200 dark:stroke-amber-900', strokeWidth: 5 },
+  road: { className: 'fill-none stroke-card', strokeWidth: 3 },
+};
+
+// Locality names only help once the map is close enough to tell them apart
+const LABEL_ZOOM = 12;
+// A drag shorter than this is still a tap
+const TAP_SLOP_PX = 5;
+const EDGE_PX = 40;
+
+const SalonMap = ({ salons, onOpen, onSearchArea, className = 'h-[60vh]' }: SalonMapProps) => {
+  const { location, distanceTo } = useUserLocation();
+  const { data: localities = [] } = useLocalities(location.cityId);
+  const localityOf = useLocalityOf();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState<Size>({ width: 0, height: 0 });
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  const [moved, setMoved] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [carousel, setCarousel] = useState<CarouselApi>();
+
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const measure = () => setSize({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Frame the salons whenever a different set arrives, until the customer searches an area of
+  // their own: from then on they decide what the map shows.
+  // Each set is framed once: re-fitting on every resize or location change would undo the customer's panning.
+  const searchedArea = useRef(false);
+  const framedKey = useRef<string | null>(null);
+  const salonKey = salons.map((s) => s.id).join();
+  useEffect(() => {
+    if (size.width === 0 || searchedArea.current || framedKey.current === salonKey) return;
+    framedKey.current = salonKey;
+    const points = salons.length > 0 ? salons.map((s) => s.coordinates) : [location.coordinates];
+    setViewport(fitViewport(points, size, 56, salons.length > 1 ? 15 : 14));
+    setMoved(false);
+  }, [salonKey, size, location.coordinates, salons]);
+
+  // The first card is on top until the customer picks another
+  const selected = salons.find((s) => s.id === selectedId) ?? salons[0] ?? null;
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    const index = salons.findIndex((s) => s.id === id);
+    if (carousel && index >= 0 && carousel.selectedScrollSnap() !== index) carousel.scrollTo(index);
+  };
+
+  // Swiping the cards selects the salon on top and brings its pin into view
+  useEffect(() => {
+    if (!carousel) return;
+    const onSelect = () => {
+      const salon = salons[carousel.selectedScrollSnap()];
+      if (!salon) return;
+      setSelectedId(salon.id);
+      setViewport((current) => {
+        if (!current) return current;
+        const p = toScreen(salon.coordinates, current, size);
+        const visible = p.x > EDGE_PX && p.x < size.width - EDGE_PX && p.y > EDGE_PX && p.y < size.height - EDGE_PX;
+        return visible ? current : { ...current, center: salon.coordinates };
+      });
+    };
+    carousel.on('select', onSelect);
+    return () => {
+      carousel.off('select', onSelect);
+    };
+  }, [carousel, salons, size]);
+
+  const move = (next: Viewport) => {
+    setViewport(next);
+    setMoved(true);
+  };
+
+  // One finger pans; two pinch-zoom around the point between them
+  const pointers = useRef(new Map<number, Point>());
+  const dragDistance = useRef(0);
+
+  const localPoint = (e: { clientX: number; clientY: number }): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const onPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if ((e.target as Element).closest('[data-map-control]')) return;
+    pointers.current.set(e.pointerId, localPoint(e));
+    if (pointers.current.size === 1) dragDistance.current = 0;
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous || !viewport) return;
+    const point = localPoint(e);
+    if (pointers.current.size === 1) {
+      dragDistance.current += Math.hypot(point.x - previous.x, point.y - previous.y);
+      if (dragDistance.current > TAP_SLOP_PX) {
+        // Capture only once it's a drag, so a tap still lands on the pin under it
+        e.currentTarget.setPointerCapture?.(e.pointerId);
+        move(panBy(viewport, point.x - previous.x, point.y - previous.y));
+      }
+    } else if (pointers.current.size === 2) {
+      const [other] = [...pointers.current.entries()].filter(([id]) => id !== e.pointerId).map(([, p]) => p);
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(point.x - other.x, point.y - other.y);
+      dragDistance.current = Infinity;
+      if (before > 0) {
+        const mid = { x: (point.x + other.x) / 2, y: (point.y + other.y) / 2 };
+        move(zoomTo(viewport, viewport.zoom + Math.log2(after / before), size, mid));
+      }
+    }
+    pointers.current.set(e.pointerId, point);
+  };
+
+  const onPointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+  };
+
+  const onWheel = (e: WheelEvent<HTMLDivElement>) => {
+    if (!viewport) return;
+    move(zoomTo(viewport, viewport.zoom - e.deltaY / 300, size, localPoint(e)));
+  };
+
+  const zoomBy = (delta: number) => viewport && move(zoomTo(viewport, Math.round(viewport.zoom) + delta, size));
+
+  const centerOnMe = () =>
+    viewport && move({ center: location.coordinates, zoom: Math.max(viewport.zoom, 14) });
+
+  const searchArea = () => {
+    if (!viewport || !onSearchArea) return;
+    searchedArea.current = true;
+    setMoved(false);
+    onSearchArea(viewportBounds(viewport, size));
+  };
+
+  // Taps that end a drag shouldn't open anything
+  const tapped = (action: () => void) => () => {
+    if (dragDistance.current <= TAP_SLOP_PX) action();
+  };
+
+  const clusters = viewport ? clusterPoints(salons, viewport, size) : [];
+  const me = viewport ? toScreen(location.coordinates, viewport, size) : null;
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={containerRef}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onWheel={onWheel}
+        onDoubleClick={(e) => viewport && move(zoomTo(viewport, viewport.zoom + 1, size, localPoint(e)))}
+        className={`relative overflow-hidden rounded-2xl bg-secondary/60 card-shadow touch-none select-none cursor-grab active:cursor-grabbing ${className}`}
+      >
+        {viewport && (
+          <svg width={size.width} height={size.height} className="absolute inset-0" role="img" aria-label="Map of salons">
+            {basemap.features.map((feature, i) => {
+              const style = FEATURE_STYLES[feature.properties.kind];
+              return (
+                <path
+                  key={i}
+                  d={geometryPath(feature.geometry, viewport, size)}
+                  className={style.className}
+                  strokeWidth={style.strokeWidth}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              );
+            })}
+
+            {viewport.zoom >= LABEL_ZOOM &&
+              localities.map((locality) => {
+                const p = toScreen(locality.coordinates, viewport, size);
+                return (
+                  <text
+                    key={locality.id}
+                    x={p.x}
+                    y={p.y}
+                    textAnchor="middle"
+                    className="fill-muted-foreground/70 text-[10px] font-heading font-semibold uppercase tracking-wider pointer-events-none"
+                  >
+                    {locality.name}
+                  </text>
+                );
+              })}
+
+            {me && (
+              <g className="pointer-events-none">
+                <circle cx={me.x} cy={me.y} r={8} className="fill-primary/20">
+                  <animate attributeName="r" values="8;18;8" dur="2.4s" repeatCount="indefinite" />
+                </circle>
+                <circle cx={me.x} cy={me.y} r={6} className="fill-primary stroke-card" strokeWidth={2} />
+              </g>
+            )}
+
+            {clusters.map((cluster) => {
+              const p = toScreen(cluster.coordinates, viewport, size);
+              const containsSelected = cluster.items.some((s) => s.id === selected?.id);
+              if (cluster.items.length > 1) {
+                const zoomIn = () => {
+                  const fit = fitViewport(cluster.items.map((s) => s.coordinates), size, 72, 17);
+                  move(fit && fit.zoom > viewport.zoom ? fit : zoomTo(viewport, viewport.zoom + 2, size, p));
+                };
+                return (
+                  <g key={cluster.key} onClick={tapped(zoomIn)} className="cursor-pointer" aria-label={`${cluster.items.length} salons`}>
+                    <circle cx={p.x} cy={p.y} r={20} className="fill-primary/20" />
+                    <circle
+                      cx={p.x}
+                      cy={p.y}
+                      r={15}
+                      className={containsSelected ? 'fill-accent stroke-card' : 'fill-primary stroke-card'}
+                      strokeWidth={2}
+                    />
+                    <text
+                      x={p.x}
+                      y={p.y + 4}
+                      textAnchor="middle"
+                      className={`text-[11px] font-heading font-bold ${containsSelected ? 'fill-accent-foreground' : 'fill-primary-foreground'}`}
+                    >
+                      {cluster.items.length}
+                    </text>
+                  </g>
+                );
+              }
+              const [salon] = cluster.items;
+              const isSelected = salon.id === selected?.id;
+              return (
+                <g key={cluster.key} onClick={tapped(() => select(salon.id))} className="cursor-pointer" aria-label={salon.name}>
+                  <path
+                    d={`M${p.x},${p.y} l-6,-9 h12 z`}
+                    className={isSelected ? 'fill-accent' : 'fill-primary'}
+                  />
+                  <rect
+                    x={p.x - 17}
+                    y={p.y - 29}
+                    width={34}
+                    height={20}
+                    rx={10}
+                    className={isSelected ? 'fill-accent stroke-card' : 'fill-card stroke-primary'}
+                    strokeWidth={isSelected ? 2 : 1.5}
+                  />
+                  <text
+                    x={p.x}
+                    y={p.y - 15}
+                    textAnchor="middle"
+                    className={`text-[10px] font-heading font-semibold ${isSelected ? 'fill-accent-foreground' : 'fill-primary'}`}
+                  >
+                    ★{salon.rating}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        )}
+
+        {moved && onSearchArea && (
+          <button
+            data-map-control
+            onClick={searchArea}
+            className="absolute top-3 left-1/2 -translate-x-1/2 flex items-center gap-1.5 bg-card text-primary text-xs font-heading font-semibold px-4 py-2 rounded-full card-shadow active:scale-95 transition-transform animate-fade-in-up"
+            style={{ animationDuration: '200ms' }}
+          >
+            <RotateCw size={13} /> Search this area
+          </button>
+        )}
+
+        <div data-map-control className="absolute top-3 right-3 flex flex-col gap-2">
+          <div className="flex flex-col bg-card rounded-xl card-shadow overflow-hidden">
+            <button onClick={() => zoomBy(1)} aria-label="Zoom in" className="p-2 text-foreground active:bg-secondary">
+              <Plus size={16} />
+            </button>
+            <button onClick={() => zoomBy(-1)} aria-label="Zoom out" className="p-2 text-foreground border-t border-border active:bg-secondary">
+              <Minus size={16} />
+            </button>
+          </div>
+          <button onClick={centerOnMe} aria-label="Show my location" className="p-2 bg-card text-primary rounded-xl card-shadow active:bg-secondary">
+            <LocateFixed size={16} />
+          </button>
+        </div>
+
+        <span className="absolute bottom-1.5 right-2 text-[9px] font-body text-muted-foreground/80 pointer-events-none">
+          Offline map · approximate
+        </span>
+      </div>
+
+      {salons.length > 0 && (
+        <Carousel setApi={setCarousel} opts={{ align: 'center' }} aria-label="Salons on the map">
+          <CarouselContent className="-ml-2">
+            {salons.map((salon) => (
+              <CarouselItem key={salon.id} className="pl-2 basis-[85%]">
+                <div
+                  onClick={() => (selected?.id === salon.id ? onOpen(salon.id) : select(salon.id))}
+                  className={`flex gap-3 bg-card rounded-2xl p-3 card-shadow cursor-pointer active:scale-[0.98] transition-all ${
+                    selected?.id === salon.id ? 'ring-2 ring-accent' : ''
+                  }`}
+                >
+                  <img src={salon.image} alt={salon.name} className="w-14 h-14 rounded-xl object-cover flex-shrink-0" loading="lazy" />
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-heading font-semibold text-sm text-foreground truncate">{salon.name}</h4>
+                    <p className="text-[11px] font-body text-muted-foreground truncate">
+                      {localityOf(salon)} • {formatDistance(distanceTo(salon.coordinates))}
+                    </p>
+                    <div className="flex items-center gap-1 mt-0.5">
+                      <Star size={11} className="text-accent fill-accent" />
+                      <span className="text-xs font-body text-foreground">{salon.rating}</span>
+                      <span className="text-[10px] text-muted-foreground">• From ₹{salon.startingPrice}</span>
+                    </div>
+                  </div>
+                </div>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+        </Carousel>
+      )}
+    </div>
+  );
+};
+
+export default SalonMap;
@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { encodeQrCode, qrPath, type QrMatrix } from '@/lib/qrcode';
+import type { Salon } from '@/types/salon';
+
+interface SalonQrDialogProps {
+  salon: Salon;
+  url: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Scanners want at least four light modules around the code
+const QUIET_ZONE = 4;
+const PNG_MODULE_PX = 12;
+
+const fileName = (salon: Salon) => `${salon.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}-qr.png`;
+
+function downloadPng(modules: QrMatrix, name: string) {
+  const units = modules.length + QUIET_ZONE * 2;
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = units * PNG_MODULE_PX;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("This browser can't save images");
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = '#000000';
+  context.scale(PNG_MODULE_PX, PNG_MODULE_PX);
+  context.fill(new Path2D(qrPath(modules, QUIET_ZONE)));
+
+  const link = document.createElement('a');
+  link.download = name;
+  link.href = canvas.toDataURL('image/png');
+  link.click();
+}
+
+/** The salon's link as a QR code, for showing at the counter or printing on a flyer. */
+const SalonQrDialog = ({ salon, url, open, onOpenChange }: SalonQrDialogProps) => {
+  const modules = useMemo(() => encodeQrCode(url), [url]);
+  const units = modules.length + QUIET_ZONE * 2;
+
+  const download = () => {
+    try {
+      downloadPng(modules, fileName(salon));
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[90vw] sm:max-w-sm rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-heading">{salon.name}</DialogTitle>
+          <DialogDescription className="font-body text-xs">Scan to open this salon and book.</DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center">
+          {/* Always black on white: scanners struggle with inverted codes in dark mode */}
+          <svg
+            viewBox={`0 0 ${units} ${units}`}
+            className="w-56 h-56 rounded-xl bg-white"
+            shapeRendering="crispEdges"
+            role="img"
+            aria-label={`QR code for ${url}`}
+          >
+            <path d={qrPath(modules, QUIET_ZONE)} fill="#000000" />
+          </svg>
+        </div>
+        <p className="text-center text-[11px] font-body text-muted-foreground break-all">{url}</p>
+        <button
+          onClick={download}
+          className="w-full flex items-center justify-center gap-2 bg-primary text-primary-foreground font-heading font-semibold text-sm py-3 rounded-xl active:scale-[0.98] transition-transform"
+        >
+          <Download size={16} /> Download PNG
+        </button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SalonQrDialog;
@@ -0,0 +1,196 @@
+import { useRef, useState } from 'react';
+import { Command as CommandPrimitive } from 'cmdk';
+import { Clock, LayoutGrid, Mic, Scissors, Search, SlidersHorizontal, Store, TrendingUp, X } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import Highlight from '@/components/Highlight';
+import { useAutocomplete, useLocalityOf } from '@/hooks/use-search';
+import type { RecentSearches } from '@/hooks/use-recent-searches';
+
+interface SearchBarProps {
+  value: string;
+  onChange: (query: string) => void;
+  history: RecentSearches;
+  /** Offered instead of the history until the customer has searched for something. */
+  popularSearches: string[];
+  onOpenFilters: () => void;
+  activeFilterCount: number;
+}
+
+const itemClass =
+  'px-4 py-2.5 gap-2 rounded-none text-sm font-body text-foreground cursor-pointer data-[selected=true]:bg-secondary/60 data-[selected=true]:text-foreground';
+const groupClass =
+  'p-0 [&_[cmdk-group-heading]]:px-4 [&_[cmdk-group-heading]]:pt-3 [&_[cmdk-group-heading]]:pb-1 [&_[cmdk-group-heading]]:text-[10px] [&_[cmdk-group-heading]]:font-heading [&_[cmdk-group-heading]]:font-semibold';
+
+const SearchBar = ({ value, onChange, history, popularSearches, onOpenFilters, activeFilterCount }: SearchBarProps) => {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [focused, setFocused] = useState(false);
+  const query = value.trim();
+  const suggestions = useAutocomplete(query);
+  const localityOf = useLocalityOf();
+
+  const close = () => {
+    inputRef.current?.blur();
+    setFocused(false);
+  };
+
+  const submit = (next: string) => {
+    onChange(next);
+    history.add(next);
+    close();
+  };
+
+  const openSalon = (id: string) => {
+    history.add(query);
+    close();
+    navigate(`/salon/${id}`);
+  };
+
+  const hasSuggestions = suggestions.salons.length + suggestions.services.length + suggestions.categories.length > 0;
+
+  return (
+    <Command shouldFilter={false} loop className="h-auto overflow-visible rounded-none bg-transparent">
+      <div className={`flex items-center gap-2 bg-card border rounded-2xl px-4 py-3 transition-all duration-250 ${
+        focused ? 'border-primary shadow-md' : 'border-border card-shadow'
+      }`}>
+        <Search size={18} className="text-muted-foreground flex-shrink-0" />
+        <CommandPrimitive.Input
+          ref={inputRef}
+          value={value}
+          onValueChange={onChange}
+          placeholder="Search salon, service..."
+          className="flex-1 bg-transparent text-sm font-body text-foreground placeholder:text-muted-foreground outline-none"
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') close();
+          }}
+        />
+        {value && (
+          <button onClick={() => onChange('')} aria-label="Clear search" className="flex-shrink-0">
+            <X size={16} className="text-muted-foreground" />
+          </button>
+        )}
+        <Mic size={18} className="text-muted-foreground flex-shrink-0 cursor-pointer active:text-primary transition-colors" />
+        <button onClick={onOpenFilters} aria-label="Filter and sort" className="relative flex-shrink-0">
+          <SlidersHorizontal size={18} className={activeFilterCount > 0 ? 'text-primary' : 'text-muted-foreground'} />
+          {activeFilterCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-primary text-primary-foreground text-[9px] font-heading font-semibold flex items-center justify-center">
+              {activeFilterCount}
+            </span>
+          )}
+        </button>
+      </div>
+
+      {focused && (
+        <CommandList
+          // Keep focus in the input so picking a suggestion doesn't close the list first
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute left-4 right-4 top-full mt-1 max-h-80 bg-card border border-border rounded-2xl shadow-lg z-30 pb-1 animate-fade-in-up"
+          style={{ animationDuration: '200ms' }}
+        >
+          {!query && history.searches.length > 0 && (
+            <CommandGroup
+              className={groupClass}
+              heading={
+                <div className="flex items-center justify-between">
+                  <span>RECENT SEARCHES</span>
+                  <button onClick={history.clear} className="font-body font-medium text-primary normal-case">
+                    Clear all
+                  </button>
+                </div>
+              }
+            >
+              {history.searches.map((s) => (
+                <CommandItem key={s} value={`recent:${s}`} onSelect={() => submit(s)} className={itemClass}>
+                  <Clock size={14} className="text-muted-foreground" />
+                  <span className="flex-1 truncate">{s}</span>
+                  <button
+                    aria-label={`Remove ${s}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      history.remove(s);
+                    }}
+                    className="p-1 -mr-1 text-muted-foreground"
+                  >
+                    <X size={14} />
+                  </button>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {!query && history.searches.length === 0 && (
+            <CommandGroup className={groupClass} heading="POPULAR SEARCHES">
+              {popularSearches.map((s) => (
+                <CommandItem key={s} value={`popular:${s}`} onSelect={() => submit(s)} className={itemClass}>
+                  <TrendingUp size={14} className="text-muted-foreground" />
+                  {s}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {query && (
+            <>
+              <CommandGroup className={groupClass}>
+                <CommandItem value={`search:${query}`} onSelect={() => submit(query)} className={itemClass}>
+                  <Search size={14} className="text-muted-foreground" />
+                  <span className="truncate">
+                    Search for <span className="font-medium">“{query}”</span>
+                  </span>
+                </CommandItem>
+              </CommandGroup>
+
+              {suggestions.services.length > 0 && (
+                <CommandGroup className={groupClass} heading="SERVICES">
+                  {suggestions.services.map((s) => (
+                    <CommandItem key={s.name} value={`service:${s.name}`} onSelect={() => submit(s.name)} className={itemClass}>
+                      <Scissors size={14} className="text-muted-foreground" />
+                      <span className="flex-1 truncate"><Highlight text={s.name} query={query} /></span>
+                      <span className="text-[10px] text-muted-foreground flex-shrink-0">
+                        {s.salonCount} salon{s.salonCount > 1 ? 's' : ''} • from ₹{s.fromPrice}
+                      </span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+
+              {suggestions.salons.length > 0 && (
+                <CommandGroup className={groupClass} heading="SALONS">
+                  {suggestions.salons.map((salon) => (
+                    <CommandItem key={salon.id} value={`salon:${salon.id}`} onSelect={() => openSalon(salon.id)} className={itemClass}>
+                      <Store size={14} className="text-muted-foreground" />
+                      <span className="flex-1 truncate"><Highlight text={salon.name} query={query} /></span>
+                      <span className="text-[10px] text-muted-foreground flex-shrink-0">
+                        <Highlight text={localityOf(salon)} query={query} />
+                      </span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+
+              {suggestions.categories.length > 0 && (
+                <CommandGroup className={groupClass} heading="CATEGORIES">
+                  {suggestions.categories.map((c) => (
+                    <CommandItem key={c.id} value={`category:${c.id}`} onSelect={() => submit(c.name)} className={itemClass}>
+                      <LayoutGrid size={14} className="text-muted-foreground" />
+                      <Highlight text={c.name} query={query} />
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+
+              {!hasSuggestions && (
+                <p className="px-4 pt-2 pb-2 text-[11px] font-body text-muted-foreground">No quick matches — press Enter to search</p>
+              )}
+            </>
+          )}
+        </CommandList>
+      )}
+    </Command>
+  );
+};
+
+export default SearchBar;
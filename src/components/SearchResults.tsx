@@ -0,0 +1,194 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { MapPin, SearchX, SlidersHorizontal, Star } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import Highlight from '@/components/Highlight';
+import SalonMap from '@/components/SalonMap';
+import { useLocalityOf, useSalonSearch } from '@/hooks/use-search';
+import { useUserLocation } from '@/hooks/use-user-location';
+import type { SalonFilters } from '@/lib/filters';
+import { formatDistance } from '@/lib/geo';
+
+interface SearchResultsProps {
+  query: string;
+  filters: SalonFilters;
+  /** Shown in the empty state when there is nothing closer to suggest. */
+  popularSearches: string[];
+  onSearch: (query: string) => void;
+  onClearFilters: () => void;
+  onOpenResult?: () => void;
+  view?: 'list' | 'map';
+  /** Rendered beside the result count, e.g. a list/map switch. */
+  actions?: ReactNode;
+}
+
+const PAGE_SIZE = 4;
+
+const SearchResults = ({
+  query,
+  filters,
+  popularSearches,
+  onSearch,
+  onClearFilters,
+  onOpenResult,
+  view = 'list',
+  actions,
+}: SearchResultsProps) => {
+  const navigate = useNavigate();
+  const { query: searched, results, matchedCount, suggestions, isLoading } = useSalonSearch(query, filters);
+  const { distanceTo } = useUserLocation();
+  const localityOf = useLocalityOf();
+
+  // Infinite scroll: reveal another page whenever the sentinel under the list comes into view
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const canObserve = typeof IntersectionObserver !== 'undefined';
+  const hasMore = canObserve && visibleCount < results.length;
+
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [searched, filters]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) setVisibleCount((count) => count + PAGE_SIZE);
+      },
+      { rootMargin: '200px' },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, visibleCount]);
+
+  const openSalon = (id: string) => {
+    onOpenResult?.();
+    navigate(`/salon/${id}`);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="px-4 space-y-3">
+        {[0, 1, 2].map((i) => <div key={i} className="h-24 skeleton-shimmer rounded-2xl" />)}
+      </div>
+    );
+  }
+
+  // The query found salons, but the filters ruled them all out
+  if (results.length === 0 && matchedCount > 0) {
+    return (
+      <div className="px-8 pt-10 text-center animate-fade-in-up">
+        <div className="w-14 h-14 rounded-full bg-secondary flex items-center justify-center mx-auto mb-3">
+          <SlidersHorizontal size={22} className="text-muted-foreground" />
+        </div>
+        <h3 className="font-heading font-semibold text-base text-foreground">No salons match these filters</h3>
+        <p className="text-xs font-body text-muted-foreground mt-1">
+          {matchedCount} salon{matchedCount > 1 ? 's' : ''} {searched ? `match “${searched}”` : 'nearby'} without them
+        </p>
+        <button
+          onClick={onClearFilters}
+          className="mt-4 text-xs font-heading font-medium text-primary bg-primary/10 px-4 py-2 rounded-full active:scale-95 transition-transform"
+        >
+          Clear filters
+        </button>
+      </div>
+    );
+  }
+
+  // Only filters were applied, and there's nothing to filter in this city
+  if (results.length === 0 && !searched) {
+    return (
+      <div className="px-8 pt-10 text-center animate-fade-in-up">
+        <div className="w-14 h-14 rounded-full bg-secondary flex items-center justify-center mx-auto mb-3">
+          <MapPin size={24} className="text-muted-foreground" />
+        </div>
+        <h3 className="font-heading font-semibold text-base text-foreground">No salons in this city yet</h3>
+        <p className="text-xs font-body text-muted-foreground mt-1">We're signing up salons here. Meanwhile, pick another city.</p>
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    const options = suggestions.length > 0 ? suggestions : popularSearches;
+    return (
+      <div className="px-8 pt-10 text-center animate-fade-in-up">
+        <div className="w-14 h-14 rounded-full bg-secondary flex items-center justify-center mx-auto mb-3">
+          <SearchX size={24} className="text-muted-foreground" />
+        </div>
+        <h3 className="font-heading font-semibold text-base text-foreground">No results for “{searched}”</h3>
+        <p className="text-xs font-body text-muted-foreground mt-1">
+          {suggestions.length > 0 ? 'Did you mean one of these?' : 'Check the spelling or try one of these'}
+        </p>
+        <div className="flex flex-wrap justify-center gap-2 mt-4">
+          {options.map((option) => (
+            <button
+              key={option}
+              onClick={() => onSearch(option)}
+              className="text-xs font-body font-medium text-primary bg-primary/10 px-3 py-1.5 rounded-full active:scale-95 transition-transform"
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 pb-4">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs font-body text-muted-foreground">
+          {results.length} salon{results.length > 1 ? 's' : ''}
+          {searched && <> for “{searched}”</>}
+        </p>
+        {actions}
+      </div>
+      {view === 'map' ? (
+        <SalonMap salons={results.map((r) => r.salon)} onOpen={openSalon} />
+      ) : (
+        <div className="space-y-3">
+          {(canObserve ? results.slice(0, visibleCount) : results).map(({ salon, services }) => (
+            <div
+              key={salon.id}
+              onClick={() => openSalon(salon.id)}
+              className="flex gap-3 bg-card rounded-2xl p-3 card-shadow cursor-pointer active:scale-[0.98] transition-transform"
+            >
+              <img src={salon.image} alt={salon.name} className="w-16 h-16 rounded-xl object-cover flex-shrink-0" loading="lazy" />
+              <div className="flex-1 min-w-0">
+                <h4 className="font-heading font-semibold text-sm text-foreground truncate">
+                  <Highlight text={salon.name} query={searched} />
+                </h4>
+                <p className="text-[11px] font-body text-muted-foreground">
+                  <Highlight text={localityOf(salon)} query={searched} /> • {formatDistance(distanceTo(salon.coordinates))}
+                </p>
+                <div className="flex items-center gap-1 mt-0.5">
+                  <Star size={11} className="text-accent fill-accent" />
+                  <span className="text-xs font-body text-foreground">{salon.rating}</span>
+                  <span className="text-[10px] text-muted-foreground">({salon.reviewCount})</span>
+                </div>
+                {services.length === 0 && (
+                  <p className="text-[11px] font-body text-muted-foreground mt-1">From ₹{salon.startingPrice}</p>
+                )}
+                {services.length > 0 && (
+                  <div className="mt-1.5 space-y-0.5">
+                    {services.map((service) => (
+                      <div key={service.id} className="flex items-center justify-between text-[11px] font-body">
+                        <span className="text-foreground truncate">
+                          <Highlight text={service.name} query={searched} />
+                        </span>
+                        <span className="font-heading font-semibold text-foreground flex-shrink-0 ml-2">₹{service.price}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+          {hasMore && <div ref={sentinelRef} className="h-24 skeleton-shimmer rounded-2xl" />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchResults;
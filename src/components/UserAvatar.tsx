@@ -0,0 +1,30 @@
+import { User as UserIcon } from 'lucide-react';
+import type { User } from '@/types/salon';
+
+interface UserAvatarProps {
+  user: User | null;
+  className?: string;
+}
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+
+/** Photo when the account has one, else initials, else a generic icon for guests. */
+const UserAvatar = ({ user, className = '' }: UserAvatarProps) => (
+  <div className={`rounded-full overflow-hidden flex items-center justify-center font-heading font-semibold ${className}`}>
+    {user?.avatar ? (
+      <img src={user.avatar} alt={user.name} className="w-full h-full object-cover" />
+    ) : user?.name ? (
+      <span>{initials(user.name)}</span>
+    ) : (
+      <UserIcon size={18} />
+    )}
+  </div>
+);
+
+export default UserAvatar;
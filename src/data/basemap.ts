@@ -0,0 +1,65 @@
+import type { MapFeature, MapFeatureCollection, MapFeatureKind, Position } from '@/lib/map';
+
+// A hand-traced outline of each city's landmarks: enough to find your bearings without network tiles.
+// Positions are [longitude, latitude], as in GeoJSON.
+
+const line = (kind: MapFeatureKind, name: string, coordinates: Position[]): MapFeature => ({
+  type: 'Feature',
+  properties: { kind, name },
+  geometry: { type: 'LineString', coordinates },
+});
+
+const area = (kind: MapFeatureKind, name: string, ring: Position[]): MapFeature => ({
+  type: 'Feature',
+  properties: { kind, name },
+  geometry: { type: 'Polygon', coordinates: [[...ring, ring[0]]] },
+});
+
+const bangalore: MapFeature[] = [
+  area('water', 'Ulsoor Lake', [[77.616, 12.985], [77.621, 12.987], [77.625, 12.983], [77.622, 12.979], [77.617, 12.98]]),
+  area('water', 'Bellandur Lake', [[77.652, 12.941], [77.668, 12.945], [77.683, 12.937], [77.676, 12.927], [77.659, 12.929]]),
+  area('park', 'Cubbon Park', [[77.589, 12.98], [77.598, 12.982], [77.6, 12.974], [77.594, 12.968], [77.588, 12.972]]),
+  area('park', 'Lalbagh', [[77.58, 12.955], [77.588, 12.956], [77.591, 12.948], [77.586, 12.943], [77.579, 12.946]]),
+  line('highway', 'Outer Ring Road', [
+    [77.597, 13.035], [77.64, 13.02], [77.69, 12.99], [77.7, 12.956], [77.675, 12.925], [77.634, 12.917],
+    [77.585, 12.907], [77.54, 12.927], [77.51, 12.96], [77.51, 13.0], [77.54, 13.03], [77.597, 13.035],
+  ]),
+  line('highway', 'Hosur Road', [[77.6, 12.958], [77.614, 12.934], [77.624, 12.917], [77.64, 12.89], [77.665, 12.845]]),
+  line('road', 'Old Airport Road', [[77.62, 12.96], [77.65, 12.958], [77.7, 12.957], [77.75, 12.97]]),
+  line('road', 'MG Road', [[77.6, 12.973], [77.617, 12.976]]),
+  line('road', 'Bannerghatta Road', [[77.6, 12.935], [77.6, 12.9], [77.595, 12.86]]),
+  line('road', '100 Feet Road', [[77.64, 12.983], [77.644, 12.958]]),
+  line('road', '80 Feet Road', [[77.618, 12.944], [77.628, 12.927]]),
+  line('road', 'Whitefield Main Road', [[77.7, 12.99], [77.75, 12.97]]),
+];
+
+const mumbai: MapFeature[] = [
+  area('water', 'Arabian Sea', [
+    [72.7, 18.85], [72.82, 18.9], [72.815, 18.93], [72.82, 18.96], [72.805, 18.97], [72.81, 19.0], [72.815, 19.03],
+    [72.818, 19.055], [72.82, 19.09], [72.81, 19.13], [72.8, 19.18], [72.78, 19.25], [72.7, 19.25],
+  ]),
+  area('water', 'Powai Lake', [[72.898, 19.131], [72.909, 19.133], [72.914, 19.125], [72.906, 19.119], [72.897, 19.123]]),
+  area('park', 'Sanjay Gandhi National Park', [[72.87, 19.3], [72.93, 19.3], [72.93, 19.2], [72.9, 19.17], [72.86, 19.2]]),
+  line('highway', 'Western Express Highway', [[72.855, 19.045], [72.855, 19.1], [72.86, 19.17], [72.87, 19.25]]),
+  line('highway', 'Eastern Express Highway', [[72.87, 19.02], [72.9, 19.07], [72.93, 19.12], [72.96, 19.18]]),
+  line('highway', 'Bandra-Worli Sea Link', [[72.823, 19.05], [72.815, 19.03], [72.815, 19.01]]),
+  line('road', 'SV Road', [[72.84, 19.05], [72.845, 19.1], [72.846, 19.14], [72.848, 19.2]]),
+  line('road', 'Jogeshwari-Vikhroli Link Road', [[72.86, 19.125], [72.9, 19.125], [72.93, 19.13]]),
+  line('road', 'Senapati Bapat Marg', [[72.83, 18.99], [72.84, 19.02]]),
+];
+
+const hyderabad: MapFeature[] = [
+  area('water', 'Hussain Sagar', [[78.466, 17.43], [78.478, 17.432], [78.483, 17.423], [78.476, 17.414], [78.467, 17.418]]),
+  area('park', 'KBR National Park', [[78.417, 17.426], [78.427, 17.427], [78.429, 17.418], [78.42, 17.415]]),
+  line('highway', 'Outer Ring Road', [
+    [78.33, 17.44], [78.36, 17.5], [78.45, 17.53], [78.56, 17.5], [78.61, 17.4], [78.55, 17.3], [78.43, 17.26], [78.33, 17.33], [78.33, 17.44],
+  ]),
+  line('road', 'Old Mumbai Highway', [[78.35, 17.44], [78.4, 17.435], [78.45, 17.42]]),
+  line('road', 'Road No. 1, Banjara Hills', [[78.45, 17.41], [78.43, 17.42]]),
+  line('road', 'Road No. 36, Jubilee Hills', [[78.41, 17.43], [78.39, 17.435]]),
+];
+
+export const basemap: MapFeatureCollection = {
+  type: 'FeatureCollection',
+  features: [...bangalore, ...mumbai, ...hyderabad],
+};
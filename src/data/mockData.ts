@@ -1,7 +1,14 @@
 import salon1 from '@/assets/salon-1.jpg';
 import salon2 from '@/assets/salon-2.jpg';
 import salon3 from '@/assets/salon-3.jpg';
-import type { Salon, Service, Artist, Review, Booking, Category } from '@/types/salon';
+import type { Salon, Service, Artist, Review, Booking, Category, City, Locality, Promotion, TimeInterval, Weekday, User } from '@/types/salon';
+
+const open = (opensAt: string, closesAt: string): TimeInterval => ({ opensAt, closesAt });
+
+/** Same hours every day; spread and override individual days for exceptions to the pattern. */
+const daily = (...intervals: TimeInterval[]): Record<Weekday, TimeInterval[]> => ({
+  sun: intervals, mon: intervals, tue: intervals, wed: intervals, thu: intervals, fri: intervals, sat: intervals,
+});
 
 export const categories: Category[] = [
   { id: '1', name: 'Haircut', image: 'https://images.unsplash.com/photo-1560066984-138dadb4c035?w=120&h=120&fit=crop' },
@@ -14,6 +21,30 @@ export const categories: Category[] = [
   { id: '8', name: 'Spa', image: 'https://images.unsplash.com/photo-1540555700478-4be289fbec6d?w=120&h=120&fit=crop' },
 ];
 
+export const cities: City[] = [
+  { id: 'bangalore', name: 'Bangalore', coordinates: { lat: 12.9716, lng: 77.5946 } },
+  { id: 'mumbai', name: 'Mumbai', coordinates: { lat: 19.076, lng: 72.8777 } },
+  { id: 'hyderabad', name: 'Hyderabad', coordinates: { lat: 17.385, lng: 78.4867 } },
+];
+
+export const localities: Locality[] = [
+  { id: 'koramangala', name: 'Koramangala', cityId: 'bangalore', coordinates: { lat: 12.9352, lng: 77.6245 } },
+  { id: 'indiranagar', name: 'Indiranagar', cityId: 'bangalore', coordinates: { lat: 12.9719, lng: 77.6412 } },
+  { id: 'hsr-layout', name: 'HSR Layout', cityId: 'bangalore', coordinates: { lat: 12.9116, lng: 77.6474 } },
+  { id: 'btm-layout', name: 'BTM Layout', cityId: 'bangalore', coordinates: { lat: 12.9166, lng: 77.6101 } },
+  { id: 'jp-nagar', name: 'JP Nagar', cityId: 'bangalore', coordinates: { lat: 12.9063, lng: 77.5857 } },
+  { id: 'jayanagar', name: 'Jayanagar', cityId: 'bangalore', coordinates: { lat: 12.9299, lng: 77.5826 } },
+  { id: 'mg-road', name: 'MG Road', cityId: 'bangalore', coordinates: { lat: 12.9756, lng: 77.605 } },
+  { id: 'whitefield', name: 'Whitefield', cityId: 'bangalore', coordinates: { lat: 12.9698, lng: 77.75 } },
+  { id: 'bandra-west', name: 'Bandra West', cityId: 'mumbai', coordinates: { lat: 19.0596, lng: 72.8295 } },
+  { id: 'andheri-west', name: 'Andheri West', cityId: 'mumbai', coordinates: { lat: 19.1364, lng: 72.8296 } },
+  { id: 'powai', name: 'Powai', cityId: 'mumbai', coordinates: { lat: 19.1176, lng: 72.906 } },
+  { id: 'lower-parel', name: 'Lower Parel', cityId: 'mumbai', coordinates: { lat: 18.9986, lng: 72.8305 } },
+  { id: 'banjara-hills', name: 'Banjara Hills', cityId: 'hyderabad', coordinates: { lat: 17.4156, lng: 78.4347 } },
+  { id: 'jubilee-hills', name: 'Jubilee Hills', cityId: 'hyderabad', coordinates: { lat: 17.4326, lng: 78.4071 } },
+  { id: 'gachibowli', name: 'Gachibowli', cityId: 'hyderabad', coordinates: { lat: 17.4401, lng: 78.3489 } },
+];
+
 export const featuredSalons: Salon[] = [
   {
     id: '1',
@@ -22,11 +53,18 @@ export const featuredSalons: Salon[] = [
     rating: 4.8,
     reviewCount: 324,
     address: 'Koramangala, Bangalore',
-    distance: '1.2 km',
+    cityId: 'bangalore',
+    localityId: 'koramangala',
+    coordinates: { lat: 12.9345, lng: 77.6265 },
     startingPrice: 499,
-    isOpen: true,
+    hours: {
+      weekly: { ...daily(open('09:00', '21:00')), sun: [open('10:00', '18:00')] },
+      exceptions: [{ date: '2026-11-08', intervals: [], reason: 'Diwali' }],
+    },
+    gstin: '29AAKFL4821M1Z3',
+    phone: '+918041234567',
+    clientele: 'unisex',
     tags: ['Verified', 'AC', 'Trending'],
-    offer: 'Flat 30% Off',
     bookingsThisWeek: 132,
     tagline: 'Where style meets luxury',
   },
@@ -37,11 +75,18 @@ export const featuredSalons: Salon[] = [
     rating: 4.6,
     reviewCount: 218,
     address: 'Indiranagar, Bangalore',
-    distance: '2.5 km',
+    cityId: 'bangalore',
+    localityId: 'indiranagar',
+    coordinates: { lat: 12.9716, lng: 77.6408 },
     startingPrice: 399,
-    isOpen: true,
+    hours: {
+      weekly: { ...daily(open('10:00', '20:00')), mon: [] },
+      exceptions: [{ date: '2026-11-07', intervals: [open('10:00', '14:00')], reason: 'Diwali eve' }],
+    },
+    gstin: '29AAGCR7316B1ZQ',
+    phone: '+918042345678',
+    clientele: 'unisex',
     tags: ['Verified', 'AC'],
-    offer: '20% Off First Visit',
     bookingsThisWeek: 98,
     tagline: 'Royalty in every strand',
   },
@@ -52,14 +97,37 @@ export const featuredSalons: Salon[] = [
     rating: 4.9,
     reviewCount: 456,
     address: 'HSR Layout, Bangalore',
-    distance: '0.8 km',
+    cityId: 'bangalore',
+    localityId: 'hsr-layout',
+    coordinates: { lat: 12.9121, lng: 77.6446 },
     startingPrice: 599,
-    isOpen: true,
+    hours: { weekly: daily(open('10:00', '14:00'), open('15:00', '21:00')) },
+    gstin: '29ABDFU9054K1Z8',
+    phone: '+918043456789',
+    clientele: 'unisex',
     tags: ['Verified', 'AC', 'Premium'],
-    offer: 'Buy 2 Get 1 Free',
     bookingsThisWeek: 187,
     tagline: 'Glow like never before',
   },
+  {
+    id: '7',
+    name: 'Mirror Mirror',
+    image: 'https://images.unsplash.com/photo-1560066984-138dadb4c035?w=400&h=300&fit=crop',
+    rating: 4.7,
+    reviewCount: 281,
+    address: 'Bandra West, Mumbai',
+    cityId: 'mumbai',
+    localityId: 'bandra-west',
+    coordinates: { lat: 19.0612, lng: 72.8337 },
+    startingPrice: 599,
+    hours: { weekly: daily(open('10:00', '21:00')) },
+    gstin: '27AAFCM5512Q1ZT',
+    phone: '+912226451234',
+    clientele: 'unisex',
+    tags: ['Verified', 'AC', 'Trending'],
+    bookingsThisWeek: 121,
+    tagline: 'Sea-facing styling in Bandra',
+  },
 ];
 
 export const nearbySalons: Salon[] = [
@@ -70,9 +138,14 @@ export const nearbySalons: Salon[] = [
     rating: 4.5,
     reviewCount: 156,
     address: 'JP Nagar',
-    distance: '0.5 km',
+    cityId: 'bangalore',
+    localityId: 'jp-nagar',
+    coordinates: { lat: 12.9077, lng: 77.5851 },
     startingPrice: 299,
-    isOpen: true,
+    hours: { weekly: { ...daily(open('09:30', '13:30'), open('14:30', '19:30')), sun: [] } },
+    gstin: '29AAJCS2239N1Z1',
+    phone: '+918044567890',
+    clientele: 'women',
     tags: ['Verified'],
   },
   {
@@ -82,9 +155,14 @@ export const nearbySalons: Salon[] = [
     rating: 4.3,
     reviewCount: 89,
     address: 'BTM Layout',
-    distance: '1.8 km',
+    cityId: 'bangalore',
+    localityId: 'btm-layout',
+    coordinates: { lat: 12.9162, lng: 77.6109 },
     startingPrice: 249,
-    isOpen: false,
+    hours: { weekly: daily(open('08:00', '20:00')) },
+    gstin: '29AAHFM6612P1ZK',
+    phone: '+918045678901',
+    clientele: 'men',
     tags: ['AC'],
   },
   {
@@ -94,43 +172,286 @@ export const nearbySalons: Salon[] = [
     rating: 4.7,
     reviewCount: 203,
     address: 'Whitefield',
-    distance: '3.2 km',
+    cityId: 'bangalore',
+    localityId: 'whitefield',
+    coordinates: { lat: 12.9692, lng: 77.7499 },
     startingPrice: 449,
-    isOpen: true,
+    hours: { weekly: { ...daily(open('11:00', '21:00')), mon: [] } },
+    gstin: '29ABCFG3390R1Z6',
+    phone: '+918046789012',
+    clientele: 'unisex',
     tags: ['Verified', 'Premium'],
   },
+  {
+    id: '8',
+    name: 'Fade Factory',
+    image: 'https://images.unsplash.com/photo-1503951914875-452162b0f3f1?w=400&h=300&fit=crop',
+    rating: 4.4,
+    reviewCount: 97,
+    address: 'Andheri West, Mumbai',
+    cityId: 'mumbai',
+    localityId: 'andheri-west',
+    coordinates: { lat: 19.1351, lng: 72.8265 },
+    startingPrice: 299,
+    hours: { weekly: { ...daily(open('09:00', '21:00')), tue: [] } },
+    gstin: '27AAKFF7734H1ZD',
+    phone: '+912226789345',
+    clientele: 'men',
+    tags: ['AC'],
+  },
 ];
 
 export const services: Service[] = [
-  { id: '1', name: 'Haircut & Styling', duration: '45 min', price: 499, originalPrice: 699, category: 'men' },
-  { id: '2', name: 'Beard Trim', duration: '20 min', price: 199, category: 'men' },
-  { id: '3', name: 'Hair Color', duration: '90 min', price: 1499, originalPrice: 1999, category: 'men' },
-  { id: '4', name: 'Facial', duration: '60 min', price: 899, originalPrice: 1199, category: 'men' },
-  { id: '5', name: 'Hair Spa', duration: '45 min', price: 799, category: 'women' },
-  { id: '6', name: 'Bridal Makeup', duration: '120 min', price: 4999, originalPrice: 6999, category: 'women' },
-  { id: '7', name: 'Manicure & Pedicure', duration: '75 min', price: 999, category: 'women' },
-  { id: '8', name: 'Threading', duration: '15 min', price: 99, category: 'women' },
-  { id: '9', name: 'Groom Package', duration: '180 min', price: 2999, originalPrice: 4499, category: 'packages' },
-  { id: '10', name: 'Bridal Package', duration: '240 min', price: 8999, originalPrice: 12999, category: 'packages' },
+  // Luxe Hair Studio
+  { id: '1-1', salonId: '1', name: 'Haircut & Styling', duration: '45 min', price: 499, originalPrice: 699, category: 'men', categoryIds: ['1'] },
+  { id: '1-2', salonId: '1', name: 'Beard Trim', duration: '20 min', price: 199, category: 'men', categoryIds: ['1'] },
+  { id: '1-3', salonId: '1', name: 'Hair Color', duration: '90 min', price: 1499, originalPrice: 1999, category: 'men', categoryIds: ['3'] },
+  { id: '1-4', salonId: '1', name: 'Facial', duration: '60 min', price: 899, originalPrice: 1199, category: 'men', categoryIds: ['2'] },
+  { id: '1-5', salonId: '1', name: 'Hair Spa', duration: '45 min', price: 799, category: 'women', categoryIds: ['8'] },
+  { id: '1-6', salonId: '1', name: 'Bridal Makeup', duration: '120 min', price: 4999, originalPrice: 6999, category: 'women', categoryIds: ['5'] },
+  { id: '1-7', salonId: '1', name: 'Manicure & Pedicure', duration: '75 min', price: 999, category: 'women', categoryIds: ['4', '7'] },
+  { id: '1-8', salonId: '1', name: 'Threading', duration: '15 min', price: 99, category: 'women', categoryIds: ['2'] },
+  { id: '1-9', salonId: '1', name: 'Groom Package', duration: '180 min', price: 2999, originalPrice: 4499, category: 'packages', categoryIds: ['1', '2'] },
+  { id: '1-10', salonId: '1', name: 'Bridal Package', duration: '240 min', price: 8999, originalPrice: 12999, category: 'packages', categoryIds: ['5'] },
+  // The Royal Salon
+  { id: '2-1', salonId: '2', name: 'Royal Haircut', duration: '40 min', price: 399, originalPrice: 549, category: 'men', categoryIds: ['1'] },
+  { id: '2-2', salonId: '2', name: 'Beard Trim', duration: '20 min', price: 149, category: 'men', categoryIds: ['1'] },
+  { id: '2-3', salonId: '2', name: 'Hot Towel Shave', duration: '30 min', price: 299, category: 'men', categoryIds: ['1'] },
+  { id: '2-4', salonId: '2', name: 'Keratin Treatment', duration: '150 min', price: 3999, originalPrice: 4999, category: 'women', categoryIds: ['8'] },
+  { id: '2-5', salonId: '2', name: 'Blow Dry', duration: '30 min', price: 499, category: 'women', categoryIds: ['1'] },
+  { id: '2-6', salonId: '2', name: 'Head Massage', duration: '30 min', price: 349, category: 'women', categoryIds: ['6'] },
+  { id: '2-7', salonId: '2', name: 'Royal Grooming Package', duration: '120 min', price: 1999, originalPrice: 2699, category: 'packages', categoryIds: ['1', '2'] },
+  // Urban Glow
+  { id: '3-1', salonId: '3', name: 'Signature Haircut', duration: '45 min', price: 699, category: 'men', categoryIds: ['1'] },
+  { id: '3-2', salonId: '3', name: 'Charcoal Facial', duration: '60 min', price: 1199, originalPrice: 1499, category: 'men', categoryIds: ['2'] },
+  { id: '3-3', salonId: '3', name: 'Hydra Facial', duration: '75 min', price: 2499, originalPrice: 2999, category: 'women', categoryIds: ['2'] },
+  { id: '3-4', salonId: '3', name: 'Balayage', duration: '180 min', price: 5999, originalPrice: 7499, category: 'women', categoryIds: ['3'] },
+  { id: '3-5', salonId: '3', name: 'Gel Manicure', duration: '45 min', price: 899, category: 'women', categoryIds: ['4'] },
+  { id: '3-6', salonId: '3', name: 'Aromatherapy Massage', duration: '60 min', price: 1799, category: 'women', categoryIds: ['6', '8'] },
+  { id: '3-7', salonId: '3', name: 'Glow Spa Package', duration: '150 min', price: 3999, originalPrice: 5499, category: 'packages', categoryIds: ['2', '8'] },
+  // Bliss Beauty Lounge
+  { id: '4-1', salonId: '4', name: 'Threading', duration: '15 min', price: 79, category: 'women', categoryIds: ['2'] },
+  { id: '4-2', salonId: '4', name: 'Waxing - Full Arms', duration: '30 min', price: 349, category: 'women', categoryIds: ['2'] },
+  { id: '4-3', salonId: '4', name: 'Fruit Facial', duration: '45 min', price: 599, originalPrice: 799, category: 'women', categoryIds: ['2'] },
+  { id: '4-4', salonId: '4', name: 'Pedicure', duration: '45 min', price: 499, category: 'women', categoryIds: ['7'] },
+  { id: '4-5', salonId: '4', name: 'Party Makeup', duration: '60 min', price: 1999, category: 'women', categoryIds: [] },
+  { id: '4-6', salonId: '4', name: 'Pre-Bridal Package', duration: '210 min', price: 6999, originalPrice: 8999, category: 'packages', categoryIds: ['2', '5'] },
+  // Classy Cuts
+  { id: '5-1', salonId: '5', name: 'Classic Haircut', duration: '30 min', price: 249, category: 'men', categoryIds: ['1'] },
+  { id: '5-2', salonId: '5', name: 'Beard Trim', duration: '15 min', price: 99, category: 'men', categoryIds: ['1'] },
+  { id: '5-3', salonId: '5', name: 'Kids Haircut', duration: '25 min', price: 199, category: 'men', categoryIds: ['1'] },
+  { id: '5-4', salonId: '5', name: 'Hair Color', duration: '60 min', price: 799, category: 'men', categoryIds: ['3'] },
+  { id: '5-5', salonId: '5', name: 'Cut & Shave Combo', duration: '45 min', price: 329, originalPrice: 399, category: 'packages', categoryIds: ['1'] },
+  // Shine Studio
+  { id: '6-1', salonId: '6', name: 'Haircut & Styling', duration: '45 min', price: 449, category: 'men', categoryIds: ['1'] },
+  { id: '6-2', salonId: '6', name: 'Beard Sculpting', duration: '30 min', price: 299, category: 'men', categoryIds: ['1'] },
+  { id: '6-3', salonId: '6', name: 'Global Hair Color', duration: '120 min', price: 2999, originalPrice: 3599, category: 'women', categoryIds: ['3'] },
+  { id: '6-4', salonId: '6', name: 'Hair Spa', duration: '60 min', price: 999, category: 'women', categoryIds: ['8'] },
+  { id: '6-5', salonId: '6', name: 'Deep Tissue Massage', duration: '90 min', price: 2199, category: 'women', categoryIds: ['6'] },
+  { id: '6-6', salonId: '6', name: 'Bridal Package', duration: '240 min', price: 9999, originalPrice: 13999, category: 'packages', categoryIds: ['5'] },
+  // Mirror Mirror
+  { id: '7-1', salonId: '7', name: 'Haircut & Styling', duration: '45 min', price: 699, category: 'men', categoryIds: ['1'] },
+  { id: '7-2', salonId: '7', name: 'Blow Dry', duration: '30 min', price: 599, category: 'women', categoryIds: ['1'] },
+  { id: '7-3', salonId: '7', name: 'Hair Color', duration: '90 min', price: 2499, originalPrice: 2999, category: 'women', categoryIds: ['3'] },
+  { id: '7-4', salonId: '7', name: 'Gel Manicure', duration: '45 min', price: 999, category: 'women', categoryIds: ['4'] },
+  { id: '7-5', salonId: '7', name: 'Bridal Makeup', duration: '120 min', price: 6999, originalPrice: 8499, category: 'women', categoryIds: ['5'] },
+  // Fade Factory
+  { id: '8-1', salonId: '8', name: 'Skin Fade', duration: '40 min', price: 349, category: 'men', categoryIds: ['1'] },
+  { id: '8-2', salonId: '8', name: 'Beard Trim', duration: '20 min', price: 149, category: 'men', categoryIds: ['1'] },
+  { id: '8-3', salonId: '8', name: 'Hot Towel Shave', duration: '30 min', price: 299, category: 'men', categoryIds: ['1'] },
+  { id: '8-4', salonId: '8', name: 'De-Tan Facial', duration: '45 min', price: 799, category: 'men', categoryIds: ['2'] },
 ];
 
 export const artists: Artist[] = [
-  { id: '1', name: 'Priya S.', avatar: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?w=100&h=100&fit=crop', specialty: 'Hair Stylist' },
-  { id: '2', name: 'Rahul K.', avatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=100&h=100&fit=crop', specialty: 'Colorist' },
-  { id: '3', name: 'Anita M.', avatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=100&h=100&fit=crop', specialty: 'Makeup Artist' },
-  { id: '4', name: 'Vikram R.', avatar: 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=100&h=100&fit=crop', specialty: 'Barber' },
+  { id: '1', salonId: '1', name: 'Priya S.', avatar: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?w=100&h=100&fit=crop', specialty: 'Hair Stylist', serviceIds: ['1-1', '1-5'], schedule: { days: [1, 2, 3, 4, 5, 6], start: '09:00', end: '18:00' } },
+  { id: '2', salonId: '1', name: 'Rahul K.', avatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=100&h=100&fit=crop', specialty: 'Colorist', serviceIds: ['1-3', '1-5'], schedule: { days: [2, 3, 4, 5, 6, 0], start: '12:00', end: '21:00' } },
+  { id: '3', salonId: '1', name: 'Anita M.', avatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=100&h=100&fit=crop', specialty: 'Makeup Artist', serviceIds: ['1-4', '1-6', '1-7', '1-8', '1-10'], schedule: { days: [1, 3, 5, 6, 0], start: '09:00', end: '21:00' } },
+  { id: '4', salonId: '1', name: 'Vikram R.', avatar: 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=100&h=100&fit=crop', specialty: 'Barber', serviceIds: ['1-1', '1-2', '1-4', '1-9'], schedule: { days: [1, 2, 3, 4, 5, 6, 0], start: '09:00', end: '21:00' } },
+  { id: '5', salonId: '2', name: 'Arjun D.', avatar: 'https://images.unsplash.com/photo-1500648767791-00dcc994a43e?w=100&h=100&fit=crop', specialty: 'Master Barber', serviceIds: ['2-1', '2-2', '2-3', '2-6', '2-7'], schedule: { days: [1, 2, 3, 4, 5, 6], start: '10:00', end: '20:00' } },
+  { id: '6', salonId: '2', name: 'Neha G.', avatar: 'https://images.unsplash.com/photo-1544005313-94ddf0286df2?w=100&h=100&fit=crop', specialty: 'Hair Stylist', serviceIds: ['2-1', '2-4', '2-5', '2-6'], schedule: { days: [2, 3, 4, 5, 6, 0], start: '10:00', end: '19:00' } },
+  { id: '7', salonId: '3', name: 'Ishita B.', avatar: 'https://images.unsplash.com/photo-1534528741775-53994a69daeb?w=100&h=100&fit=crop', specialty: 'Skin Therapist', serviceIds: ['3-2', '3-3', '3-5', '3-7'], schedule: { days: [1, 2, 3, 4, 5, 6], start: '10:00', end: '19:00' } },
+  { id: '8', salonId: '3', name: 'Karan J.', avatar: 'https://images.unsplash.com/photo-1506794778202-cad84cf45f1d?w=100&h=100&fit=crop', specialty: 'Colorist', serviceIds: ['3-1', '3-4'], schedule: { days: [3, 4, 5, 6, 0], start: '12:00', end: '21:00' } },
+  { id: '9', salonId: '3', name: 'Lakshmi N.', avatar: 'https://images.unsplash.com/photo-1517841905240-472988babdf9?w=100&h=100&fit=crop', specialty: 'Spa Therapist', serviceIds: ['3-6', '3-7'], schedule: { days: [1, 2, 4, 5, 6, 0], start: '10:00', end: '18:00' } },
+  { id: '10', salonId: '4', name: 'Divya R.', avatar: 'https://images.unsplash.com/photo-1531123897727-8f129e1688ce?w=100&h=100&fit=crop', specialty: 'Beautician', serviceIds: ['4-1', '4-2', '4-3', '4-4', '4-6'], schedule: { days: [1, 2, 3, 4, 5, 6], start: '09:30', end: '19:30' } },
+  { id: '11', salonId: '4', name: 'Pooja T.', avatar: 'https://images.unsplash.com/photo-1488426862026-3ee34a7d66df?w=100&h=100&fit=crop', specialty: 'Makeup Artist', serviceIds: ['4-5', '4-6'], schedule: { days: [3, 4, 5, 6, 0], start: '11:00', end: '19:30' } },
+  { id: '12', salonId: '5', name: 'Salim A.', avatar: 'https://images.unsplash.com/photo-1492562080023-ab3db95bfbce?w=100&h=100&fit=crop', specialty: 'Barber', serviceIds: ['5-1', '5-2', '5-3', '5-4', '5-5'], schedule: { days: [1, 2, 3, 4, 5, 6, 0], start: '08:00', end: '16:00' } },
+  { id: '13', salonId: '5', name: 'Manoj P.', avatar: 'https://images.unsplash.com/photo-1463453091185-61582044d556?w=100&h=100&fit=crop', specialty: 'Barber', serviceIds: ['5-1', '5-2', '5-3', '5-4', '5-5'], schedule: { days: [1, 2, 3, 4, 5, 6, 0], start: '12:00', end: '20:00' } },
+  { id: '14', salonId: '6', name: 'Sara F.', avatar: 'https://images.unsplash.com/photo-1487412720507-e7ab37603c6f?w=100&h=100&fit=crop', specialty: 'Hair Stylist', serviceIds: ['6-1', '6-2', '6-3', '6-4', '6-6'], schedule: { days: [2, 3, 4, 5, 6, 0], start: '11:00', end: '21:00' } },
+  { id: '15', salonId: '6', name: 'Dev M.', avatar: 'https://images.unsplash.com/photo-1519085360753-af0119f7cbe7?w=100&h=100&fit=crop', specialty: 'Massage Therapist', serviceIds: ['6-4', '6-5'], schedule: { days: [1, 2, 3, 5, 6, 0], start: '11:00', end: '20:00' } },
+  { id: '16', salonId: '7', name: 'Zoya K.', avatar: 'https://images.unsplash.com/photo-1534528741775-53994a69daeb?w=100&h=100&fit=crop', specialty: 'Hair Stylist', serviceIds: ['7-1', '7-2', '7-3'], schedule: { days: [1, 2, 3, 4, 5, 6, 0], start: '10:00', end: '19:00' } },
+  { id: '17', salonId: '7', name: 'Farah S.', avatar: 'https://images.unsplash.com/photo-1544005313-94ddf0286df2?w=100&h=100&fit=crop', specialty: 'Makeup Artist', serviceIds: ['7-4', '7-5'], schedule: { days: [3, 4, 5, 6, 0], start: '12:00', end: '21:00' } },
+  { id: '18', salonId: '8', name: 'Imran A.', avatar: 'https://images.unsplash.com/photo-1506794778202-cad84cf45f1d?w=100&h=100&fit=crop', specialty: 'Barber', serviceIds: ['8-1', '8-2', '8-3', '8-4'], schedule: { days: [1, 3, 4, 5, 6, 0], start: '09:00', end: '21:00' } },
 ];
 
 export const reviews: Review[] = [
-  { id: '1', userName: 'Sneha P.', userAvatar: 'https://images.unsplash.com/photo-1544005313-94ddf0286df2?w=60&h=60&fit=crop', rating: 5, text: 'Amazing experience! Priya did an incredible job with my hair. The salon ambiance is top notch.', service: 'Hair Spa', date: '2 days ago', artistId: '1', helpful: 12 },
-  { id: '2', userName: 'Amit V.', userAvatar: 'https://images.unsplash.com/photo-1506794778202-cad84cf45f1d?w=60&h=60&fit=crop', rating: 4, text: 'Great haircut by Vikram. Clean salon, good service. Slightly long wait though.', service: 'Haircut & Styling', date: '1 week ago', artistId: '4', helpful: 8, hasPhoto: true },
-  { id: '3', userName: 'Meera K.', userAvatar: 'https://images.unsplash.com/photo-1534528741775-53994a69daeb?w=60&h=60&fit=crop', rating: 5, text: 'Anita is the best makeup artist! My bridal look was absolutely stunning. Highly recommended!', service: 'Bridal Makeup', date: '3 days ago', artistId: '3', helpful: 24 },
-  { id: '4', userName: 'Rohan S.', userAvatar: 'https://images.unsplash.com/photo-1500648767791-00dcc994a43e?w=60&h=60&fit=crop', rating: 4, text: 'Good color work by Rahul. Very professional and knowledgeable about trends.', service: 'Hair Color', date: '5 days ago', artistId: '2', helpful: 6 },
-  { id: '5', userName: 'Kavya R.', userAvatar: 'https://images.unsplash.com/photo-1517841905240-472988babdf9?w=60&h=60&fit=crop', rating: 5, text: 'Wonderful service! Will definitely come back again.', service: 'Facial', date: '1 day ago', helpful: 3 },
+  { id: '1', salonId: '1', userName: 'Sneha P.', userAvatar: 'https://images.unsplash.com/photo-1544005313-94ddf0286df2?w=60&h=60&fit=crop', rating: 5, text: 'Amazing experience! Priya did an incredible job with my hair. The salon ambiance is top notch.', service: 'Hair Spa', date: '2 days ago', artistId: '1', helpful: 12 },
+  { id: '2', salonId: '1', userName: 'Amit V.', userAvatar: 'https://images.unsplash.com/photo-1506794778202-cad84cf45f1d?w=60&h=60&fit=crop', rating: 4, text: 'Great haircut by Vikram. Clean salon, good service. Slightly long wait though.', service: 'Haircut & Styling', date: '1 week ago', artistId: '4', helpful: 8, hasPhoto: true },
+  { id: '3', salonId: '1', userName: 'Meera K.', userAvatar: 'https://images.unsplash.com/photo-1534528741775-53994a69daeb?w=60&h=60&fit=crop', rating: 5, text: 'Anita is the best makeup artist! My bridal look was absolutely stunning. Highly recommended!', service: 'Bridal Makeup', date: '3 days ago', artistId: '3', helpful: 24 },
+  { id: '4', salonId: '1', userName: 'Rohan S.', userAvatar: 'https://images.unsplash.com/photo-1500648767791-00dcc994a43e?w=60&h=60&fit=crop', rating: 4, text: 'Good color work by Rahul. Very professional and knowledgeable about trends.', service: 'Hair Color', date: '5 days ago', artistId: '2', helpful: 6 },
+  { id: '5', salonId: '1', userName: 'Kavya R.', userAvatar: 'https://images.unsplash.com/photo-1517841905240-472988babdf9?w=60&h=60&fit=crop', rating: 5, text: 'Wonderful service! Will definitely come back again.', service: 'Facial', date: '1 day ago', helpful: 3 },
+  { id: '6', salonId: '2', userName: 'Nikhil J.', userAvatar: 'https://images.unsplash.com/photo-1492562080023-ab3db95bfbce?w=60&h=60&fit=crop', rating: 5, text: 'Arjun gives the best hot towel shave in Indiranagar. Old-school and relaxing.', service: 'Hot Towel Shave', date: '4 days ago', artistId: '5', helpful: 9 },
+  { id: '7', salonId: '2', userName: 'Tanya M.', userAvatar: 'https://images.unsplash.com/photo-1488426862026-3ee34a7d66df?w=60&h=60&fit=crop', rating: 4, text: 'Neha did a lovely blow dry. Booking was smooth and on time.', service: 'Blow Dry', date: '2 weeks ago', artistId: '6', helpful: 4 },
+  { id: '8', salonId: '3', userName: 'Riya D.', userAvatar: 'https://images.unsplash.com/photo-1531123897727-8f129e1688ce?w=60&h=60&fit=crop', rating: 5, text: 'The Hydra Facial with Ishita left my skin glowing for days. Worth every rupee.', service: 'Hydra Facial', date: '3 days ago', artistId: '7', helpful: 18, hasPhoto: true },
+  { id: '9', salonId: '3', userName: 'Aditya K.', userAvatar: 'https://images.unsplash.com/photo-1463453091185-61582044d556?w=60&h=60&fit=crop', rating: 5, text: 'Karan nailed the balayage I wanted. Super patient with my references.', service: 'Balayage', date: '1 week ago', artistId: '8', helpful: 11 },
+  { id: '10', salonId: '3', userName: 'Shreya V.', userAvatar: 'https://images.unsplash.com/photo-1487412720507-e7ab37603c6f?w=60&h=60&fit=crop', rating: 4, text: 'Relaxing aromatherapy massage by Lakshmi. The room was a little cold.', service: 'Aromatherapy Massage', date: '6 days ago', artistId: '9', helpful: 5 },
+  { id: '11', salonId: '4', userName: 'Ananya S.', userAvatar: 'https://images.unsplash.com/photo-1534528741775-53994a69daeb?w=60&h=60&fit=crop', rating: 5, text: 'Quick and painless threading by Divya. My go-to place in JP Nagar.', service: 'Threading', date: '2 days ago', artistId: '10', helpful: 7 },
+  { id: '12', salonId: '4', userName: 'Farah Z.', userAvatar: 'https://images.unsplash.com/photo-1544005313-94ddf0286df2?w=60&h=60&fit=crop', rating: 4, text: 'Pooja did my party makeup, looked great in photos.', service: 'Party Makeup', date: '10 days ago', artistId: '11', helpful: 3 },
+  { id: '13', salonId: '5', userName: 'Rakesh B.', userAvatar: 'https://images.unsplash.com/photo-1500648767791-00dcc994a43e?w=60&h=60&fit=crop', rating: 4, text: 'Salim gives a sharp classic cut at a fair price. No frills.', service: 'Classic Haircut', date: '5 days ago', artistId: '12', helpful: 6 },
+  { id: '14', salonId: '5', userName: 'Imran H.', userAvatar: 'https://images.unsplash.com/photo-1506794778202-cad84cf45f1d?w=60&h=60&fit=crop', rating: 4, text: 'Took my son for a kids haircut, Manoj was very patient.', service: 'Kids Haircut', date: '3 weeks ago', artistId: '13', helpful: 2 },
+  { id: '15', salonId: '6', userName: 'Pallavi R.', userAvatar: 'https://images.unsplash.com/photo-1517841905240-472988babdf9?w=60&h=60&fit=crop', rating: 5, text: 'Sara understood exactly the color I wanted. Premium experience in Whitefield.', service: 'Global Hair Color', date: '4 days ago', artistId: '14', helpful: 10 },
+  { id: '16', salonId: '6', userName: 'Vivek T.', userAvatar: 'https://images.unsplash.com/photo-1492562080023-ab3db95bfbce?w=60&h=60&fit=crop', rating: 5, text: 'Best deep tissue massage I have had. Dev knows his craft.', service: 'Deep Tissue Massage', date: '1 week ago', artistId: '15', helpful: 8, hasPhoto: true },
+  { id: '17', salonId: '7', userName: 'Ananya B.', userAvatar: 'https://images.unsplash.com/photo-1488426862026-3ee34a7d66df?w=60&h=60&fit=crop', rating: 5, text: 'Zoya gave me the cleanest bob I have had in Mumbai. Lovely staff too.', service: 'Haircut & Styling', date: '3 days ago', artistId: '16', helpful: 7 },
+  { id: '18', salonId: '7', userName: 'Karishma D.', userAvatar: 'https://images.unsplash.com/photo-1531123897727-8f129e1688ce?w=60&h=60&fit=crop', rating: 4, text: 'Farah did my sister\'s bridal makeup. Gorgeous, though it ran a bit late.', service: 'Bridal Makeup', date: '2 weeks ago', artistId: '17', helpful: 5, hasPhoto: true },
+  { id: '19', salonId: '8', userName: 'Sahil R.', userAvatar: 'https://images.unsplash.com/photo-1500648767791-00dcc994a43e?w=60&h=60&fit=crop', rating: 4, text: 'Sharp skin fade by Imran, in and out in forty minutes.', service: 'Skin Fade', date: '5 days ago', artistId: '18', helpful: 3 },
+];
+
+export const users: User[] = [
+  {
+    id: '1',
+    name: 'Aarav Sharma',
+    phone: '+919876543210',
+    avatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=120&h=120&fit=crop',
+  },
 ];
 
 export const bookings: Booking[] = [
-  { id: '1', salonName: 'Luxe Hair Studio', salonImage: salon1, services: ['Haircut & Styling', 'Beard Trim'], date: 'Mar 5, 2026', time: '10:30 AM', status: 'upcoming', totalPrice: 698 },
-  { id: '2', salonName: 'Urban Glow', salonImage: salon3, services: ['Hair Spa'], date: 'Feb 20, 2026', time: '2:00 PM', status: 'completed', totalPrice: 799 },
-  { id: '3', salonName: 'The Royal Salon', salonImage: salon2, services: ['Facial', 'Hair Color'], date: 'Feb 10, 2026', time: '11:00 AM', status: 'cancelled', totalPrice: 2398 },
+  {
+    id: '1',
+    customerId: '1',
+    salonId: '1',
+    salonName: 'Luxe Hair Studio',
+    salonImage: salon1,
+    items: [
+      { serviceId: '1-1', name: 'Haircut & Styling', price: 499, qty: 1, durationMinutes: 45 },
+      { serviceId: '1-2', name: 'Beard Trim', price: 199, qty: 1, durationMinutes: 20 },
+    ],
+    artistId: '4',
+    artistName: 'Vikram R.',
+    date: '2026-10-24',
+    time: '10:30',
+    durationMinutes: 65,
+    status: 'confirmed',
+    history: [{ status: 'confirmed', at: '2026-10-15T09:12:00+05:30' }],
+    price: { subtotal: 698, tax: 125.64, roundOff: 0.36, total: 824 },
+    payment: { method: 'pay-at-salon', status: 'unpaid', amount: 824 },
+  },
+  {
+    id: '2',
+    customerId: '1',
+    salonId: '3',
+    salonName: 'Urban Glow',
+    salonImage: salon3,
+    items: [{ serviceId: '3-3', name: 'Hydra Facial', price: 2499, qty: 1, durationMinutes: 75 }],
+    artistId: '7',
+    artistName: 'Ishita B.',
+    date: '2026-10-02',
+    time: '14:00',
+    durationMinutes: 75,
+    status: 'completed',
+    history: [
+      { status: 'confirmed', at: '2026-09-28T18:40:00+05:30' },
+      { status: 'checked-in', at: '2026-10-02T13:55:00+05:30' },
+      { status: 'in-service', at: '2026-10-02T14:02:00+05:30' },
+      { status: 'completed', at: '2026-10-02T15:20:00+05:30' },
+    ],
+    price: { subtotal: 2499, tax: 449.82, roundOff: 0.18, total: 2949 },
+    payment: { method: 'pay-at-salon', status: 'paid', amount: 2949, paidAt: '2026-10-02T15:20:00+05:30' },
+    invoice: { number: '3/26-27/00041', issuedAt: '2026-10-02T15:20:00+05:30' },
+  },
+  {
+    id: '3',
+    customerId: '1',
+    salonId: '2',
+    salonName: 'The Royal Salon',
+    salonImage: salon2,
+    items: [
+      { serviceId: '2-1', name: 'Royal Haircut', price: 399, qty: 1, durationMinutes: 40 },
+      { serviceId: '2-3', name: 'Hot Towel Shave', price: 299, qty: 1, durationMinutes: 30 },
+    ],
+    artistId: '5',
+    artistName: 'Arjun D.',
+    date: '2026-09-21',
+    time: '11:00',
+    durationMinutes: 70,
+    status: 'cancelled-by-customer',
+    history: [
+      { status: 'confirmed', at: '2026-09-15T11:05:00+05:30' },
+      { status: 'cancelled-by-customer', at: '2026-09-19T20:30:00+05:30', note: 'Plans changed' },
+    ],
+    price: { subtotal: 698, tax: 125.64, roundOff: 0.36, total: 824 },
+    payment: { method: 'pay-at-salon', status: 'unpaid', amount: 824 },
+  },
+];
+
+export const promotions: Promotion[] = [
+  {
+    id: '1',
+    code: 'LUXE30',
+    title: 'Flat 30% Off',
+    description: '30% off any service at Luxe Hair Studio, up to ₹750',
+    badge: 'Salon Offer',
+    reward: { type: 'percentage', percent: 30, maxDiscount: 750 },
+    rules: { salonIds: ['1'], expiresOn: '2026-12-31' },
+    redemptions: 214,
+  },
+  {
+    id: '2',
+    code: 'ROYAL20',
+    title: '20% Off First Visit',
+    description: 'New to The Royal Salon? Take 20% off your first appointment',
+    badge: 'Salon Offer',
+    reward: { type: 'percentage', percent: 20 },
+    rules: { salonIds: ['2'], firstVisit: 'salon', usesPerCustomer: 1 },
+    redemptions: 88,
+  },
+  {
+    id: '3',
+    code: 'GLOW3',
+    title: 'Buy 2 Get 1 Free',
+    description: 'Book three services at Urban Glow and the cheapest one is on us',
+    badge: 'Salon Offer',
+    reward: { type: 'bogo', buy: 2, free: 1 },
+    rules: { salonIds: ['3'], expiresOn: '2026-11-30' },
+    redemptions: 63,
+  },
+  {
+    id: '4',
+    code: 'FIRST40',
+    title: 'First Visit Special',
+    description: 'Get 40% off on your first booking, up to ₹500',
+    badge: 'New User',
+    reward: { type: 'percentage', percent: 40, maxDiscount: 500 },
+    rules: { firstVisit: 'app', usesPerCustomer: 1 },
+    redemptions: 1260,
+  },
+  {
+    id: '5',
+    code: 'WEEKEND200',
+    title: 'Weekend Glow Up',
+    description: 'Flat ₹200 off weekend appointments on orders above ₹999',
+    badge: 'Weekend',
+    reward: { type: 'flat', amount: 200 },
+    rules: { weekendOnly: true, minCartValue: 999, usesPerCustomer: 2 },
+    redemptions: 540,
+  },
+  {
+    id: '6',
+    code: 'FESTIVE',
+    title: 'Festival Special',
+    description: 'Buy 2 services, get 1 free at any salon',
+    badge: 'Limited',
+    reward: { type: 'bogo', buy: 2, free: 1 },
+    rules: { expiresOn: '2026-10-22', totalUses: 500 },
+    redemptions: 437,
+  },
+  {
+    id: '7',
+    code: 'MIRROR15',
+    title: '15% Off at Mirror Mirror',
+    description: '15% off any service at Mirror Mirror, Bandra, up to ₹600',
+    badge: 'Salon Offer',
+    reward: { type: 'percentage', percent: 15, maxDiscount: 600 },
+    rules: { salonIds: ['7'], expiresOn: '2027-01-31' },
+    redemptions: 41,
+  },
 ];
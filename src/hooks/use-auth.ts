@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import type { Session } from '@/auth';
+import type { User } from '@/types/salon';
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  signIn(session: Session): void;
+  /** Refreshes the signed-in user after a profile edit. */
+  updateUser(user: User): void;
+  signOut(): void;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error('useAuth must be used inside <AuthProvider>');
+  return context;
+}
@@ -0,0 +1,75 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as api from '@/api';
+import type { BookingChanges } from '@/api';
+import { useAuth } from '@/hooks/use-auth';
+import { catalogKeys } from '@/hooks/use-catalog';
+import { refundBooking } from '@/payments/checkout';
+
+export const bookingKeys = {
+  all: ['bookings'] as const,
+  customer: (customerId: string) => ['bookings', 'customer', customerId] as const,
+  salon: (salonId: string) => ['bookings', 'salon', salonId] as const,
+  detail: (id: string, customerId: string) => ['bookings', 'detail', id, customerId] as const,
+};
+
+/** The signed-in customer's bookings; empty when signed out. */
+export function useBookings() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: bookingKeys.customer(user?.id ?? ''),
+    queryFn: () => api.listBookings({ customerId: user!.id }),
+    enabled: !!user,
+  });
+}
+
+/** One of the signed-in customer's bookings; null when it's missing or someone else's. */
+export function useBooking(id: string | undefined) {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: bookingKeys.detail(id ?? '', user?.id ?? ''),
+    queryFn: () => api.getBooking(id!, user!.id),
+    enabled: !!id && !!user,
+  });
+}
+
+/** All bookings held at a salon, for computing availability. */
+export function useSalonBookings(salonId: string | undefined) {
+  return useQuery({
+    queryKey: bookingKeys.salon(salonId ?? ''),
+    queryFn: () => api.listBookings({ salonId }),
+    enabled: !!salonId,
+  });
+}
+
+// Every booking mutation can change availability, the bookings list and coupon redemption counts
+export function useInvalidateBookings() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: catalogKeys.promotions });
+    return queryClient.invalidateQueries({ queryKey: bookingKeys.all });
+  };
+}
+
+export function useCreateBooking() {
+  const invalidate = useInvalidateBookings();
+  return useMutation({ mutationFn: api.createBooking, onSuccess: invalidate });
+}
+
+/** Prepaid bookings are refunded to the original payment method as part of cancelling; a failed refund is left `refund-pending`. */
+export function useCancelBooking() {
+  const { user } = useAuth();
+  const invalidate = useInvalidateBookings();
+  return useMutation({
+    mutationFn: async (id: string) => refundBooking(await api.cancelBooking(id, user!.id)),
+    onSuccess: invalidate,
+  });
+}
+
+export function useRescheduleBooking() {
+  const { user } = useAuth();
+  const invalidate = useInvalidateBookings();
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: BookingChanges }) => api.rescheduleBooking(id, user!.id, changes),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import type { Cart } from '@/lib/cart';
+
+export interface CartContextValue {
+  /** Null when nothing has been picked. */
+  cart: Cart | null;
+  /** Adds one of the service, replacing a cart from another salon. Check `holdsOtherSalon` first to warn about that. */
+  add(salon: { id: string; name: string }, serviceId: string): void;
+  remove(serviceId: string): void;
+  clear(): void;
+}
+
+export const CartContext = createContext<CartContextValue | null>(null);
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (!context) throw new Error('useCart must be used inside <CartProvider>');
+  return context;
+}
@@ -0,0 +1,56 @@
+import { useQuery } from '@tanstack/react-query';
+import * as api from '@/api';
+import type { SalonQuery } from '@/api';
+
+export const catalogKeys = {
+  categories: ['categories'] as const,
+  cities: ['cities'] as const,
+  localities: (cityId?: string) => ['localities', cityId ?? 'all'] as const,
+  salons: (query: SalonQuery = {}) => ['salons', query] as const,
+  salon: (id: string) => ['salon', id] as const,
+  services: (salonId?: string) => ['services', salonId ?? 'all'] as const,
+  artists: (salonId?: string) => ['artists', salonId ?? 'all'] as const,
+  reviews: (salonId?: string) => ['reviews', salonId ?? 'all'] as const,
+  promotions: ['promotions'] as const,
+};
+
+export function useCategories() {
+  return useQuery({ queryKey: catalogKeys.categories, queryFn: api.listCategories });
+}
+
+export function useCities() {
+  return useQuery({ queryKey: catalogKeys.cities, queryFn: api.listCities });
+}
+
+export function useLocalities(cityId?: string) {
+  return useQuery({ queryKey: catalogKeys.localities(cityId), queryFn: () => api.listLocalities(cityId) });
+}
+
+export function useSalons(query: SalonQuery = {}) {
+  return useQuery({ queryKey: catalogKeys.salons(query), queryFn: () => api.listSalons(query) });
+}
+
+export function useSalon(id: string | undefined) {
+  return useQuery({
+    queryKey: catalogKeys.salon(id ?? ''),
+    queryFn: () => api.getSalon(id!),
+    enabled: !!id,
+  });
+}
+
+/** Pass a salon id to scope the results to that salon's catalog. */
+export function useServices(salonId?: string) {
+  return useQuery({ queryKey: catalogKeys.services(salonId), queryFn: () => api.listServices(salonId) });
+}
+
+export function useArtists(salonId?: string) {
+  return useQuery({ queryKey: catalogKeys.artists(salonId), queryFn: () => api.listArtists(salonId) });
+}
+
+export function useReviews(salonId?: string) {
+  return useQuery({ queryKey: catalogKeys.reviews(salonId), queryFn: () => api.listReviews(salonId) });
+}
+
+export function usePromotions() {
+  return useQuery({ queryKey: catalogKeys.promotions, queryFn: api.listPromotions });
+}
@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import type { ChatClient, ChatIdentity, ChatState } from '@/chat';
+
+export interface ChatContextValue {
+  client: ChatClient;
+  state: ChatState;
+  /** The signed-in customer, or null when nobody is signed in. */
+  identity: ChatIdentity | null;
+}
+
+export const ChatContext = createContext<ChatContextValue | null>(null);
+
+export function useChat() {
+  const context = useContext(ChatContext);
+  if (!context) throw new Error('useChat must be used inside <ChatProvider>');
+  return context;
+}
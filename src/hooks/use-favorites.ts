@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { SavedSalon } from '@/lib/favorites';
+
+export interface FavoritesContextValue {
+  /** Latest saves first. */
+  saved: SavedSalon[];
+  isFavorite(salonId: string): boolean;
+  /** Returns whether the salon is saved afterwards. */
+  toggle(salonId: string): boolean;
+  remove(salonId: string): void;
+  /** Puts back a save that was just removed, keeping its original place in the list. */
+  restore(entry: SavedSalon): void;
+}
+
+export const FavoritesContext = createContext<FavoritesContextValue | null>(null);
+
+export function useFavorites() {
+  const context = useContext(FavoritesContext);
+  if (!context) throw new Error('useFavorites must be used inside <FavoritesProvider>');
+  return context;
+}
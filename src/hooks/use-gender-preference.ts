@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import * as auth from '@/auth';
+import { useAuth } from '@/hooks/use-auth';
+import { parseGenderPreference } from '@/lib/genderPreference';
+import type { GenderPreference } from '@/types/salon';
+
+const STORAGE_KEY = 'preferred_gender';
+
+/**
+ * Whose services to show. Guests keep the choice on the device; signed-in customers keep it
+ * on their profile, which picks up the device's choice the first time they sign in.
+ */
+export function useGenderPreference() {
+  const { user, updateUser } = useAuth();
+  const [local, setLocal] = useState(() => parseGenderPreference(localStorage.getItem(STORAGE_KEY)));
+  const preference = user?.genderPreference ?? local;
+
+  const setPreference = useCallback(
+    async (next: GenderPreference) => {
+      localStorage.setItem(STORAGE_KEY, next);
+      setLocal(next);
+      if (!user) return;
+      try {
+        updateUser(await auth.updateProfile(user.id, { genderPreference: next }));
+      } catch {
+        toast.error("Couldn't save your preference to your profile");
+      }
+    },
+    [user, updateUser],
+  );
+
+  const needsSync = !!user && !user.genderPreference && localStorage.getItem(STORAGE_KEY) !== null;
+  useEffect(() => {
+    if (needsSync) setPreference(local);
+  }, [needsSync, local, setPreference]);
+
+  return [preference, setPreference] as const;
+}
@@ -0,0 +1,25 @@
+import { useMutation } from '@tanstack/react-query';
+import { useInvalidateBookings } from '@/hooks/use-bookings';
+import { payForBooking, refundBooking, switchToPayAtSalon } from '@/payments/checkout';
+import type { PaymentDetails } from '@/payments';
+import type { Booking } from '@/types/salon';
+
+export function usePayForBooking() {
+  const invalidate = useInvalidateBookings();
+  // Failed attempts are recorded on the booking too, so refresh either way
+  return useMutation({
+    mutationFn: ({ booking, details }: { booking: Booking; details: PaymentDetails }) => payForBooking(booking, details),
+    onSettled: invalidate,
+  });
+}
+
+export function useSwitchToPayAtSalon() {
+  const invalidate = useInvalidateBookings();
+  return useMutation({ mutationFn: switchToPayAtSalon, onSuccess: invalidate });
+}
+
+/** Tries again to return the money for a cancelled booking whose refund is still pending. */
+export function useRetryRefund() {
+  const invalidate = useInvalidateBookings();
+  return useMutation({ mutationFn: refundBooking, onSettled: invalidate });
+}
@@ -0,0 +1,27 @@
+import { useCallback, useState } from 'react';
+import { readJSON, writeJSON } from '@/lib/storage';
+import { addRecentSearch, removeRecentSearch } from '@/lib/search';
+
+const STORAGE_KEY = 'recent_searches';
+
+/** The customer's own search history on this device, newest first. */
+export function useRecentSearches() {
+  const [searches, setSearches] = useState<string[]>(() => readJSON(STORAGE_KEY, []));
+
+  const update = useCallback((change: (current: string[]) => string[]) => {
+    setSearches((current) => {
+      const next = change(current);
+      writeJSON(STORAGE_KEY, next);
+      return next;
+    });
+  }, []);
+
+  return {
+    searches,
+    add: useCallback((query: string) => update((current) => addRecentSearch(current, query)), [update]),
+    remove: useCallback((query: string) => update((current) => removeRecentSearch(current, query)), [update]),
+    clear: useCallback(() => update(() => []), [update]),
+  };
+}
+
+export type RecentSearches = ReturnType<typeof useRecentSearches>;
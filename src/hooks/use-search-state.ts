@@ -0,0 +1,40 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { activeFilterChips, DEFAULT_FILTERS, parseFilters, writeFilters, type SalonFilters } from '@/lib/filters';
+
+/**
+ * The search query and filters, kept in the URL (`?q=beard&rating=4&sort=distance`)
+ * so a results page can be shared or restored with the back button.
+ */
+export function useSearchState() {
+  const [params, setParams] = useSearchParams();
+  const query = params.get('q') ?? '';
+  const filters = useMemo(() => parseFilters(params), [params]);
+
+  const setQuery = useCallback(
+    (next: string) =>
+      setParams(
+        (current) => {
+          const updated = new URLSearchParams(current);
+          if (next) updated.set('q', next);
+          else updated.delete('q');
+          return updated;
+        },
+        { replace: true },
+      ),
+    [setParams],
+  );
+
+  const setFilters = useCallback(
+    (next: SalonFilters) => setParams((current) => writeFilters(current, next), { replace: true }),
+    [setParams],
+  );
+
+  // The category row is its own control, so clearing the sheet's filters leaves it be
+  const clearFilters = useCallback(
+    () => setFilters({ ...DEFAULT_FILTERS, category: filters.category }),
+    [setFilters, filters.category],
+  );
+
+  return { query, setQuery, filters, setFilters, clearFilters, chips: activeFilterChips(filters) };
+}
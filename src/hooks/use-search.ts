@@ -0,0 +1,73 @@
+import { useCallback, useDeferredValue, useMemo } from 'react';
+import { useCategories, useLocalities, usePromotions, useSalons, useServices } from '@/hooks/use-catalog';
+import { useUserLocation } from '@/hooks/use-user-location';
+import { applyFilters, DEFAULT_FILTERS, type SalonFilters } from '@/lib/filters';
+import {
+  autocomplete,
+  browseSalons,
+  localityOf,
+  salonCategoryIds,
+  searchSalons,
+  suggestAlternatives,
+  type SearchCatalog,
+} from '@/lib/search';
+import type { Category, Locality, Salon, Service } from '@/types/salon';
+
+// Services come from every city; keep only those at the salons listed
+function cityCatalog(
+  salons: Salon[] = [],
+  services: Service[] = [],
+  categories: Category[] = [],
+  localities: Locality[] = [],
+): SearchCatalog {
+  const salonIds = new Set(salons.map((s) => s.id));
+  return { salons, services: services.filter((s) => salonIds.has(s.salonId)), categories, localities };
+}
+
+/**
+ * Ranked results for a free-text query among the salons in the customer's city, narrowed and
+ * sorted by `filters`. With no query every salon there is listed, so filters work on their own too.
+ */
+export function useSalonSearch(query: string, filters: SalonFilters = DEFAULT_FILTERS) {
+  // Typing stays responsive while results catch up
+  const deferredQuery = useDeferredValue(query.trim());
+  const { location } = useUserLocation();
+  const { data: salons } = useSalons({ cityId: location.cityId });
+  const { data: services } = useServices();
+  const { data: categories } = useCategories();
+  const { data: localities } = useLocalities(location.cityId);
+  const { data: promotions } = usePromotions();
+  const origin = location.coordinates;
+
+  return useMemo(() => {
+    const catalog = cityCatalog(salons, services, categories, localities);
+    const matched = deferredQuery ? searchSalons(deferredQuery, catalog, origin) : browseSalons(catalog.salons, origin);
+    return {
+      query: deferredQuery,
+      results: applyFilters(matched, filters, { promotions: promotions ?? [], salonCategories: salonCategoryIds(catalog), origin }),
+      /** How many matched the query before filters were applied. */
+      matchedCount: matched.length,
+      suggestions: deferredQuery && matched.length === 0 ? suggestAlternatives(deferredQuery, catalog) : [],
+      isLoading: !salons || !services || !categories || !localities,
+    };
+  }, [deferredQuery, filters, salons, services, categories, localities, promotions, origin]);
+}
+
+/** Grouped type-ahead suggestions for the search dropdown. */
+export function useAutocomplete(query: string) {
+  const { location } = useUserLocation();
+  const { data: salons } = useSalons({ cityId: location.cityId });
+  const { data: services } = useServices();
+  const { data: categories } = useCategories();
+  const { data: localities } = useLocalities(location.cityId);
+  return useMemo(
+    () => autocomplete(query, cityCatalog(salons, services, categories, localities)),
+    [query, salons, services, categories, localities],
+  );
+}
+
+/** Names a salon's neighbourhood, in any city, the way search and the location picker do. */
+export function useLocalityOf() {
+  const { data: localities } = useLocalities();
+  return useCallback((salon: Salon) => localityOf(salon, localities ?? []), [localities]);
+}
@@ -0,0 +1,51 @@
+import { createContext, useContext } from 'react';
+import type { City, LatLng, Locality } from '@/types/salon';
+
+/**
+ * 'default' — nobody has said yet, so the default city's centre stands in; 'city' — a city picked
+ * without narrowing it down; 'gps' — the browser's fix; 'locality' — a neighbourhood picked by hand.
+ */
+export type LocationSource = 'default' | 'city' | 'gps' | 'locality';
+
+export interface UserLocation {
+  /** Every listing, search and offer is scoped to this city. */
+  cityId: string;
+  coordinates: LatLng;
+  source: LocationSource;
+  /** Set when the customer picked a locality. */
+  localityId?: string;
+}
+
+export const DEFAULT_LOCATION: UserLocation = {
+  cityId: 'bangalore',
+  coordinates: { lat: 12.9716, lng: 77.5946 },
+  source: 'default',
+};
+
+export const MAX_RECENT_LOCATIONS = 5;
+
+export interface UserLocationContextValue {
+  location: UserLocation;
+  city: City | undefined;
+  /** What the header shows: the locality, or the city when nothing more precise is known. */
+  label: string;
+  /** Localities picked before, latest first, not counting the current one. */
+  recent: Locality[];
+  locating: boolean;
+  /** Why the last attempt to use GPS failed. */
+  error: string | null;
+  /** Asks the browser where the customer is. On failure the location stays as it was and `error` says why. */
+  locate(): Promise<boolean>;
+  chooseCity(city: City): void;
+  chooseLocality(locality: Locality): void;
+  /** Kilometres from the customer. */
+  distanceTo(point: LatLng): number;
+}
+
+export const UserLocationContext = createContext<UserLocationContextValue | null>(null);
+
+export function useUserLocation() {
+  const context = useContext(UserLocationContext);
+  if (!context) throw new Error('useUserLocation must be used inside <LocationProvider>');
+  return context;
+}
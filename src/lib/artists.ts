@@ -0,0 +1,27 @@
+import type { Artist, Review } from '@/types/salon';
+
+export interface ArtistRating {
+  /** Average stars to one decimal place. */
+  rating: number;
+  reviewCount: number;
+}
+
+export const canPerform = (artist: Artist, serviceId: string) => artist.serviceIds.includes(serviceId);
+
+/** Artists who can do every one of the services, e.g. to take a whole cart on their own. */
+export const eligibleArtists = (artists: Artist[], serviceIds: string[]) =>
+  artists.filter((artist) => serviceIds.every((id) => canPerform(artist, id)));
+
+/** Each reviewed artist's rating, from the reviews that name them. Artists nobody has reviewed are left out. */
+export function artistRatings(reviews: Review[]): Record<string, ArtistRating> {
+  const totals: Record<string, { stars: number; count: number }> = {};
+  for (const review of reviews) {
+    if (!review.artistId) continue;
+    const total = (totals[review.artistId] ??= { stars: 0, count: 0 });
+    total.stars += review.rating;
+    total.count += 1;
+  }
+  return Object.fromEntries(
+    Object.entries(totals).map(([id, { stars, count }]) => [id, { rating: Math.round((stars / count) * 10) / 10, reviewCount: count }]),
+  );
+}
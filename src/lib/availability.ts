@@ -0,0 +1,226 @@
+import type { Artist, Booking, BookingItem, ItineraryStep, Salon } from '@/types/salon';
+import { formatTime, toDateKey, toMinutes, toTimeString } from '@/lib/time';
+import { getIntervalsForDate } from '@/lib/openingHours';
+import { holdsSlot } from '@/lib/bookingLifecycle';
+import { canPerform, eligibleArtists } from '@/lib/artists';
+
+export const SLOT_INTERVAL_MINUTES = 30;
+
+export interface Slot {
+  /** Minutes since midnight. */
+  start: number;
+  /** 24-hour 'HH:mm', the value stored on bookings. */
+  time: string;
+  label: string;
+  /** Artists free for the whole visit. */
+  freeArtistIds: string[];
+  /**
+   * How many more visits could start here: the artists free for the whole visit or, when it has to be
+   * shared between specialists, the fewest free for any one of its services.
+   */
+  openings: number;
+  available: boolean;
+  /** Most of the team who could take the visit (or one of its services) is already busy at this time. */
+  isPeak: boolean;
+}
+
+export type DayStatus = 'closed' | 'full' | 'almost-full' | 'available';
+
+export interface DayCapacity {
+  status: DayStatus;
+  availableSlots: number;
+  /** Share of artist time still bookable, 0–1. */
+  freeRatio: number;
+}
+
+export interface AvailabilityInput {
+  salon: Salon;
+  artists: Artist[];
+  bookings: Booking[];
+  date: Date;
+  /** Total duration of the services being booked. */
+  durationMinutes: number;
+  /**
+   * The services themselves. With them, only artists trained for a service are counted for it, and
+   * a slot is also open when no one artist is free throughout but each service can go to someone
+   * free for its turn.
+   */
+  items?: BookingItem[];
+  now?: Date;
+}
+
+const ALMOST_FULL_RATIO = 0.3;
+
+const overlaps = (aStart: number, aEnd: number, bStart: number, bEnd: number) => aStart < bEnd && bStart < aEnd;
+
+type Appointment = Pick<Booking, 'artistId' | 'date' | 'time' | 'durationMinutes'>;
+type Scheduled = Appointment & Pick<Booking, 'itinerary'>;
+
+/** Each artist's share of a booking: one per itinerary step, or the whole booking for its single artist. */
+export const appointmentsOf = (booking: Scheduled): Appointment[] =>
+  booking.itinerary?.length
+    ? booking.itinerary.map((step) => ({ artistId: step.artistId, date: booking.date, time: step.time, durationMinutes: step.durationMinutes }))
+    : [booking];
+
+const clashes = (a: Appointment, b: Appointment) => {
+  if (a.artistId !== b.artistId) return false;
+  const aStart = toMinutes(a.time);
+  const bStart = toMinutes(b.time);
+  return overlaps(aStart, aStart + a.durationMinutes, bStart, bStart + b.durationMinutes);
+};
+
+/** An existing booking that already holds one of the candidate's artists at that time, if any. */
+export function findConflict(bookings: Booking[], candidate: Scheduled, now = new Date()): Booking | undefined {
+  const wanted = appointmentsOf(candidate).filter((a) => a.artistId);
+  if (wanted.length === 0) return undefined;
+  return bookings.find(
+    (b) => b.date === candidate.date && holdsSlot(b, now) && appointmentsOf(b).some((held) => wanted.some((w) => clashes(held, w))),
+  );
+}
+
+/** Everyone doing a booking, in the order they first see the customer. */
+export const bookingArtistNames = (booking: Pick<Booking, 'artistName' | 'itinerary'>): string[] =>
+  booking.itinerary?.length ? [...new Set(booking.itinerary.map((s) => s.artistName))] : booking.artistName ? [booking.artistName] : [];
+
+export function isArtistFree(artist: Artist, date: Date, start: number, end: number, bookings: Booking[]): boolean {
+  const { days, start: shiftStart, end: shiftEnd } = artist.schedule;
+  if (!days.includes(date.getDay())) return false;
+  if (start < toMinutes(shiftStart) || end > toMinutes(shiftEnd)) return false;
+
+  return !findConflict(bookings, {
+    artistId: artist.id,
+    date: toDateKey(date),
+    time: toTimeString(start),
+    durationMinutes: end - start,
+  });
+}
+
+/** The earliest start from `from` on at which the artist has `durationMinutes` free that day, or null. */
+export function nextFreeStart(artist: Artist, date: Date, from: number, durationMinutes: number, bookings: Booking[]): number | null {
+  const shiftEnd = toMinutes(artist.schedule.end);
+  for (let start = from; start + durationMinutes <= shiftEnd; start += SLOT_INTERVAL_MINUTES) {
+    if (isArtistFree(artist, date, start, start + durationMinutes, bookings)) return start;
+  }
+  return null;
+}
+
+export interface ItineraryTurn {
+  serviceId: string;
+  name: string;
+  /** Minutes since midnight. */
+  start: number;
+  end: number;
+}
+
+/** The services one after another from `start`, a turn for each one booked: two haircuts are two turns. */
+export function itineraryTurns(items: BookingItem[], start: number): ItineraryTurn[] {
+  const turns: ItineraryTurn[] = [];
+  let at = start;
+  for (const item of items) {
+    for (let n = 0; n < item.qty; n++) {
+      turns.push({ serviceId: item.serviceId, name: item.name, start: at, end: at + item.durationMinutes });
+      at += item.durationMinutes;
+    }
+  }
+  return turns;
+}
+
+export interface ItineraryInput {
+  artists: Artist[];
+  /** The salon's bookings on the day. */
+  bookings: Booking[];
+  date: Date;
+  /** Minutes since midnight. */
+  start: number;
+  items: BookingItem[];
+  /** The artist the customer chose for each turn, by position; turns left out go to whoever is free. */
+  picks?: (string | undefined)[];
+}
+
+/**
+ * Who does each service and when, back to back from `start`. Null when a chosen artist is busy
+ * for their turn or nobody trained for a service is free for it.
+ */
+export function planItinerary({ artists, bookings, date, start, items, picks = [] }: ItineraryInput): ItineraryStep[] | null {
+  const steps: ItineraryStep[] = [];
+  for (const [i, turn] of itineraryTurns(items, start).entries()) {
+    const free = artists.filter((a) => canPerform(a, turn.serviceId) && isArtistFree(a, date, turn.start, turn.end, bookings));
+    const previous = steps[i - 1]?.artistId;
+    // Unless asked otherwise, the customer stays in the same chair for as long as they can
+    const artist = picks[i] ? free.find((a) => a.id === picks[i]) : free.find((a) => a.id === previous) ?? free[0];
+    if (!artist) return null;
+    steps.push({
+      serviceId: turn.serviceId,
+      name: turn.name,
+      artistId: artist.id,
+      artistName: artist.name,
+      time: toTimeString(turn.start),
+      durationMinutes: turn.end - turn.start,
+    });
+  }
+  return steps;
+}
+
+/**
+ * Every bookable start time for a salon on a day. Slots the cart cannot fit
+ * into (closing time or a lunch break, no free artist) are returned with
+ * `available: false`; slots already in the past are dropped, and a day the
+ * salon is closed has none.
+ */
+export function getDaySlots({ salon, artists, bookings, date, durationMinutes, items, now = new Date() }: AvailabilityInput): Slot[] {
+  const length = Math.max(durationMinutes, SLOT_INTERVAL_MINUTES);
+  const salonBookings = bookings.filter((b) => b.salonId === salon.id && holdsSlot(b, now));
+  const onShift = artists.filter((a) => a.schedule.days.includes(date.getDay()));
+  // Who could take the whole visit on their own
+  const capable = items?.length ? eligibleArtists(onShift, items.map((i) => i.serviceId)) : onShift;
+  // Nobody can, so every visit is split and each service is measured against those trained for it
+  const split = capable.length === 0 && !!items?.length;
+  const turnLoad = (start: number) =>
+    itineraryTurns(items, start).map((turn) => {
+      const trained = onShift.filter((a) => canPerform(a, turn.serviceId));
+      return { trained: trained.length, free: trained.filter((a) => isArtistFree(a, date, turn.start, turn.end, salonBookings)).length };
+    });
+  const earliest = toDateKey(date) === toDateKey(now) ? now.getHours() * 60 + now.getMinutes() : -1;
+
+  const slots: Slot[] = [];
+  for (const interval of getIntervalsForDate(salon.hours, date)) {
+    const opensAt = toMinutes(interval.opensAt);
+    const closesAt = toMinutes(interval.closesAt);
+    for (let start = opensAt; start + SLOT_INTERVAL_MINUTES <= closesAt; start += SLOT_INTERVAL_MINUTES) {
+      if (start <= earliest) continue;
+      const end = start + length;
+      const free = end <= closesAt ? capable.filter((a) => isArtistFree(a, date, start, end, salonBookings)) : [];
+      const turns = split && end <= closesAt ? turnLoad(start) : [];
+      const openings = split ? (turns.length ? Math.min(...turns.map((t) => t.free)) : 0) : free.length;
+      const shared = split
+        ? openings > 0
+        : free.length === 0 && end <= closesAt && !!items?.length && !!planItinerary({ artists: onShift, bookings: salonBookings, date, start, items });
+      const available = free.length > 0 || shared;
+      slots.push({
+        start,
+        time: toTimeString(start),
+        label: formatTime(start),
+        freeArtistIds: free.map((a) => a.id),
+        openings,
+        available,
+        isPeak: available && (split ? turns.some((t) => t.free <= t.trained / 2) : free.length <= capable.length / 2),
+      });
+    }
+  }
+  return slots;
+}
+
+/** How much of the day's bookable artist time is already taken, compared against an empty diary. */
+export function getDayCapacity(input: AvailabilityInput): DayCapacity {
+  const countFree = (slots: Slot[]) => slots.reduce((sum, s) => sum + s.openings, 0);
+  const slots = getDaySlots(input);
+  const baseline = countFree(getDaySlots({ ...input, bookings: [] }));
+  const availableSlots = slots.filter((s) => s.available).length;
+
+  const onShift = input.artists.some((a) => a.schedule.days.includes(input.date.getDay()));
+  if (slots.length === 0 || !onShift) return { status: 'closed', availableSlots: 0, freeRatio: 0 };
+
+  const freeRatio = baseline > 0 ? countFree(slots) / baseline : 0;
+  const status: DayStatus = availableSlots === 0 ? 'full' : freeRatio <= ALMOST_FULL_RATIO ? 'almost-full' : 'available';
+  return { status, availableSlots, freeRatio };
+}
@@ -0,0 +1,92 @@
+import type { Booking, BookingEvent, BookingStatus } from '@/types/salon';
+
+export type BookingGroup = 'upcoming' | 'past' | 'cancelled';
+
+interface StatusMeta {
+  label: string;
+  group: BookingGroup;
+  /** Tailwind classes for the status badge. */
+  badgeClass: string;
+  /** Whether the booking still occupies the artist's time. */
+  holdsSlot: boolean;
+}
+
+export const BOOKING_STATUS_META: Record<BookingStatus, StatusMeta> = {
+  'pending-payment': { label: 'Payment Pending', group: 'upcoming', badgeClass: 'bg-accent/20 text-accent-foreground', holdsSlot: true },
+  confirmed: { label: 'Confirmed', group: 'upcoming', badgeClass: 'bg-primary/10 text-primary', holdsSlot: true },
+  'checked-in': { label: 'Checked In', group: 'upcoming', badgeClass: 'bg-primary/10 text-primary', holdsSlot: true },
+  'in-service': { label: 'In Service', group: 'upcoming', badgeClass: 'bg-success/10 text-success', holdsSlot: true },
+  completed: { label: 'Completed', group: 'past', badgeClass: 'bg-success/10 text-success', holdsSlot: true },
+  'no-show': { label: 'No Show', group: 'past', badgeClass: 'bg-muted text-muted-foreground', holdsSlot: true },
+  'cancelled-by-customer': { label: 'Cancelled', group: 'cancelled', badgeClass: 'bg-destructive/10 text-destructive', holdsSlot: false },
+  'cancelled-by-salon': { label: 'Cancelled by Salon', group: 'cancelled', badgeClass: 'bg-destructive/10 text-destructive', holdsSlot: false },
+  refunded: { label: 'Refunded', group: 'cancelled', badgeClass: 'bg-muted text-muted-foreground', holdsSlot: false },
+};
+
+export const BOOKING_GROUPS: { id: BookingGroup; label: string }[] = [
+  { id: 'upcoming', label: 'Upcoming' },
+  { id: 'past', label: 'Past' },
+  { id: 'cancelled', label: 'Cancelled' },
+];
+
+/** Every legal move; anything not listed here is rejected. */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  'pending-payment': ['confirmed', 'cancelled-by-customer', 'cancelled-by-salon'],
+  confirmed: ['checked-in', 'no-show', 'cancelled-by-customer', 'cancelled-by-salon'],
+  'checked-in': ['in-service', 'cancelled-by-salon'],
+  'in-service': ['completed'],
+  completed: ['refunded'],
+  'no-show': [],
+  'cancelled-by-customer': ['refunded'],
+  'cancelled-by-salon': ['refunded'],
+  refunded: [],
+};
+
+/** How long an unpaid prepaid booking keeps its slot before it's released to other customers. */
+export const PAYMENT_HOLD_MINUTES = 15;
+
+// Once a customer is checked in, changing the appointment time no longer makes sense
+const RESCHEDULABLE: BookingStatus[] = ['pending-payment', 'confirmed'];
+
+export class InvalidTransitionError extends Error {
+  constructor(public readonly from: BookingStatus, public readonly to: BookingStatus) {
+    super(`Cannot move a booking from "${BOOKING_STATUS_META[from].label}" to "${BOOKING_STATUS_META[to].label}"`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export const canTransition = (from: BookingStatus, to: BookingStatus) => BOOKING_TRANSITIONS[from].includes(to);
+
+export const canCancel = (booking: Booking) => canTransition(booking.status, 'cancelled-by-customer');
+
+export const canReschedule = (booking: Booking) => RESCHEDULABLE.includes(booking.status);
+
+/** When a booking awaiting payment gives up its slot; null for bookings that aren't awaiting payment. */
+export function paymentHoldExpiresAt(booking: Booking): Date | null {
+  if (booking.status !== 'pending-payment') return null;
+  const placed = [...booking.history].reverse().find((e) => e.status === 'pending-payment');
+  return placed ? new Date(new Date(placed.at).getTime() + PAYMENT_HOLD_MINUTES * 60_000) : null;
+}
+
+export const isPaymentHoldExpired = (booking: Booking, now = new Date()) => {
+  const expiresAt = paymentHoldExpiresAt(booking);
+  return !!expiresAt && expiresAt <= now;
+};
+
+/** Whether the booking still occupies the artist's time; an abandoned checkout stops doing so once its hold lapses. */
+export const holdsSlot = (booking: Booking, now = new Date()) =>
+  BOOKING_STATUS_META[booking.status].holdsSlot && !isPaymentHoldExpired(booking, now);
+
+export function createHistoryEvent(status: BookingStatus, at = new Date(), note?: string): BookingEvent {
+  return note ? { status, at: at.toISOString(), note } : { status, at: at.toISOString() };
+}
+
+/** Returns the booking in its new status with the move appended to its history. Throws on illegal moves. */
+export function transitionBooking(booking: Booking, to: BookingStatus, options: { at?: Date; note?: string } = {}): Booking {
+  if (!canTransition(booking.status, to)) throw new InvalidTransitionError(booking.status, to);
+  return {
+    ...booking,
+    status: to,
+    history: [...booking.history, createHistoryEvent(to, options.at, options.note)],
+  };
+}
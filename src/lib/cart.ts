@@ -0,0 +1,45 @@
+import type { BookingItem, Service } from '@/types/salon';
+import { parseDuration } from '@/lib/time';
+
+/** Services picked for one booking. A cart only ever holds services from a single salon. */
+export interface Cart {
+  salonId: string;
+  /** Kept so the cart can be described without loading the salon, e.g. when replacing it. */
+  salonName: string;
+  /** Quantity by service id. */
+  items: Record<string, number>;
+}
+
+export const cartCount = (cart: Cart | null) => Object.values(cart?.items ?? {}).reduce((a, b) => a + b, 0);
+
+/** Whether adding from `salonId` would mean giving up services already picked at another salon. */
+export const holdsOtherSalon = (cart: Cart | null, salonId: string) => !!cart && cart.salonId !== salonId && cartCount(cart) > 0;
+
+/** Adds one of the service. Starts a fresh cart when the current one belongs to another salon. */
+export function addToCart(cart: Cart | null, salon: { id: string; name: string }, serviceId: string): Cart {
+  const items = cart?.salonId === salon.id ? cart.items : {};
+  return { salonId: salon.id, salonName: salon.name, items: { ...items, [serviceId]: (items[serviceId] ?? 0) + 1 } };
+}
+
+/** Removes one of the service; the cart is gone once nothing is left in it. */
+export function removeFromCart(cart: Cart | null, serviceId: string): Cart | null {
+  if (!cart?.items[serviceId]) return cart;
+  const items = { ...cart.items };
+  if (items[serviceId] > 1) items[serviceId]--;
+  else delete items[serviceId];
+  return Object.keys(items).length > 0 ? { ...cart, items } : null;
+}
+
+/**
+ * The cart as booking lines at current prices, or nothing when it belongs to another salon.
+ * Services the salon no longer offers are dropped.
+ */
+export function cartItems(cart: Cart | null, salonId: string | undefined, services: Service[]): BookingItem[] {
+  if (!cart || cart.salonId !== salonId) return [];
+  return Object.entries(cart.items).flatMap(([serviceId, qty]) => {
+    const service = services.find((s) => s.id === serviceId);
+    return service
+      ? [{ serviceId: service.id, name: service.name, price: service.price, qty, durationMinutes: parseDuration(service.duration) }]
+      : [];
+  });
+}
@@ -0,0 +1,18 @@
+import type { Category, Service } from '@/types/salon';
+
+/** Categories at least one of `services` is listed under, in catalog order. */
+export const categoriesOffered = (services: Service[], categories: Category[]) =>
+  categories.filter((c) => services.some((s) => s.categoryIds.includes(c.id)));
+
+/**
+ * The cheapest service in `categoryId` at each salon that has one, keyed by salon id.
+ * Salons with nothing in the category are left out, so the keys are also the salons to show.
+ */
+export function lowestCategoryPrices(services: Service[], categoryId: string): Record<string, number> {
+  const prices: Record<string, number> = {};
+  for (const service of services) {
+    if (!service.categoryIds.includes(categoryId)) continue;
+    prices[service.salonId] = Math.min(prices[service.salonId] ?? Infinity, service.price);
+  }
+  return prices;
+}
@@ -0,0 +1,51 @@
+import type { LatLng, Salon } from '@/types/salon';
+import { distanceKm } from '@/lib/geo';
+
+export interface SavedSalon {
+  salonId: string;
+  /** ISO timestamp, for showing the latest saves first. */
+  savedAt: string;
+}
+
+export type SavedSort = 'recent' | 'rating' | 'distance' | 'name';
+
+export const SAVED_SORT_LABELS: Record<SavedSort, string> = {
+  recent: 'Recently saved',
+  rating: 'Rating',
+  distance: 'Distance',
+  name: 'Name',
+};
+
+export const isSaved = (saved: SavedSalon[], salonId: string) => saved.some((s) => s.salonId === salonId);
+
+/** Saves the salon at the top of the list, or unsaves it if it's already there. */
+export function toggleSaved(saved: SavedSalon[], salonId: string, now = new Date()): SavedSalon[] {
+  return isSaved(saved, salonId) ? removeSaved(saved, salonId) : [{ salonId, savedAt: now.toISOString() }, ...saved];
+}
+
+export const removeSaved = (saved: SavedSalon[], salonId: string) => saved.filter((s) => s.salonId !== salonId);
+
+/** Puts a removed save back in its original place among the current saves; a no-op if it's been saved again since. */
+export const restoreSaved = (saved: SavedSalon[], entry: SavedSalon) =>
+  isSaved(saved, entry.salonId) ? saved : [...saved, entry].sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+
+/**
+ * The saved salons that still exist in the catalog, in the chosen order. Without `origin`,
+ * sorting by distance keeps the latest saves first.
+ */
+export function sortSavedSalons(salons: Salon[], saved: SavedSalon[], sort: SavedSort, origin?: LatLng): Salon[] {
+  const byId = new Map(salons.map((s) => [s.id, s]));
+  const kept = saved.map((s) => byId.get(s.salonId)).filter(Boolean);
+  switch (sort) {
+    case 'recent':
+      return kept;
+    case 'rating':
+      return kept.sort((a, b) => b.rating - a.rating || b.reviewCount - a.reviewCount);
+    case 'distance': {
+      const km = (s: Salon) => distanceKm(s.coordinates, origin);
+      return kept.sort((a, b) => km(a) - km(b) || 0);
+    }
+    case 'name':
+      return kept.sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
@@ -0,0 +1,177 @@
+import type { LatLng, Promotion, Salon } from '@/types/salon';
+import { distanceKm } from '@/lib/geo';
+import { getOpenStatus } from '@/lib/openingHours';
+import { getSalonPromotion } from '@/lib/promotions';
+import type { SalonSearchResult } from '@/lib/search';
+
+export type SortOption = 'relevance' | 'distance' | 'rating' | 'price';
+export type ClienteleFilter = 'men' | 'women';
+
+export interface SalonFilters {
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  maxDistanceKm?: number;
+  openNow?: boolean;
+  /** Salons must carry every one of these tags. */
+  tags: string[];
+  serves?: ClienteleFilter;
+  offersOnly?: boolean;
+  /** Category id. Picked from the category row rather than the sheet, so it gets no chip. */
+  category?: string;
+  sort: SortOption;
+}
+
+export interface FilterContext {
+  promotions: Promotion[];
+  /** Category ids each salon offers, keyed by salon id. */
+  salonCategories?: Record<string, string[]>;
+  /** Where the customer is. Without it no salon is within any distance, and sorting by distance keeps the order. */
+  origin?: LatLng;
+  now?: Date;
+}
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  /** The filters with just this one removed. */
+  remove: (filters: SalonFilters) => SalonFilters;
+}
+
+export const DEFAULT_FILTERS: SalonFilters = { tags: [], sort: 'relevance' };
+
+export const SORT_LABELS: Record<SortOption, string> = {
+  relevance: 'Relevance',
+  distance: 'Distance',
+  rating: 'Rating',
+  price: 'Price: Low to High',
+};
+
+export const FILTER_TAGS = ['AC', 'Verified', 'Premium'];
+
+// Price slider bounds; the top step means "no upper limit"
+export const PRICE_RANGE = { min: 0, max: 1000, step: 50 };
+
+export const RATING_OPTIONS = [3.5, 4, 4.5];
+export const DISTANCE_OPTIONS = [1, 2, 5];
+
+const SORTS: SortOption[] = ['relevance', 'distance', 'rating', 'price'];
+
+const toNumber = (value: string | null) => {
+  if (value === null || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/**
+ * Reads filters from the URL. Unknown or malformed values are ignored rather than
+ * rejected, so an old or hand-edited link still opens with whatever made sense.
+ */
+export function parseFilters(params: URLSearchParams): SalonFilters {
+  const [minPrice, maxPrice] = (params.get('price') ?? '').split('-').map((p) => toNumber(p));
+  const sort = params.get('sort') as SortOption;
+  const serves = params.get('for');
+  return {
+    minPrice,
+    maxPrice,
+    minRating: toNumber(params.get('rating')),
+    maxDistanceKm: toNumber(params.get('within')),
+    openNow: params.get('open') === '1' || undefined,
+    tags: (params.get('tags') ?? '').split(',').filter((t) => FILTER_TAGS.includes(t)),
+    serves: serves === 'men' || serves === 'women' ? serves : undefined,
+    offersOnly: params.get('offers') === '1' || undefined,
+    category: params.get('category') || undefined,
+    sort: SORTS.includes(sort) ? sort : 'relevance',
+  };
+}
+
+/** Writes `filters` over `params`, leaving unrelated parameters (such as the query) alone. */
+export function writeFilters(params: URLSearchParams, filters: SalonFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string | undefined) => (value ? next.set(key, value) : next.delete(key));
+  const hasPrice = filters.minPrice !== undefined || filters.maxPrice !== undefined;
+  set('price', hasPrice ? `${filters.minPrice ?? ''}-${filters.maxPrice ?? ''}` : undefined);
+  set('rating', filters.minRating?.toString());
+  set('within', filters.maxDistanceKm?.toString());
+  set('open', filters.openNow ? '1' : undefined);
+  set('tags', filters.tags.join(','));
+  set('for', filters.serves);
+  set('offers', filters.offersOnly ? '1' : undefined);
+  set('category', filters.category);
+  set('sort', filters.sort === 'relevance' ? undefined : filters.sort);
+  return next;
+}
+
+/** The price a result is judged by: the matched service when the search named one, else the salon's starting price. */
+export const resultPrice = (result: SalonSearchResult) => result.services[0]?.price ?? result.salon.startingPrice;
+
+export const servesClientele = (salon: Salon, serves: ClienteleFilter | undefined) =>
+  !serves || salon.clientele === 'unisex' || salon.clientele === serves;
+
+export function matchesFilters(result: SalonSearchResult, filters: SalonFilters, context: FilterContext): boolean {
+  const { salon } = result;
+  const price = resultPrice(result);
+  if (filters.minPrice !== undefined && price < filters.minPrice) return false;
+  if (filters.maxPrice !== undefined && price > filters.maxPrice) return false;
+  if (filters.minRating !== undefined && salon.rating < filters.minRating) return false;
+  if (filters.maxDistanceKm !== undefined && distanceKm(salon.coordinates, context.origin) > filters.maxDistanceKm) return false;
+  if (filters.openNow && !getOpenStatus(salon.hours, context.now).isOpen) return false;
+  if (!filters.tags.every((t) => salon.tags.includes(t))) return false;
+  if (!servesClientele(salon, filters.serves)) return false;
+  if (filters.offersOnly && !getSalonPromotion(context.promotions, salon.id, context.now)) return false;
+  if (filters.category && !context.salonCategories?.[salon.id]?.includes(filters.category)) return false;
+  return true;
+}
+
+/** Filters, then re-sorts unless relevance was asked for, in which case the incoming order stands. */
+export function applyFilters(results: SalonSearchResult[], filters: SalonFilters, context: FilterContext): SalonSearchResult[] {
+  const kept = results.filter((r) => matchesFilters(r, filters, context));
+  switch (filters.sort) {
+    case 'relevance':
+      return kept;
+    case 'distance': {
+      const km = (r: SalonSearchResult) => distanceKm(r.salon.coordinates, context.origin);
+      return kept.sort((a, b) => km(a) - km(b) || 0);
+    }
+    case 'rating':
+      return kept.sort((a, b) => b.salon.rating - a.salon.rating || b.salon.reviewCount - a.salon.reviewCount);
+    case 'price':
+      return kept.sort((a, b) => resultPrice(a) - resultPrice(b));
+  }
+}
+
+/** One removable chip per active filter, in the order the sheet lists them. */
+export function activeFilterChips(filters: SalonFilters): FilterChip[] {
+  const chips: FilterChip[] = [];
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    const label =
+      filters.maxPrice === undefined
+        ? `₹${filters.minPrice}+`
+        : filters.minPrice === undefined
+          ? `Under ₹${filters.maxPrice}`
+          : `₹${filters.minPrice}–₹${filters.maxPrice}`;
+    chips.push({ key: 'price', label, remove: (f) => ({ ...f, minPrice: undefined, maxPrice: undefined }) });
+  }
+  if (filters.minRating !== undefined) {
+    chips.push({ key: 'rating', label: `${filters.minRating}+ ★`, remove: (f) => ({ ...f, minRating: undefined }) });
+  }
+  if (filters.maxDistanceKm !== undefined) {
+    chips.push({ key: 'distance', label: `Within ${filters.maxDistanceKm} km`, remove: (f) => ({ ...f, maxDistanceKm: undefined }) });
+  }
+  if (filters.openNow) chips.push({ key: 'open', label: 'Open now', remove: (f) => ({ ...f, openNow: undefined }) });
+  for (const tag of filters.tags) {
+    chips.push({ key: `tag:${tag}`, label: tag, remove: (f) => ({ ...f, tags: f.tags.filter((t) => t !== tag) }) });
+  }
+  if (filters.serves) {
+    chips.push({
+      key: 'serves',
+      label: filters.serves === 'men' ? 'For men' : 'For women',
+      remove: (f) => ({ ...f, serves: undefined }),
+    });
+  }
+  if (filters.offersOnly) chips.push({ key: 'offers', label: 'Offers', remove: (f) => ({ ...f, offersOnly: undefined }) });
+  if (filters.sort !== 'relevance') {
+    chips.push({ key: 'sort', label: `Sort: ${SORT_LABELS[filters.sort]}`, remove: (f) => ({ ...f, sort: 'relevance' }) });
+  }
+  return chips;
+}
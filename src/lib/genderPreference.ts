@@ -0,0 +1,49 @@
+import type { Category, GenderPreference, Salon, Service } from '@/types/salon';
+import { categoriesOffered } from '@/lib/categories';
+import { servesClientele } from '@/lib/filters';
+
+export const GENDER_OPTIONS: { value: GenderPreference; label: string }[] = [
+  { value: 'men', label: 'Men' },
+  { value: 'women', label: 'Women' },
+  { value: 'everyone', label: 'Everyone' },
+];
+
+/** Reads a stored preference, including the 'male' / 'female' values earlier versions saved. */
+export function parseGenderPreference(value: string | null | undefined): GenderPreference {
+  if (value === 'men' || value === 'male') return 'men';
+  if (value === 'women' || value === 'female') return 'women';
+  return 'everyone';
+}
+
+export const servesPreference = (salon: Salon, preference: GenderPreference) =>
+  servesClientele(salon, preference === 'everyone' ? undefined : preference);
+
+/** Packages are for anyone; otherwise a service has to be on the customer's side of the menu. */
+export const suitsPreference = (service: Service, preference: GenderPreference) =>
+  preference === 'everyone' || service.category === 'packages' || service.category === preference;
+
+/** Categories with at least one suitable service at a salon that serves the customer. */
+export function categoriesForPreference(
+  categories: Category[],
+  salons: Salon[],
+  services: Service[],
+  preference: GenderPreference,
+): Category[] {
+  const served = new Set(salons.filter((s) => servesPreference(s, preference)).map((s) => s.id));
+  return categoriesOffered(
+    services.filter((s) => served.has(s.salonId) && suitsPreference(s, preference)),
+    categories,
+  );
+}
+
+/** Salons that serve the customer; those dedicated to them come first, then the best rated. */
+export const suggestForPreference = (salons: Salon[], preference: GenderPreference) =>
+  salons
+    .filter((s) => servesPreference(s, preference))
+    .sort((a, b) => Number(b.clientele === preference) - Number(a.clientele === preference) || b.rating - a.rating);
+
+/** The service tab a salon page opens on: the customer's side of the menu, or the first one the salon fills. */
+export function preferredServiceTab(services: Service[], preference: GenderPreference): Service['category'] {
+  const order: Service['category'][] = preference === 'women' ? ['women', 'men', 'packages'] : ['men', 'women', 'packages'];
+  return order.find((tab) => services.some((s) => s.category === tab)) ?? order[0];
+}
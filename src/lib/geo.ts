@@ -0,0 +1,74 @@
+import type { LatLng } from '@/types/salon';
+
+const EARTH_RADIUS_KM = 6371;
+
+// How far from a locality's centre a GPS fix still counts as being in it
+export const LOCALITY_RADIUS_KM = 3;
+// How far out from the centre a city's salons still make sense to show
+export const CITY_RADIUS_KM = 40;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance. Salons are a short drive apart, so the spherical-earth error doesn't matter. */
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/** Kilometres to `to`, or Infinity when where the customer is isn't known. */
+export const distanceKm = (to: LatLng, from: LatLng | undefined) => (from ? haversineKm(from, to) : Infinity);
+
+/** Initial compass bearing from `a` to `b`, in radians clockwise from north. */
+export function bearing(a: LatLng, b: LatLng): number {
+  const dLng = toRadians(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(toRadians(b.lat));
+  const x =
+    Math.cos(toRadians(a.lat)) * Math.sin(toRadians(b.lat)) -
+    Math.sin(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.cos(dLng);
+  return Math.atan2(y, x);
+}
+
+/** 0.43 → '430 m', 2.345 → '2.3 km', 14.6 → '15 km'. */
+export function formatDistance(km: number): string {
+  if (!Number.isFinite(km)) return '';
+  if (km < 1) return `${Math.max(10, Math.round((km * 1000) / 10) * 10)} m`;
+  if (km < 10) return `${km.toFixed(1)} km`;
+  return `${Math.round(km)} km`;
+}
+
+/** The closest of `places` to a position, or null when none is within `withinKm`. */
+export function nearestPlace<T extends { coordinates: LatLng }>(position: LatLng, places: T[], withinKm: number): T | null {
+  let nearest: T | null = null;
+  let best = withinKm;
+  for (const place of places) {
+    const km = haversineKm(position, place.coordinates);
+    if (km <= best) {
+      nearest = place;
+      best = km;
+    }
+  }
+  return nearest;
+}
+
+const POSITION_ERRORS: Record<number, string> = {
+  1: 'Location access is turned off for this site',
+  2: "Your location couldn't be found",
+  3: 'Finding your location took too long',
+};
+
+/** Asks the browser where the customer is. Rejects with a message fit to show them. */
+export function getCurrentPosition(timeoutMs = 10_000): Promise<LatLng> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new Error("This browser can't share your location"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      (error) => reject(new Error(POSITION_ERRORS[error.code] ?? "Your location couldn't be found")),
+      { enableHighAccuracy: false, timeout: timeoutMs, maximumAge: 5 * 60_000 },
+    );
+  });
+}
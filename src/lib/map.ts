@@ -0,0 +1,176 @@
+import type { Bounds, LatLng } from '@/types/salon';
+
+/**
+ * Web Mercator maths for the salon map. The map is drawn as SVG from bundled GeoJSON rather than
+ * fetched tiles, so it works offline; this module turns coordinates into pixels and back.
+ */
+
+const TILE_SIZE = 256;
+// Beyond this the Mercator y runs off to infinity
+const MAX_LATITUDE = 85.05112878;
+
+export const MIN_ZOOM = 3;
+export const MAX_ZOOM = 17;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/** What the map is looking at: the coordinate in the middle of the screen, and how far in. */
+export interface Viewport {
+  center: LatLng;
+  zoom: number;
+}
+
+/** GeoJSON positions are [longitude, latitude]. */
+export type Position = [number, number];
+
+export type MapGeometry =
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'Polygon'; coordinates: Position[][] };
+
+export type MapFeatureKind = 'water' | 'park' | 'road' | 'highway';
+
+export interface MapFeature {
+  type: 'Feature';
+  properties: { kind: MapFeatureKind; name?: string };
+  geometry: MapGeometry;
+}
+
+export interface MapFeatureCollection {
+  type: 'FeatureCollection';
+  features: MapFeature[];
+}
+
+export interface Cluster<T> {
+  /** Stable while the same items stay together, so React keeps the marker. */
+  key: string;
+  /** Where the marker goes: the middle of its items. */
+  coordinates: LatLng;
+  items: T[];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clampZoom = (zoom: number) => clamp(zoom, MIN_ZOOM, MAX_ZOOM);
+
+const worldSize = (zoom: number) => TILE_SIZE * 2 ** zoom;
+
+/** Pixel position on the whole world at `zoom`, with (0, 0) at the top-left. */
+export function project(point: LatLng, zoom: number): Point {
+  const size = worldSize(zoom);
+  const sin = Math.sin((clamp(point.lat, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI) / 180);
+  return {
+    x: ((point.lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+export function unproject(point: Point, zoom: number): LatLng {
+  const size = worldSize(zoom);
+  const n = Math.PI - (2 * Math.PI * point.y) / size;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (point.x / size) * 360 - 180,
+  };
+}
+
+/** Where a coordinate lands on a screen of `size` showing `viewport`. */
+export function toScreen(point: LatLng, viewport: Viewport, size: Size): Point {
+  const p = project(point, viewport.zoom);
+  const c = project(viewport.center, viewport.zoom);
+  return { x: p.x - c.x + size.width / 2, y: p.y - c.y + size.height / 2 };
+}
+
+export function fromScreen(point: Point, viewport: Viewport, size: Size): LatLng {
+  const c = project(viewport.center, viewport.zoom);
+  return unproject({ x: c.x + point.x - size.width / 2, y: c.y + point.y - size.height / 2 }, viewport.zoom);
+}
+
+/** The stretch of the world the screen shows. */
+export function viewportBounds(viewport: Viewport, size: Size): Bounds {
+  const topLeft = fromScreen({ x: 0, y: 0 }, viewport, size);
+  const bottomRight = fromScreen({ x: size.width, y: size.height }, viewport, size);
+  return { north: topLeft.lat, west: topLeft.lng, south: bottomRight.lat, east: bottomRight.lng };
+}
+
+export const withinBounds = (point: LatLng, bounds: Bounds) =>
+  point.lat <= bounds.north && point.lat >= bounds.south && point.lng >= bounds.west && point.lng <= bounds.east;
+
+/** Moves the map by a drag of `dx`, `dy` pixels; dragging right shows what's to the west. */
+export function panBy(viewport: Viewport, dx: number, dy: number): Viewport {
+  const c = project(viewport.center, viewport.zoom);
+  return { ...viewport, center: unproject({ x: c.x - dx, y: c.y - dy }, viewport.zoom) };
+}
+
+/** Zooms to `zoom` keeping whatever is under `anchor` (the screen centre by default) where it is. */
+export function zoomTo(viewport: Viewport, zoom: number, size: Size, anchor?: Point): Viewport {
+  const nextZoom = clampZoom(zoom);
+  if (!anchor) return { ...viewport, zoom: nextZoom };
+  const under = fromScreen(anchor, viewport, size);
+  const p = project(under, nextZoom);
+  return {
+    zoom: nextZoom,
+    center: unproject({ x: p.x - anchor.x + size.width / 2, y: p.y - anchor.y + size.height / 2 }, nextZoom),
+  };
+}
+
+/** The closest view that shows every point with `padding` pixels to spare, no closer than `maxZoom`. */
+export function fitViewport(points: LatLng[], size: Size, padding = 48, maxZoom = 15): Viewport | null {
+  if (points.length === 0 || size.width === 0 || size.height === 0) return null;
+  const projected = points.map((p) => project(p, 0));
+  const xs = projected.map((p) => p.x);
+  const ys = projected.map((p) => p.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const fitX = (size.width - padding * 2) / Math.max(maxX - minX, 1e-9);
+  const fitY = (size.height - padding * 2) / Math.max(maxY - minY, 1e-9);
+  return {
+    center: unproject({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, 0),
+    zoom: clampZoom(Math.min(maxZoom, Math.log2(Math.max(Math.min(fitX, fitY), 1e-9)))),
+  };
+}
+
+/**
+ * Groups items whose markers would overlap on screen. Items are taken in order, so the first
+ * (best ranked) item of each group decides where the group sits.
+ */
+export function clusterPoints<T extends { id: string; coordinates: LatLng }>(
+  items: T[],
+  viewport: Viewport,
+  size: Size,
+  radiusPx = 36,
+): Cluster<T>[] {
+  const groups: { anchor: Point; items: T[] }[] = [];
+  for (const item of items) {
+    const p = toScreen(item.coordinates, viewport, size);
+    const group = groups.find((g) => Math.hypot(g.anchor.x - p.x, g.anchor.y - p.y) <= radiusPx);
+    if (group) group.items.push(item);
+    else groups.push({ anchor: p, items: [item] });
+  }
+  return groups.map(({ items: members }) => ({
+    key: members.map((m) => m.id).join('+'),
+    coordinates: {
+      lat: members.reduce((sum, m) => sum + m.coordinates.lat, 0) / members.length,
+      lng: members.reduce((sum, m) => sum + m.coordinates.lng, 0) / members.length,
+    },
+    items: members,
+  }));
+}
+
+/** SVG path data for a feature, in screen pixels. */
+export function geometryPath(geometry: MapGeometry, viewport: Viewport, size: Size): string {
+  const line = (positions: Position[]) =>
+    positions
+      .map(([lng, lat], i) => {
+        const { x, y } = toScreen({ lat, lng }, viewport, size);
+        return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join('');
+  return geometry.type === 'LineString' ? line(geometry.coordinates) : geometry.coordinates.map((ring) => `${line(ring)}Z`).join('');
+}
@@ -0,0 +1,91 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { HoursException, OpeningHours, TimeInterval, Weekday } from '@/types/salon';
+import { formatShortTime, formatTime, toDateKey, toMinutes } from '@/lib/time';
+
+/** Indexed by `Date#getDay()`. */
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  sun: 'Sun', mon: 'Mon', tue: 'Tue', wed: 'Wed', thu: 'Thu', fri: 'Fri', sat: 'Sat',
+};
+
+// How far ahead to look for the next opening before giving up
+const LOOKAHEAD_DAYS = 14;
+
+export interface OpenStatus {
+  isOpen: boolean;
+  label: 'Open Now' | 'Closed';
+  /** e.g. 'Closes at 8 PM', 'Opens tomorrow 10 AM'. */
+  detail: string | null;
+}
+
+export interface HoursRow {
+  days: string;
+  hours: string;
+}
+
+/** Intervals for a calendar day, with holiday and special-hours exceptions applied. */
+export function getIntervalsForDate(hours: OpeningHours, date: Date): TimeInterval[] {
+  const exception = hours.exceptions?.find((e) => e.date === toDateKey(date));
+  return exception ? exception.intervals : hours.weekly[WEEKDAYS[date.getDay()]];
+}
+
+export const isClosedOn = (hours: OpeningHours, date: Date) => getIntervalsForDate(hours, date).length === 0;
+
+export function getOpenStatus(hours: OpeningHours, now = new Date()): OpenStatus {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const today = getIntervalsForDate(hours, now);
+
+  const current = today.find((i) => minutes >= toMinutes(i.opensAt) && minutes < toMinutes(i.closesAt));
+  if (current) return { isOpen: true, label: 'Open Now', detail: `Closes at ${formatShortTime(current.closesAt)}` };
+
+  const laterToday = today.find((i) => toMinutes(i.opensAt) > minutes);
+  if (laterToday) return { isOpen: false, label: 'Closed', detail: `Opens at ${formatShortTime(laterToday.opensAt)}` };
+
+  for (let offset = 1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const day = addDays(now, offset);
+    const [first] = getIntervalsForDate(hours, day);
+    if (!first) continue;
+    const when = offset === 1 ? 'tomorrow' : offset < 7 ? format(day, 'EEE') : format(day, 'MMM d');
+    return { isOpen: false, label: 'Closed', detail: `Opens ${when} ${formatShortTime(first.opensAt)}` };
+  }
+  return { isOpen: false, label: 'Closed', detail: null };
+}
+
+const describeIntervals = (intervals: TimeInterval[]) =>
+  intervals.length === 0
+    ? 'Closed'
+    : intervals.map((i) => `${formatTime(i.opensAt)} – ${formatTime(i.closesAt)}`).join(', ');
+
+/** Weekly hours collapsed into Mon-first rows, merging consecutive days with identical hours. */
+export function summarizeWeeklyHours(hours: OpeningHours): HoursRow[] {
+  const order: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+  const rows: { from: Weekday; to: Weekday; hours: string }[] = [];
+
+  for (const day of order) {
+    const text = describeIntervals(hours.weekly[day]);
+    const last = rows[rows.length - 1];
+    if (last && last.hours === text) last.to = day;
+    else rows.push({ from: day, to: day, hours: text });
+  }
+
+  return rows.map(({ from, to, hours: text }) => ({
+    days: from === to ? WEEKDAY_LABELS[from] : `${WEEKDAY_LABELS[from]} – ${WEEKDAY_LABELS[to]}`,
+    hours: text,
+  }));
+}
+
+export interface UpcomingException extends HoursException {
+  label: string;
+  hoursText: string;
+}
+
+export function getUpcomingExceptions(hours: OpeningHours, from = new Date(), withinDays = 30): UpcomingException[] {
+  return (hours.exceptions ?? [])
+    .filter((e) => {
+      const diff = differenceInCalendarDays(parseISO(e.date), from);
+      return diff >= 0 && diff <= withinDays;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((e) => ({ ...e, label: format(parseISO(e.date), 'EEE, MMM d'), hoursText: describeIntervals(e.intervals) }));
+}
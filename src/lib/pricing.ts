@@ -0,0 +1,167 @@
+import type { AppliedDiscount, Booking, BookingItem, PriceBreakdown } from '@/types/salon';
+
+/** Salon services attract 18% GST. The service happens at the salon, so it is always intra-state: half CGST, half SGST. */
+export const GST_RATE = 18;
+export const CGST_RATE = GST_RATE / 2;
+export const SGST_RATE = GST_RATE / 2;
+
+/** SAC heading for beauty and physical well-being services. */
+export const SALON_SAC = '9997';
+
+export interface PricedLine {
+  serviceId: string;
+  name: string;
+  qty: number;
+  unitPrice: number;
+  /** unitPrice × qty */
+  gross: number;
+  /** This line's share of the order discount. */
+  discount: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  total: number;
+}
+
+export interface PriceQuote {
+  lines: PricedLine[];
+  subtotal: number;
+  discount: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  tax: number;
+  /** Brings the payable amount to a whole rupee. */
+  roundOff: number;
+  total: number;
+}
+
+// All arithmetic happens in integer paise so rupee fractions never drift
+const toPaise = (rupees: number) => Math.round(rupees * 100);
+const toRupees = (paise: number) => paise / 100;
+const sum = (values: number[]) => values.reduce((t, v) => t + v, 0);
+
+/**
+ * Splits an integer `total` in proportion to `weights`. Leftover units go to the
+ * largest remainders, so the parts always add back up to exactly `total`.
+ */
+export function allocate(total: number, weights: number[]): number[] {
+  const weightSum = sum(weights);
+  if (weightSum === 0) return weights.map(() => 0);
+  const exact = weights.map((w) => (total * w) / weightSum);
+  const parts = exact.map(Math.floor);
+  let leftover = total - sum(parts);
+  const byRemainder = exact.map((e, i) => ({ i, remainder: e - parts[i] })).sort((a, b) => b.remainder - a.remainder);
+  for (const { i } of byRemainder) {
+    if (leftover <= 0) break;
+    parts[i] += 1;
+    leftover -= 1;
+  }
+  return parts;
+}
+
+/**
+ * Prices a cart line by line: the discount is spread across lines by value, GST is
+ * charged on each line's discounted value and rounded to the paisa, and only the
+ * grand total is rounded to the rupee.
+ */
+export function quotePrice(items: BookingItem[], discount?: AppliedDiscount): PriceQuote {
+  const gross = items.map((i) => toPaise(i.price * i.qty));
+  const discountTotal = Math.min(toPaise(discount?.amount ?? 0), sum(gross));
+  const shares = allocate(discountTotal, gross);
+
+  const paiseLines = items.map((item, i) => {
+    const taxableValue = gross[i] - shares[i];
+    const cgst = Math.round((taxableValue * CGST_RATE) / 100);
+    const sgst = Math.round((taxableValue * SGST_RATE) / 100);
+    return { item, gross: gross[i], discount: shares[i], taxableValue, cgst, sgst, total: taxableValue + cgst + sgst };
+  });
+
+  const exactTotal = sum(paiseLines.map((l) => l.total));
+  const total = Math.round(exactTotal / 100) * 100;
+  const cgst = sum(paiseLines.map((l) => l.cgst));
+  const sgst = sum(paiseLines.map((l) => l.sgst));
+
+  return {
+    lines: paiseLines.map((l) => ({
+      serviceId: l.item.serviceId,
+      name: l.item.name,
+      qty: l.item.qty,
+      unitPrice: l.item.price,
+      gross: toRupees(l.gross),
+      discount: toRupees(l.discount),
+      taxableValue: toRupees(l.taxableValue),
+      cgst: toRupees(l.cgst),
+      sgst: toRupees(l.sgst),
+      total: toRupees(l.total),
+    })),
+    subtotal: toRupees(sum(gross)),
+    discount: toRupees(discountTotal),
+    taxableValue: toRupees(sum(paiseLines.map((l) => l.taxableValue))),
+    cgst: toRupees(cgst),
+    sgst: toRupees(sgst),
+    tax: toRupees(cgst + sgst),
+    roundOff: toRupees(total - exactTotal),
+    total: toRupees(total),
+  };
+}
+
+/** The summary stored on a booking. */
+export function priceBooking(items: BookingItem[], discount?: AppliedDiscount): PriceBreakdown {
+  const quote = quotePrice(items, discount);
+  return {
+    subtotal: quote.subtotal,
+    ...(discount && { discount: { ...discount, amount: quote.discount } }),
+    tax: quote.tax,
+    roundOff: quote.roundOff,
+    total: quote.total,
+  };
+}
+
+/** '₹824' for whole rupees, '₹125.64' otherwise. */
+export const formatRupees = (amount: number) => `₹${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+
+/** Invoice columns always show paise: 1234.5 → '1,234.50'. */
+export const formatInvoiceAmount = (amount: number) =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** Indian financial year, April to March: Oct 2026 → '26-27', Feb 2027 → '26-27'. */
+export function financialYear(date: Date): string {
+  const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${String(start % 100).padStart(2, '0')}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+// GST rules cap invoice numbers at 16 characters
+export const MAX_INVOICE_NUMBER_LENGTH = 16;
+
+/**
+ * Next number in the salon's series for the financial year, e.g. '3/26-27/00042'.
+ * GST rules require consecutive numbers, unique per year, of at most 16 characters;
+ * throws rather than issue a longer one.
+ */
+export function nextInvoiceNumber(bookings: Booking[], salonId: string, issuedAt = new Date()): string {
+  const series = `${salonId}/${financialYear(issuedAt)}/`;
+  const last = bookings
+    .map((b) => b.invoice?.number)
+    .filter((n) => n?.startsWith(series))
+    .reduce((max, n) => Math.max(max, Number(n.slice(series.length)) || 0), 0);
+  const number = `${series}${String(last + 1).padStart(5, '0')}`;
+  if (number.length > MAX_INVOICE_NUMBER_LENGTH) {
+    throw new Error(`Invoice number ${number} is longer than ${MAX_INVOICE_NUMBER_LENGTH} characters`);
+  }
+  return number;
+}
+
+const GST_STATES: Record<string, string> = {
+  '07': 'Delhi',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '33': 'Tamil Nadu',
+  '36': 'Telangana',
+};
+
+/** A GSTIN starts with the two-digit state code, e.g. '29' → 'Karnataka (29)'. */
+export function placeOfSupply(gstin: string): string {
+  const code = gstin.slice(0, 2);
+  return GST_STATES[code] ? `${GST_STATES[code]} (${code})` : code;
+}
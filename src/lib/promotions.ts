@@ -0,0 +1,123 @@
+import { differenceInCalendarDays, format, isWeekend, parseISO } from 'date-fns';
+import type { AppliedDiscount, Booking, BookingItem, Promotion, PromotionReward } from '@/types/salon';
+import { BOOKING_STATUS_META } from '@/lib/bookingLifecycle';
+import { toDateKey } from '@/lib/time';
+
+export interface PromotionContext {
+  salonId: string;
+  items: BookingItem[];
+  /** Appointment day, 'yyyy-MM-dd'. */
+  date: string;
+  /** The customer's own bookings, for first-visit and per-customer limits. */
+  customerBookings: Booking[];
+  now?: Date;
+}
+
+/** Either `discount` (valid) or a customer-facing `reason` (rejected) is set. */
+export interface PromotionResult {
+  valid: boolean;
+  discount?: AppliedDiscount;
+  reason?: string;
+}
+
+export const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+export const findPromotion = (promotions: Promotion[], code: string) =>
+  promotions.find((p) => p.code === normalizeCode(code));
+
+export const cartSubtotal = (items: BookingItem[]) => items.reduce((t, i) => t + i.price * i.qty, 0);
+
+const cartUnits = (items: BookingItem[]) => items.reduce((t, i) => t + i.qty, 0);
+
+// Cancelled bookings were never visits, and give back any code they used
+const isVisit = (booking: Booking) => BOOKING_STATUS_META[booking.status].group !== 'cancelled';
+
+const shortDate = (key: string) => format(parseISO(key), 'MMM d');
+
+function rewardAmount(reward: PromotionReward, items: BookingItem[]): number {
+  const subtotal = cartSubtotal(items);
+  switch (reward.type) {
+    case 'percentage': {
+      const amount = Math.round((subtotal * reward.percent) / 100);
+      return reward.maxDiscount === undefined ? amount : Math.min(amount, reward.maxDiscount);
+    }
+    case 'flat':
+      return Math.min(reward.amount, subtotal);
+    case 'bogo': {
+      // Cheapest units go free so the customer can't game it with one pricey add-on
+      const prices = items.flatMap((i) => Array<number>(i.qty).fill(i.price)).sort((a, b) => a - b);
+      const freeUnits = Math.floor(prices.length / (reward.buy + reward.free)) * reward.free;
+      return prices.slice(0, freeUnits).reduce((t, p) => t + p, 0);
+    }
+  }
+}
+
+/** Checks every rule in the order a customer can act on them and returns the first failure. */
+export function evaluatePromotion(promotion: Promotion, context: PromotionContext): PromotionResult {
+  const { rules, reward } = promotion;
+  const reject = (reason: string): PromotionResult => ({ valid: false, reason });
+  const today = toDateKey(context.now ?? new Date());
+  const subtotal = cartSubtotal(context.items);
+
+  if (rules.startsOn && today < rules.startsOn) return reject(`This code can be used from ${shortDate(rules.startsOn)}`);
+  if (rules.expiresOn && today > rules.expiresOn) return reject(`This code expired on ${shortDate(rules.expiresOn)}`);
+  if (rules.totalUses !== undefined && promotion.redemptions >= rules.totalUses) {
+    return reject('This offer has been fully claimed');
+  }
+  if (rules.salonIds && !rules.salonIds.includes(context.salonId)) return reject("This code isn't valid at this salon");
+
+  const visits = context.customerBookings.filter(isVisit);
+  if (rules.firstVisit === 'app' && visits.length > 0) return reject('This code is only for your first booking');
+  if (rules.firstVisit === 'salon' && visits.some((b) => b.salonId === context.salonId)) {
+    return reject('This code is only for your first visit to this salon');
+  }
+  if (rules.usesPerCustomer !== undefined) {
+    const used = visits.filter((b) => b.price.discount?.code === promotion.code).length;
+    if (used >= rules.usesPerCustomer) {
+      return reject(rules.usesPerCustomer === 1 ? "You've already used this code" : `You've used this code ${used} times, the maximum allowed`);
+    }
+  }
+
+  if (rules.weekendOnly && !isWeekend(parseISO(context.date))) return reject('This code is only valid for Saturday or Sunday appointments');
+  if (rules.minCartValue !== undefined && subtotal < rules.minCartValue) {
+    return reject(`Add ₹${rules.minCartValue - subtotal} more to use this code (minimum ₹${rules.minCartValue})`);
+  }
+  if (reward.type === 'bogo') {
+    const needed = reward.buy + reward.free - cartUnits(context.items);
+    if (needed > 0) return reject(`Add ${needed} more service${needed > 1 ? 's' : ''} to get ${reward.free} free`);
+  }
+
+  const amount = rewardAmount(reward, context.items);
+  if (amount <= 0) return reject('This code gives no discount on your cart');
+  return { valid: true, discount: { code: promotion.code, label: promotion.title, amount } };
+}
+
+/** Looks up a typed code and evaluates it; unknown or blank codes get their own reasons. */
+export function applyCouponCode(promotions: Promotion[], code: string, context: PromotionContext): PromotionResult {
+  if (!code.trim()) return { valid: false, reason: 'Enter a coupon code' };
+  const promotion = findPromotion(promotions, code);
+  if (!promotion) return { valid: false, reason: `"${normalizeCode(code)}" isn't a valid coupon code` };
+  return evaluatePromotion(promotion, context);
+}
+
+export const isExpired = (promotion: Promotion, now = new Date()) =>
+  !!promotion.rules.expiresOn && toDateKey(now) > promotion.rules.expiresOn;
+
+/** Salon-specific offer to advertise on the salon's cards, if one is running. */
+export const getSalonPromotion = (promotions: Promotion[], salonId: string, now = new Date()) =>
+  promotions.find((p) => p.rules.salonIds?.includes(salonId) && !isExpired(p, now));
+
+/** Offers open to every salon, or to at least one of `salonIds` (e.g. the salons in the customer's city). */
+export const promotionsFor = (promotions: Promotion[], salonIds: string[]) =>
+  promotions.filter((p) => !p.rules.salonIds || p.rules.salonIds.some((id) => salonIds.includes(id)));
+
+/** 'Expires today', 'Expires in 3 days', 'Valid till Dec 31' or null for open-ended offers. */
+export function describeExpiry(promotion: Promotion, now = new Date()): string | null {
+  const { expiresOn } = promotion.rules;
+  if (!expiresOn) return null;
+  const days = differenceInCalendarDays(parseISO(expiresOn), now);
+  if (days < 0) return 'Expired';
+  if (days === 0) return 'Expires today';
+  if (days <= 7) return `Expires in ${days} day${days > 1 ? 's' : ''}`;
+  return `Valid till ${shortDate(expiresOn)}`;
+}
@@ -0,0 +1,369 @@
+/**
+ * A small QR code encoder (ISO/IEC 18004) for the links the app shares: byte mode only, versions
+ * 1–10, which holds up to 213 bytes at the default error correction level. Generated on the device,
+ * so the code shows offline and no link is sent to a third party to draw it.
+ */
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+/** Dark modules are true. Rows first: `modules[y][x]`. */
+export type QrMatrix = boolean[][];
+
+const MAX_VERSION = 10;
+
+// The two bits each level is written as in the format information
+const LEVEL_BITS: Record<ErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Per version 1–10: error correction codewords in each block, and how many blocks
+const ECC_PER_BLOCK: Record<ErrorCorrectionLevel, number[]> = {
+  L: [7, 10, 15, 20, 26, 18, 20, 24, 30, 18],
+  M: [10, 16, 26, 18, 24, 16, 18, 22, 22, 26],
+  Q: [13, 22, 18, 26, 18, 24, 18, 22, 20, 24],
+  H: [17, 28, 22, 16, 22, 28, 26, 26, 24, 28],
+};
+const BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [1, 1, 1, 1, 1, 2, 2, 2, 2, 4],
+  M: [1, 1, 1, 2, 2, 4, 4, 4, 5, 5],
+  Q: [1, 1, 2, 2, 4, 4, 6, 6, 8, 8],
+  H: [1, 1, 2, 4, 4, 4, 5, 6, 8, 8],
+};
+
+const MODE_BYTE = 0b0100;
+const PAD_BYTES = [0xec, 0x11];
+
+const bit = (value: number, i: number) => ((value >>> i) & 1) !== 0;
+
+// --- Reed–Solomon over GF(256), reducing by x^8 + x^4 + x^3 + x^2 + 1 ---
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+/** Coefficients of the generator polynomial of `degree`, highest power first, leading 1 left out. */
+function generatorPolynomial(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/** The error correction codewords for one block of data. */
+export function reedSolomon(data: number[], degree: number): number[] {
+  const generator = generatorPolynomial(degree);
+  const remainder = new Array<number>(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ remainder.shift()!;
+    remainder.push(0);
+    generator.forEach((coefficient, i) => (remainder[i] ^= gfMultiply(coefficient, factor)));
+  }
+  return remainder;
+}
+
+// --- Capacity ---
+
+const sizeOf = (version: number) => version * 4 + 17;
+
+/** Modules left for data once the function patterns are drawn. */
+function rawDataModules(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+}
+
+const dataCodewords = (version: number, level: ErrorCorrectionLevel) =>
+  Math.floor(rawDataModules(version) / 8) - ECC_PER_BLOCK[level][version - 1] * BLOCKS[level][version - 1];
+
+// Byte mode counts characters in 8 bits up to version 9 and 16 after
+const countBits = (version: number) => (version <= 9 ? 8 : 16);
+
+// --- Codewords ---
+
+function dataWithPadding(bytes: Uint8Array, version: number, level: ErrorCorrectionLevel): number[] {
+  const capacityBits = dataCodewords(version, level) * 8;
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(MODE_BYTE, 4);
+  push(bytes.length, countBits(version));
+  bytes.forEach((b) => push(b, 8));
+  push(0, Math.min(4, capacityBits - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) codewords.push(bits.slice(i, i + 8).reduce((byte, b) => (byte << 1) | b, 0));
+  for (let i = 0; codewords.length < capacityBits / 8; i++) codewords.push(PAD_BYTES[i % 2]);
+  return codewords;
+}
+
+/** Splits the data into blocks, adds each block's error correction and interleaves the lot. */
+function interleave(data: number[], version: number, level: ErrorCorrectionLevel): number[] {
+  const blockCount = BLOCKS[level][version - 1];
+  const eccLength = ECC_PER_BLOCK[level][version - 1];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortDataLength = Math.floor(rawCodewords / blockCount) - eccLength;
+
+  const dataBlocks: number[][] = [];
+  const eccBlocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortDataLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    dataBlocks.push(block);
+    eccBlocks.push(reedSolomon(block, eccLength));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortDataLength; i++) {
+    for (const block of dataBlocks) if (i < block.length) result.push(block[i]);
+  }
+  for (let i = 0; i < eccLength; i++) {
+    for (const block of eccBlocks) result.push(block[i]);
+  }
+  return result;
+}
+
+// --- Drawing ---
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = sizeOf(version) - 7; positions.length < count; pos -= step) positions.splice(1, 0, pos);
+  return positions;
+}
+
+/** The 15 format bits: level and mask, BCH-protected and XOR-masked. */
+export function formatBits(level: ErrorCorrectionLevel, mask: number): number {
+  const data = (LEVEL_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+function versionBits(version: number): number {
+  let remainder = version;
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  return (version << 12) | remainder;
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+interface Canvas {
+  size: number;
+  modules: QrMatrix;
+  /** Function patterns and format areas, which codewords and masks skip. */
+  reserved: boolean[][];
+  fixed(x: number, y: number, dark: boolean): void;
+}
+
+function createCanvas(size: number): Canvas {
+  const grid = () => Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const modules = grid();
+  const reserved = grid();
+  return {
+    size,
+    modules,
+    reserved,
+    fixed(x, y, dark) {
+      modules[y][x] = dark;
+      reserved[y][x] = true;
+    },
+  };
+}
+
+function drawFunctionPatterns(canvas: Canvas, version: number) {
+  const { size } = canvas;
+  for (let i = 0; i < size; i++) {
+    canvas.fixed(6, i, i % 2 === 0);
+    canvas.fixed(i, 6, i % 2 === 0);
+  }
+
+  // Finders with their light separators
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const ring = Math.max(Math.abs(dx), Math.abs(dy));
+        canvas.fixed(x, y, ring !== 2 && ring !== 4);
+      }
+    }
+  }
+
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) =>
+    positions.forEach((cy, j) => {
+      // The three corners are taken by the finders
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) canvas.fixed(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }),
+  );
+
+  // Reserve the format areas now; the real bits go in once the mask is chosen
+  drawFormat(canvas, 'M', 0);
+
+  if (version >= 7) {
+    const bits = versionBits(version);
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      canvas.fixed(a, b, bit(bits, i));
+      canvas.fixed(b, a, bit(bits, i));
+    }
+  }
+}
+
+function drawFormat(canvas: Canvas, level: ErrorCorrectionLevel, mask: number) {
+  const { size } = canvas;
+  const bits = formatBits(level, mask);
+  for (let i = 0; i <= 5; i++) canvas.fixed(8, i, bit(bits, i));
+  canvas.fixed(8, 7, bit(bits, 6));
+  canvas.fixed(8, 8, bit(bits, 7));
+  canvas.fixed(7, 8, bit(bits, 8));
+  for (let i = 9; i < 15; i++) canvas.fixed(14 - i, 8, bit(bits, i));
+
+  for (let i = 0; i < 8; i++) canvas.fixed(size - 1 - i, 8, bit(bits, i));
+  for (let i = 8; i < 15; i++) canvas.fixed(8, size - 15 + i, bit(bits, i));
+  canvas.fixed(8, size - 8, true);
+}
+
+/** Lays codewords out in the two-column zigzag from the bottom-right corner. */
+function drawCodewords(canvas: Canvas, codewords: number[]) {
+  const { size } = canvas;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // Column 6 is the vertical timing pattern
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (canvas.reserved[y][x]) continue;
+        if (i < codewords.length * 8) canvas.modules[y][x] = bit(codewords[i >>> 3], 7 - (i & 7));
+        i++;
+      }
+    }
+  }
+}
+
+function applyMask(canvas: Canvas, mask: number) {
+  const test = MASKS[mask];
+  for (let y = 0; y < canvas.size; y++) {
+    for (let x = 0; x < canvas.size; x++) {
+      if (!canvas.reserved[y][x] && test(x, y)) canvas.modules[y][x] = !canvas.modules[y][x];
+    }
+  }
+}
+
+// --- Choosing a mask: lower scores are easier for cameras to read ---
+
+function penalty(modules: QrMatrix): number {
+  const size = modules.length;
+  const at = (x: number, y: number, vertical: boolean) => (vertical ? modules[x][y] : modules[y][x]);
+  let score = 0;
+
+  for (const vertical of [false, true]) {
+    for (let y = 0; y < size; y++) {
+      let run = 1;
+      for (let x = 1; x <= size; x++) {
+        if (x < size && at(x, y, vertical) === at(x - 1, y, vertical)) {
+          run++;
+          continue;
+        }
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+      // Finder look-alikes: dark-light-dark-dark-dark-light-dark with four light modules on one side
+      for (let x = 0; x + 11 <= size; x++) {
+        const window = Array.from({ length: 11 }, (_, k) => at(x + k, y, vertical));
+        const core = [true, false, true, true, true, false, true];
+        const matchesAt = (offset: number) => core.every((dark, k) => window[offset + k] === dark);
+        const light = (from: number) => window.slice(from, from + 4).every((dark) => !dark);
+        if ((matchesAt(0) && light(7)) || (matchesAt(4) && light(0))) score += 40;
+      }
+    }
+  }
+
+  for (let y = 0; y + 1 < size; y++) {
+    for (let x = 0; x + 1 < size; x++) {
+      const dark = modules[y][x];
+      if (modules[y][x + 1] === dark && modules[y + 1][x] === dark && modules[y + 1][x + 1] === dark) score += 3;
+    }
+  }
+
+  const dark = modules.reduce((count, row) => count + row.filter(Boolean).length, 0);
+  score += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+  return score;
+}
+
+/** The smallest version the text fits, or null when it's too long for this encoder. */
+export function qrVersionFor(byteLength: number, level: ErrorCorrectionLevel = 'M'): number | null {
+  for (let version = 1; version <= MAX_VERSION; version++) {
+    if (4 + countBits(version) + byteLength * 8 <= dataCodewords(version, level) * 8) return version;
+  }
+  return null;
+}
+
+/** Encodes `text` as UTF-8 and returns the modules, without a quiet zone. */
+export function encodeQrCode(text: string, level: ErrorCorrectionLevel = 'M'): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+  const version = qrVersionFor(bytes.length, level);
+  if (version === null) throw new Error('Too long for a QR code');
+
+  const codewords = interleave(dataWithPadding(bytes, version, level), version, level);
+  let best: { modules: QrMatrix; score: number } | null = null;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const canvas = createCanvas(sizeOf(version));
+    drawFunctionPatterns(canvas, version);
+    drawCodewords(canvas, codewords);
+    applyMask(canvas, mask);
+    drawFormat(canvas, level, mask);
+    const score = penalty(canvas.modules);
+    if (!best || score < best.score) best = { modules: canvas.modules, score };
+  }
+  return best!.modules;
+}
+
+/** SVG path data for the dark modules, one unit per module, offset by `margin` modules. */
+export function qrPath(modules: QrMatrix, margin = 0): string {
+  const parts: string[] = [];
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    }),
+  );
+  return parts.join('');
+}
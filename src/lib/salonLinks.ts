@@ -0,0 +1,37 @@
+import type { LatLng, Salon } from '@/types/salon';
+
+/** The address a salon is shared under; the same link opens the salon page for anyone. */
+export const salonUrl = (salonId: string, origin = window.location.origin) => `${origin}/salon/${encodeURIComponent(salonId)}`;
+
+export const telHref = (phone: string) => `tel:${phone.replace(/[^\d+]/g, '')}`;
+
+/**
+ * Turn-by-turn directions from wherever the customer is. Google's universal link opens the Maps
+ * app where it's installed and the website everywhere else.
+ */
+export function directionsUrl(destination: LatLng): string {
+  const params = new URLSearchParams({
+    api: '1',
+    destination: `${destination.lat},${destination.lng}`,
+  });
+  return `https://www.google.com/maps/dir/?${params}`;
+}
+
+export type ShareOutcome = 'shared' | 'copied' | 'cancelled';
+
+/** Opens the system share sheet, or copies the link where there isn't one. Rejects when neither works. */
+export async function shareSalon(salon: Salon, url = salonUrl(salon.id)): Promise<ShareOutcome> {
+  const data = { title: salon.name, text: `${salon.name} — ${salon.address}`, url };
+  if (typeof navigator.share === 'function' && (!navigator.canShare || navigator.canShare(data))) {
+    try {
+      await navigator.share(data);
+      return 'shared';
+    } catch (e) {
+      if ((e as Error).name === 'AbortError') return 'cancelled';
+      // Some browsers refuse without a reason; the clipboard still works there
+    }
+  }
+  if (!navigator.clipboard) throw new Error("Couldn't share this salon");
+  await navigator.clipboard.writeText(url);
+  return 'copied';
+}
@@ -0,0 +1,290 @@
+import type { Category, LatLng, Locality, Salon, Service } from '@/types/salon';
+import { categoriesOffered } from '@/lib/categories';
+import { distanceKm } from '@/lib/geo';
+
+export interface SearchCatalog {
+  salons: Salon[];
+  services: Service[];
+  categories: Category[];
+  /** Where the salons are; names match the ones in the location picker. */
+  localities: Locality[];
+}
+
+export interface SalonSearchResult {
+  salon: Salon;
+  /** Services that matched the query, best first. */
+  services: Service[];
+  /** Relevance with the rating and distance nudges applied; only meaningful for ordering. */
+  score: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Where a term was found, and how much that says about what the customer wants
+const FIELD_WEIGHTS = {
+  salon: 3,
+  service: 2.5,
+  locality: 2.5,
+  category: 2,
+  tag: 1,
+};
+
+// Filler in phrases like "haircut near me"; dropped unless the query is nothing but filler
+const STOP_WORDS = new Set(['a', 'an', 'and', 'at', 'best', 'for', 'in', 'me', 'my', 'near', 'of', 'the', 'to', 'with']);
+
+const MAX_SERVICES_PER_SALON = 3;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export const tokenize = (text: string): string[] => text.toLowerCase().match(WORD) ?? [];
+
+export function queryTerms(query: string): string[] {
+  const terms = tokenize(query);
+  const meaningful = terms.filter((t) => !STOP_WORDS.has(t));
+  return meaningful.length > 0 ? meaningful : terms;
+}
+
+/** Optimal string alignment distance: Levenshtein plus adjacent swaps ("baerd" → "beard" is one edit). */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Short words get no typo allowance, otherwise "hair" would match "pair" and "air"
+const allowedEdits = (term: string) => (term.length < 5 ? 0 : term.length < 8 ? 1 : 2);
+
+/**
+ * How well one query term matches one word of the catalog, from 1 (exact) down
+ * to 0 (no match). Prefixes count so results appear while the customer is still typing.
+ */
+export function matchTerm(term: string, token: string): number {
+  if (token === term) return 1;
+  if (token.startsWith(term)) return term.length >= 2 ? 0.8 : 0;
+  const edits = allowedEdits(term);
+  if (edits === 0) return 0;
+  if (editDistance(term, token) <= edits) return 0.6;
+  // A typo in a word that isn't finished yet: "koramang" → "koramangala"
+  if (token.length > term.length && editDistance(term, token.slice(0, term.length)) <= edits) return 0.5;
+  return 0;
+}
+
+const bestMatch = (term: string, tokens: string[]) => tokens.reduce((best, token) => Math.max(best, matchTerm(term, token)), 0);
+
+/** The name of the neighbourhood a salon is in, e.g. 'Koramangala'; empty until `localities` have loaded. */
+export const localityOf = (salon: Salon, localities: Locality[]) => localities.find((l) => l.id === salon.localityId)?.name ?? '';
+
+// Rating and closeness, for ordering salons that matched equally well or when there is no query at all
+const standing = (salon: Salon, origin?: LatLng) => salon.rating * 2 - Math.min(distanceKm(salon.coordinates, origin), 10);
+
+/**
+ * Every salon, best rated and closest first: what the results view lists when only filters are set.
+ * Without an `origin` only the rating counts.
+ */
+export const browseSalons = (salons: Salon[], origin?: LatLng): SalonSearchResult[] =>
+  salons.map((salon) => ({ salon, services: [], score: standing(salon, origin) })).sort((a, b) => b.score - a.score);
+
+/** Category ids each salon offers, keyed by salon id. */
+export function salonCategoryIds(catalog: SearchCatalog): Record<string, string[]> {
+  return Object.fromEntries(
+    catalog.salons.map((salon) => {
+      const salonServices = catalog.services.filter((s) => s.salonId === salon.id);
+      return [salon.id, categoriesOffered(salonServices, catalog.categories).map((c) => c.id)];
+    }),
+  );
+}
+
+/**
+ * Ranks salons for a free-text query. Every term has to match somewhere on the
+ * salon (its name, area, tags, a category or one of its services), so "beard trim
+ * koramangala" narrows rather than widens. Relevance decides the order; rating and
+ * distance only separate salons that matched about equally well.
+ */
+export function searchSalons(query: string, catalog: SearchCatalog, origin?: LatLng): SalonSearchResult[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+  const phrase = terms.join(' ');
+  const categoryTokens = new Map(catalog.categories.map((c) => [c.id, tokenize(c.name)]));
+
+  const results: SalonSearchResult[] = [];
+  for (const salon of catalog.salons) {
+    const salonServices = catalog.services.filter((s) => s.salonId === salon.id);
+    const fields = [
+      { weight: FIELD_WEIGHTS.salon, tokens: tokenize(salon.name) },
+      { weight: FIELD_WEIGHTS.locality, tokens: tokenize(localityOf(salon, catalog.localities)) },
+      { weight: FIELD_WEIGHTS.tag, tokens: salon.tags.flatMap(tokenize) },
+    ];
+
+    // A service also answers for its categories ("skin care" finds the facials), at the category's weight
+    const serviceScores = salonServices.map((service) => {
+      const tokens = tokenize(service.name);
+      const listedUnder = service.categoryIds.flatMap((id) => categoryTokens.get(id) ?? []);
+      const perTerm = terms.map((term) =>
+        Math.max(bestMatch(term, tokens), (bestMatch(term, listedUnder) * FIELD_WEIGHTS.category) / FIELD_WEIGHTS.service),
+      );
+      return { service, perTerm, total: perTerm.reduce((t, s) => t + s, 0) };
+    });
+
+    let relevance = 0;
+    let everyTermMatched = true;
+    terms.forEach((term, i) => {
+      const fromFields = Math.max(...fields.map((f) => f.weight * bestMatch(term, f.tokens)));
+      const fromServices = Math.max(0, ...serviceScores.map((s) => FIELD_WEIGHTS.service * s.perTerm[i]));
+      const best = Math.max(fromFields, fromServices);
+      if (best === 0) everyTermMatched = false;
+      relevance += best;
+    });
+    if (!everyTermMatched) continue;
+
+    // The whole query spelled out in a name beats the same words scattered around
+    const names = [salon.name, ...salonServices.map((s) => s.name)].map((n) => tokenize(n).join(' '));
+    if (terms.length > 1 && names.some((n) => n.includes(phrase))) relevance += 2;
+
+    const matchedServices = serviceScores
+      .filter((s) => s.total > 0)
+      .sort((a, b) => b.total - a.total || a.service.price - b.service.price)
+      .slice(0, MAX_SERVICES_PER_SALON)
+      .map((s) => s.service);
+
+    results.push({ salon, services: matchedServices, score: relevance * 10 + standing(salon, origin) });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/** Splits `text` into runs so the words that matched `query` can be emphasised. */
+export function highlight(text: string, query: string): HighlightSegment[] {
+  const terms = queryTerms(query);
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const word of text.matchAll(WORD)) {
+    const token = word[0].toLowerCase();
+    if (!terms.some((term) => matchTerm(term, token) > 0)) continue;
+    if (word.index > last) segments.push({ text: text.slice(last, word.index), match: false });
+    segments.push({ text: word[0], match: true });
+    last = word.index + word[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+/**
+ * "Did you mean" candidates for a query that found nothing: catalog names that
+ * share a word with it under a looser typo allowance than the search itself uses.
+ */
+export function suggestAlternatives(query: string, catalog: SearchCatalog, limit = 3): string[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+  const vocabulary = new Set([
+    ...catalog.categories.map((c) => c.name),
+    ...catalog.services.map((s) => s.name),
+    ...catalog.salons.map((s) => localityOf(s, catalog.localities)).filter(Boolean),
+    ...catalog.salons.map((s) => s.name),
+  ]);
+
+  // One edit more than the search allows, and never for words too short to judge
+  const closeness = (term: string, token: string) =>
+    Math.min(editDistance(term, token), editDistance(term, token.slice(0, term.length)));
+  const ranked: { name: string; distance: number }[] = [];
+  for (const name of vocabulary) {
+    const tokens = tokenize(name);
+    const distance = Math.min(
+      ...terms.filter((t) => t.length >= 3).flatMap((term) => tokens.map((token) => closeness(term, token) - allowedEdits(term))),
+    );
+    if (distance <= 1) ranked.push({ name, distance });
+  }
+  return ranked
+    .sort((a, b) => a.distance - b.distance || a.name.length - b.name.length)
+    .slice(0, limit)
+    .map((r) => r.name);
+}
+
+export interface ServiceSuggestion {
+  name: string;
+  salonCount: number;
+  fromPrice: number;
+}
+
+export interface AutocompleteSuggestions {
+  salons: Salon[];
+  services: ServiceSuggestion[];
+  categories: Category[];
+}
+
+// Scores a name only when every term is found in it, so suggestions stay on topic
+function scoreName(terms: string[], text: string): number {
+  const tokens = tokenize(text);
+  let total = 0;
+  for (const term of terms) {
+    const score = bestMatch(term, tokens);
+    if (score === 0) return 0;
+    total += score;
+  }
+  return total;
+}
+
+/** Type-ahead suggestions, grouped the way the search dropdown shows them. Services are merged by name across salons. */
+export function autocomplete(query: string, catalog: SearchCatalog, limit = 4): AutocompleteSuggestions {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return { salons: [], services: [], categories: [] };
+
+  const salons = catalog.salons
+    .map((salon) => ({ salon, score: scoreName(terms, `${salon.name} ${localityOf(salon, catalog.localities)}`) }))
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score || b.salon.rating - a.salon.rating)
+    .slice(0, limit)
+    .map((s) => s.salon);
+
+  const byName = new Map<string, ServiceSuggestion & { score: number }>();
+  for (const service of catalog.services) {
+    const key = service.name.toLowerCase();
+    const existing = byName.get(key);
+    if (existing) {
+      existing.salonCount += 1;
+      existing.fromPrice = Math.min(existing.fromPrice, service.price);
+      continue;
+    }
+    const score = scoreName(terms, service.name);
+    if (score > 0) byName.set(key, { name: service.name, salonCount: 1, fromPrice: service.price, score });
+  }
+  const services = [...byName.values()]
+    .sort((a, b) => b.score - a.score || b.salonCount - a.salonCount)
+    .slice(0, limit)
+    .map(({ name, salonCount, fromPrice }) => ({ name, salonCount, fromPrice }));
+
+  const categories = catalog.categories
+    .map((category) => ({ category, score: scoreName(terms, category.name) }))
+    .filter((c) => c.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((c) => c.category);
+
+  return { salons, services, categories };
+}
+
+export const MAX_RECENT_SEARCHES = 8;
+
+const cleanQuery = (query: string) => query.trim().replace(/\s+/g, ' ');
+
+/** Moves `query` to the front of the history, dropping case-insensitive duplicates and the oldest entries past `limit`. */
+export function addRecentSearch(history: string[], query: string, limit = MAX_RECENT_SEARCHES): string[] {
+  const entry = cleanQuery(query);
+  if (!entry) return history;
+  const key = entry.toLowerCase();
+  return [entry, ...history.filter((h) => h.toLowerCase() !== key)].slice(0, limit);
+}
+
+export const removeRecentSearch = (history: string[], query: string) =>
+  history.filter((h) => h.toLowerCase() !== cleanQuery(query).toLowerCase());
@@ -0,0 +1,36 @@
+/** JSON helpers over localStorage that tolerate missing storage and corrupt entries. */
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+export function readJSON<T>(key: string, fallback: T): T {
+  const raw = getStorage()?.getItem(key);
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Returns false when the value couldn't be stored, e.g. the quota is used up. */
+export function writeJSON(key: string, value: unknown): boolean {
+  const storage = getStorage();
+  if (!storage) return false;
+  try {
+    storage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    // Quota exceeded or storage disabled: keep working in memory
+    return false;
+  }
+}
+
+export function removeKey(key: string) {
+  getStorage()?.removeItem(key);
+}
@@ -0,0 +1,39 @@
+import { format } from 'date-fns';
+
+/** '09:30' → 570 minutes since midnight. */
+export function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + (m || 0);
+}
+
+/** 570 → '09:30'. */
+export function toTimeString(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+/** 570 or '09:30' → '9:30 AM'. */
+export function formatTime(value: number | string): string {
+  const minutes = typeof value === 'string' ? toMinutes(value) : value;
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  const suffix = h >= 12 ? 'PM' : 'AM';
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${suffix}`;
+}
+
+/** Parses service durations such as '45 min', '2 hr' or '1 hr 30 min' into minutes. */
+export function parseDuration(duration: string): number {
+  const hours = /(\d+(?:\.\d+)?)\s*h/i.exec(duration);
+  const minutes = /(\d+)\s*m/i.exec(duration);
+  const total = (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0);
+  return Math.round(total);
+}
+
+/** Calendar day key used to store and compare booking dates. */
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/** Like formatTime but drops ':00' on the hour: 1200 → '8 PM', 1230 → '8:30 PM'. */
+export function formatShortTime(value: number | string): string {
+  return formatTime(value).replace(':00 ', ' ');
+}
@@ -1,67 +1,233 @@
-import { useState, useEffect } from 'react';
-import { ArrowLeft, Check, Calendar as CalendarIcon, Clock, User, Sparkles, ChevronRight } from 'lucide-react';
-import { useNavigate, useParams, useLocation } from 'react-router-dom';
-import { format, addDays, isSameDay } from 'date-fns';
-import { featuredSalons, nearbySalons, services, artists } from '@/data/mockData';
+import { useState, useMemo, useEffect } from 'react';
+import { ArrowLeft, Check, Calendar as CalendarIcon, Clock, User, Sparkles, ChevronRight, X } from 'lucide-react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { format, addDays, isSameDay, parseISO } from 'date-fns';
+import { useAuth } from '@/hooks/use-auth';
+import { useCart } from '@/hooks/use-cart';
+import { useSalon, useServices, useArtists, usePromotions, useReviews } from '@/hooks/use-catalog';
+import { useBooking, useBookings, useCreateBooking, useRescheduleBooking, useSalonBookings } from '@/hooks/use-bookings';
+import { artistRatings, canPerform } from '@/lib/artists';
+import { getDayCapacity, getDaySlots, isArtistFree, itineraryTurns, nextFreeStart, planItinerary, type DayStatus } from '@/lib/availability';
+import { cartItems as itemsInCart } from '@/lib/cart';
+import { CGST_RATE, SGST_RATE, formatRupees, priceBooking, quotePrice } from '@/lib/pricing';
+import { applyCouponCode, isExpired } from '@/lib/promotions';
+import { formatTime, toDateKey } from '@/lib/time';
+import type { Booking, BookingItem } from '@/types/salon';
 import { toast } from 'sonner';
 
-const timeSlots = [
-  '9:30 AM', '10:00 AM', '10:30 AM', '11:00 AM', '11:30 AM',
-  '12:00 PM', '12:30 PM', '1:00 PM', '2:00 PM', '2:30 PM',
-  '3:00 PM', '3:30 PM', '4:00 PM', '4:30 PM', '5:00 PM',
-  '5:30 PM', '6:00 PM', '6:30 PM', '7:00 PM',
-];
-
-const peakSlots = ['10:30 AM', '11:00 AM', '6:00 PM', '6:30 PM', '7:00 PM'];
-const unavailableSlots = ['1:00 PM', '3:30 PM'];
+const dayStatusLabels: Partial<Record<DayStatus, string>> = {
+  'almost-full': 'Almost full',
+  full: 'Full',
+  closed: 'Closed',
+};
 
 type Step = 'datetime' | 'barber' | 'summary';
 
 const BookingFlow = () => {
   const { id } = useParams();
   const navigate = useNavigate();
-  const location = useLocation();
-  const salon = [...featuredSalons, ...nearbySalons].find((s) => s.id === id) || featuredSalons[0];
+  const [searchParams] = useSearchParams();
+  const { user } = useAuth();
+  const rescheduleId = searchParams.get('reschedule') ?? undefined;
+  const { data: salon, isLoading } = useSalon(id);
+  const { data: services = [], isLoading: servicesLoading } = useServices(id);
+  const { data: artists = [] } = useArtists(id);
+  const { data: reviews = [] } = useReviews(id);
+  const { data: allSalonBookings = [] } = useSalonBookings(id);
+  const { data: rescheduling, isFetched: reschedulingFetched } = useBooking(rescheduleId);
+  const { data: promotions = [] } = usePromotions();
+  const { data: myBookings = [] } = useBookings();
+  const createBooking = useCreateBooking();
+  const rescheduleBooking = useRescheduleBooking();
+
+  // When rescheduling, the booking's own slot must not count against it
+  const salonBookings = useMemo(
+    () => allSalonBookings.filter((b) => b.id !== rescheduleId),
+    [allSalonBookings, rescheduleId],
+  );
 
-  const cartFromState: Record<string, number> = location.state?.cart || {};
-  const cartServices = Object.entries(cartFromState).map(([sId, qty]) => {
-    const svc = services.find((s) => s.id === sId);
-    return svc ? { ...svc, qty } : null;
-  }).filter(Boolean) as (typeof services[0] & { qty: number })[];
+  const { cart, clear: clearCart } = useCart();
+  const cartItems: BookingItem[] = useMemo(
+    () => (rescheduling ? rescheduling.items : itemsInCart(cart, id, services)),
+    [rescheduling, cart, id, services],
+  );
 
-  const cartTotal = cartServices.reduce((t, s) => t + s.price * s.qty, 0);
+  const cartDuration = cartItems.reduce((t, s) => t + s.durationMinutes * s.qty, 0);
 
   const [step, setStep] = useState<Step>('datetime');
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
-  const [selectedBarber, setSelectedBarber] = useState<string | null>(null);
-  const [autoAssign, setAutoAssign] = useState(false);
-  const [bookingSuccess, setBookingSuccess] = useState(false);
+  // The specialist chosen for each turn of the itinerary; empty turns go to whoever is free
+  const [picks, setPicks] = useState<(string | undefined)[]>([]);
+  const [confirmed, setConfirmed] = useState<Booking | null>(null);
+
+  const couponContext = { salonId: id ?? '', items: cartItems, date: toDateKey(selectedDate), customerBookings: myBookings };
+  // Re-evaluated on every render so changing the date or cart can invalidate an applied code
+  const coupon = couponCode && !rescheduling ? applyCouponCode(promotions, couponCode, couponContext) : null;
+  const discount = rescheduling ? rescheduling.price.discount : coupon?.valid ? coupon.discount : undefined;
+  const quote = quotePrice(cartItems, discount);
+  const price = rescheduling?.price ?? priceBooking(cartItems, discount);
+  const couponMessage = couponError ?? (coupon && !coupon.valid ? coupon.reason : null);
+  const suggestedPromotions = promotions.filter(
+    (p) => !isExpired(p) && (!p.rules.salonIds || p.rules.salonIds.includes(id ?? '')),
+  );
+
+  const handleApplyCoupon = (code = couponInput) => {
+    const result = applyCouponCode(promotions, code, couponContext);
+    if (result.valid) {
+      setCouponCode(result.discount.code);
+      setCouponInput(result.discount.code);
+      setCouponError(null);
+      toast.success(`${result.discount.code} applied! You save ₹${result.discount.amount}`);
+    } else {
+      setCouponCode(null);
+      setCouponError(result.reason);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setCouponCode(null);
+    setCouponInput('');
+    setCouponError(null);
+  };
+
+  // Prefill the existing selection once the booking being rescheduled loads
+  useEffect(() => {
+    if (!rescheduling) return;
+    setSelectedDate(parseISO(rescheduling.date));
+    setSelectedTime(rescheduling.time);
+    const turns = rescheduling.items.reduce((n, item) => n + item.qty, 0);
+    setPicks(rescheduling.itinerary?.map((step) => step.artistId) ?? Array.from({ length: turns }, () => rescheduling.artistId));
+  }, [rescheduling]);
+
+  // A stale or someone else's booking link: there's nothing here to move
+  const rescheduleMissing = !!rescheduleId && reschedulingFetched && !rescheduling;
+  useEffect(() => {
+    if (!rescheduleMissing) return;
+    toast.error('Booking not found');
+    navigate('/bookings', { replace: true });
+  }, [rescheduleMissing, navigate]);
+
+  // Nothing to book, e.g. a bookmarked or shared link, or a cart emptied in another tab: pick services first
+  const cartEmpty = !rescheduleId && !servicesLoading && cartItems.length === 0 && !createBooking.isSuccess;
+  useEffect(() => {
+    if (!cartEmpty || !id) return;
+    toast.info('Add a service to continue booking');
+    navigate(`/salon/${id}`, { replace: true });
+  }, [cartEmpty, id, navigate]);
 
   // Generate next 14 days
-  const dates = Array.from({ length: 14 }, (_, i) => addDays(new Date(), i));
-  const weekendDays = dates.filter(d => d.getDay() === 0 || d.getDay() === 6);
+  const dates = useMemo(() => Array.from({ length: 14 }, (_, i) => addDays(new Date(), i)), []);
 
-  const canProceedToBarber = selectedDate && selectedTime;
-  const canProceedToSummary = selectedBarber || autoAssign;
+  const dayCapacity = useMemo(() => {
+    if (!salon) return new Map<string, DayStatus>();
+    return new Map(dates.map((date) => [
+      toDateKey(date),
+      getDayCapacity({ salon, artists, bookings: salonBookings, date, durationMinutes: cartDuration, items: cartItems }).status,
+    ]));
+  }, [salon, artists, salonBookings, dates, cartDuration, cartItems]);
+
+  const slots = useMemo(
+    () =>
+      salon
+        ? getDaySlots({ salon, artists, bookings: salonBookings, date: selectedDate, durationMinutes: cartDuration, items: cartItems })
+        : [],
+    [salon, artists, salonBookings, selectedDate, cartDuration, cartItems],
+  );
+  const selectedSlot = slots.find((s) => s.time === selectedTime && s.available);
+  const turns = selectedSlot ? itineraryTurns(cartItems, selectedSlot.start) : [];
+  const itinerary = selectedSlot
+    ? planItinerary({ artists, bookings: salonBookings, date: selectedDate, start: selectedSlot.start, items: cartItems, picks })
+    : null;
 
-  const handleConfirmBooking = () => {
-    setBookingSuccess(true);
-    toast.success('Booking confirmed! 🎉');
-    setTimeout(() => navigate('/bookings'), 2000);
+  const ratings = useMemo(() => artistRatings(reviews), [reviews]);
+
+  const canProceedToBarber = selectedDate && selectedSlot;
+  const canProceedToSummary = !!itinerary?.length;
+
+  const pickArtist = (turn: number, artistId: string | undefined) =>
+    setPicks((current) => Object.assign([...current], { [turn]: artistId }));
+
+  const handleConfirmBooking = (payAtSalon = false) => {
+    if (!salon || !user || !selectedSlot || !itinerary?.length || createBooking.isPending || rescheduleBooking.isPending) return;
+    // "Any specialist" turns are already resolved to a concrete artist, so every chair is actually held
+    const solo = itinerary.every((step) => step.artistId === itinerary[0].artistId) ? itinerary[0] : undefined;
+    const schedule = {
+      artistId: solo?.artistId,
+      artistName: solo?.artistName,
+      date: toDateKey(selectedDate),
+      time: selectedSlot.time,
+      itinerary,
+    };
+    const callbacks = {
+      onSuccess: (booking: Booking) => {
+        if (!rescheduling) clearCart();
+        // Prepaid bookings hold the slot while the customer pays
+        if (booking.status === 'pending-payment') {
+          navigate(`/pay/${booking.id}`, { replace: true });
+          return;
+        }
+        setConfirmed(booking);
+        toast.success(rescheduling ? 'Booking rescheduled' : 'Booking confirmed! 🎉');
+        setTimeout(() => navigate('/bookings'), 2000);
+      },
+      onError: (error: Error) => toast.error(error.message || 'Could not confirm your booking. Please try again.'),
+    };
+
+    if (rescheduling) {
+      rescheduleBooking.mutate({ id: rescheduling.id, changes: schedule }, callbacks);
+    } else {
+      createBooking.mutate(
+        {
+          ...schedule,
+          customerId: user.id,
+          salonId: salon.id,
+          salonName: salon.name,
+          salonImage: salon.image,
+          items: cartItems,
+          durationMinutes: cartDuration,
+          price,
+          payAtSalon,
+        },
+        callbacks,
+      );
+    }
   };
 
-  if (bookingSuccess) {
+  if (isLoading || !salon) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        {isLoading ? (
+          <div className="w-10 h-10 rounded-full border-2 border-primary border-t-transparent animate-spin" />
+        ) : (
+          <p className="font-heading font-medium text-sm text-muted-foreground">Salon not found</p>
+        )}
+      </div>
+    );
+  }
+
+  if (confirmed) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center animate-fade-in-up" style={{ animationDuration: '500ms' }}>
           <div className="w-20 h-20 rounded-full bg-success/20 flex items-center justify-center mx-auto mb-4">
             <Check size={40} className="text-success" />
           </div>
-          <h2 className="font-heading font-bold text-xl text-foreground">Booking Confirmed!</h2>
+          <h2 className="font-heading font-bold text-xl text-foreground">
+            {rescheduling ? 'Booking Rescheduled!' : 'Booking Confirmed!'}
+          </h2>
           <p className="text-sm text-muted-foreground font-body mt-2">
-            {salon.name} • {format(selectedDate, 'MMM d, yyyy')} • {selectedTime}
+            {salon.name} • {format(parseISO(confirmed.date), 'MMM d, yyyy')} • {formatTime(confirmed.time)}
           </p>
+          {confirmed.price.discount && !rescheduling && (
+            <p className="text-xs text-success font-body mt-1">You saved ₹{confirmed.price.discount.amount} with {confirmed.price.discount.code}</p>
+          )}
+          {confirmed.payment.status === 'unpaid' && (
+            <p className="text-xs text-muted-foreground font-body mt-1">Pay ₹{confirmed.payment.amount} at the salon after your visit</p>
+          )}
           <p className="text-xs text-muted-foreground font-body mt-1">Redirecting to bookings...</p>
         </div>
       </div>
@@ -84,7 +250,9 @@ const BookingFlow = () => {
             <ArrowLeft size={18} className="text-foreground" />
           </button>
           <div>
-            <h1 className="font-heading font-semibold text-base text-foreground">Book Appointment</h1>
+            <h1 className="font-heading font-semibold text-base text-foreground">
+              {rescheduling ? 'Reschedule Appointment' : 'Book Appointment'}
+            </h1>
             <p className="text-[11px] font-body text-muted-foreground">{salon.name}</p>
           </div>
         </div>
@@ -119,15 +287,21 @@ const BookingFlow = () => {
             <div className="flex gap-2 overflow-x-auto scrollbar-hide pb-2">
               {dates.map((date) => {
                 const isSelected = isSameDay(date, selectedDate);
-                const isWeekend = date.getDay() === 0 || date.getDay() === 6;
+                const status = dayCapacity.get(toDateKey(date));
+                const statusLabel = status && dayStatusLabels[status];
                 const isToday = isSameDay(date, new Date());
                 return (
                   <button
                     key={date.toISOString()}
-                    onClick={() => setSelectedDate(date)}
+                    disabled={status === 'closed'}
+                    onClick={() => { setSelectedDate(date); setSelectedTime(null); }}
                     className={`flex flex-col items-center gap-1 py-2 px-3 rounded-2xl flex-shrink-0 min-w-[56px] transition-all duration-200 ${
                       isSelected
                         ? 'bg-primary text-primary-foreground shadow-md scale-105'
+                        : status === 'closed'
+                        ? 'bg-muted text-muted-foreground/40 cursor-not-allowed'
+                        : status === 'full'
+                        ? 'bg-muted text-muted-foreground/60'
                         : 'bg-card border border-border text-foreground'
                     }`}
                   >
@@ -143,9 +317,9 @@ const BookingFlow = () => {
                         Today
                       </span>
                     )}
-                    {isWeekend && !isToday && (
+                    {statusLabel && !isToday && (
                       <span className={`text-[8px] font-body ${isSelected ? 'text-primary-foreground/70' : 'text-accent'}`}>
-                        Almost full
+                        {statusLabel}
                       </span>
                     )}
                   </button>
@@ -159,16 +333,21 @@ const BookingFlow = () => {
             <h3 className="font-heading font-semibold text-sm text-foreground mb-3 flex items-center gap-2">
               <Clock size={16} className="text-primary" /> Available Slots
             </h3>
+            {cartDuration > 0 && (
+              <p className="text-[11px] font-body text-muted-foreground -mt-1 mb-3">
+                Your services take about {cartDuration} min
+              </p>
+            )}
             <div className="grid grid-cols-3 gap-2">
-              {timeSlots.map((slot) => {
-                const isPeak = peakSlots.includes(slot);
-                const isUnavailable = unavailableSlots.includes(slot);
-                const isSelected = selectedTime === slot;
+              {slots.map((slot) => {
+                const isPeak = slot.isPeak;
+                const isUnavailable = !slot.available;
+                const isSelected = selectedTime === slot.time;
                 return (
                   <button
-                    key={slot}
+                    key={slot.time}
                     disabled={isUnavailable}
-                    onClick={() => setSelectedTime(slot)}
+                    onClick={() => setSelectedTime(slot.time)}
                     className={`relative py-2.5 px-2 rounded-xl text-xs font-body font-medium transition-all duration-200 ${
                       isUnavailable
                         ? 'bg-muted text-muted-foreground/40 cursor-not-allowed'
@@ -177,7 +356,7 @@ const BookingFlow = () => {
                         : 'bg-card border border-border text-foreground active:scale-95'
                     }`}
                   >
-                    {slot}
+                    {slot.label}
                     {isPeak && !isUnavailable && (
                       <span className={`absolute -top-1 -right-1 text-[7px] font-heading font-semibold px-1 py-0.5 rounded-full ${
                         isSelected ? 'bg-accent text-accent-foreground' : 'bg-accent/20 text-accent'
@@ -189,74 +368,103 @@ const BookingFlow = () => {
                 );
               })}
             </div>
+            {slots.length === 0 && (
+              <p className="text-center text-xs font-body text-muted-foreground py-6">
+                No slots left on this day. Please pick another date.
+              </p>
+            )}
           </div>
         </div>
       )}
 
-      {/* Step 2: Barber Selection */}
+      {/* Step 2: Specialist per service */}
       {step === 'barber' && (
         <div className="animate-fade-in-up" style={{ animationDuration: '300ms' }}>
           <div className="px-4 pt-4">
             <h3 className="font-heading font-semibold text-sm text-foreground mb-1 flex items-center gap-2">
-              <User size={16} className="text-primary" /> Choose Hair Specialist
+              <User size={16} className="text-primary" /> {turns.length > 1 ? 'Choose Specialists' : 'Choose Hair Specialist'}
             </h3>
-            <p className="text-xs text-muted-foreground font-body mb-4">Select your preferred stylist or let us assign the best available</p>
-
-            {/* Auto-assign option */}
-            <button
-              onClick={() => { setAutoAssign(true); setSelectedBarber(null); }}
-              className={`w-full flex items-center gap-3 p-3 rounded-2xl mb-3 transition-all duration-200 ${
-                autoAssign
-                  ? 'bg-primary/10 border-2 border-primary'
-                  : 'bg-card border border-border'
-              }`}
-            >
-              <div className={`w-12 h-12 rounded-full flex items-center justify-center ${
-                autoAssign ? 'bg-primary text-primary-foreground' : 'bg-secondary text-muted-foreground'
-              }`}>
-                <Sparkles size={20} />
-              </div>
-              <div className="text-left flex-1">
-                <p className="font-heading font-medium text-sm text-foreground">Any Specialist</p>
-                <p className="text-[11px] font-body text-muted-foreground">We'll assign the best available stylist</p>
-              </div>
-              {autoAssign && <Check size={18} className="text-primary" />}
-            </button>
+            <p className="text-xs text-muted-foreground font-body mb-4">
+              {turns.length > 1
+                ? 'Your services run back to back. Pick who does each one, or let us assign whoever is free.'
+                : 'Select your preferred stylist or let us assign the best available'}
+            </p>
 
-            {/* Barber Cards */}
-            <div className="space-y-2">
-              {artists.map((artist) => {
-                const isSelected = selectedBarber === artist.id;
+            <div className="space-y-5">
+              {turns.map((turn, i) => {
+                const assigned = itinerary?.[i];
+                const specialists = artists.filter((a) => canPerform(a, turn.serviceId));
+                const anyoneFree = specialists.some((a) => isArtistFree(a, selectedDate, turn.start, turn.end, salonBookings));
                 return (
-                  <button
-                    key={artist.id}
-                    onClick={() => { setSelectedBarber(artist.id); setAutoAssign(false); }}
-                    className={`w-full flex items-center gap-3 p-3 rounded-2xl transition-all duration-200 ${
-                      isSelected
-                        ? 'bg-primary/10 border-2 border-primary'
-                        : 'bg-card border border-border'
-                    }`}
-                  >
-                    <div className={`w-14 h-14 rounded-full overflow-hidden border-2 ${
-                      isSelected ? 'border-primary' : 'border-transparent'
-                    }`}>
-                      <img src={artist.avatar} alt={artist.name} className="w-full h-full object-cover" />
-                    </div>
-                    <div className="text-left flex-1">
-                      <p className="font-heading font-medium text-sm text-foreground">{artist.name}</p>
-                      <p className="text-[11px] font-body text-muted-foreground">{artist.specialty}</p>
-                      <span className="text-[10px] font-body font-medium text-success bg-success/10 px-2 py-0.5 rounded-full inline-block mt-1">
-                        Available
+                  <div key={`${turn.serviceId}-${i}`}>
+                    <div className="flex items-baseline justify-between gap-2 mb-2">
+                      <p className="font-heading font-medium text-sm text-foreground truncate">{turn.name}</p>
+                      <span className="text-[11px] font-body text-muted-foreground flex-shrink-0">
+                        {formatTime(turn.start)} – {formatTime(turn.end)}
                       </span>
                     </div>
-                    <div className="flex items-center gap-1 text-xs text-accent">
-                      ⭐ 4.{5 + parseInt(artist.id)}
+                    <div className="flex gap-2 overflow-x-auto scrollbar-hide pb-1">
+                      <button
+                        onClick={() => pickArtist(i, undefined)}
+                        className={`flex-shrink-0 w-20 flex flex-col items-center gap-1 p-2 rounded-2xl transition-all duration-200 ${
+                          !picks[i] ? 'bg-primary/10 border-2 border-primary' : 'bg-card border border-border'
+                        }`}
+                      >
+                        <div className={`w-12 h-12 rounded-full flex items-center justify-center ${
+                          !picks[i] ? 'bg-primary text-primary-foreground' : 'bg-secondary text-muted-foreground'
+                        }`}>
+                          <Sparkles size={18} />
+                        </div>
+                        <span className="text-[11px] font-heading font-medium text-foreground">Any</span>
+                        <span className={`text-[9px] font-body truncate w-full text-center ${anyoneFree ? 'text-muted-foreground' : 'text-destructive'}`}>
+                          {!anyoneFree ? 'Nobody free' : !picks[i] && assigned ? assigned.artistName : 'Best available'}
+                        </span>
+                      </button>
+                      {specialists.map((artist) => {
+                        const isSelected = picks[i] === artist.id;
+                        const isFree = isArtistFree(artist, selectedDate, turn.start, turn.end, salonBookings);
+                        const freeAt = isFree ? turn.start : nextFreeStart(artist, selectedDate, turn.start, turn.end - turn.start, salonBookings);
+                        const rating = ratings[artist.id];
+                        return (
+                          <button
+                            key={artist.id}
+                            disabled={!isFree && !isSelected}
+                            onClick={() => pickArtist(i, artist.id)}
+                            className={`flex-shrink-0 w-24 flex flex-col items-center gap-0.5 p-2 rounded-2xl transition-all duration-200 ${
+                              isSelected
+                                ? isFree
+                                  ? 'bg-primary/10 border-2 border-primary'
+                                  : 'bg-destructive/10 border-2 border-destructive'
+                                : isFree
+                                ? 'bg-card border border-border'
+                                : 'bg-muted border border-border opacity-60 cursor-not-allowed'
+                            }`}
+                          >
+                            <img src={artist.avatar} alt={artist.name} className="w-12 h-12 rounded-full object-cover" />
+                            <span className="text-[11px] font-heading font-medium text-foreground truncate w-full text-center mt-0.5">{artist.name}</span>
+                            <span className="text-[9px] font-body text-muted-foreground truncate w-full text-center">{artist.specialty}</span>
+                            <span className="text-[9px] font-body text-accent">
+                              {rating ? `⭐ ${rating.rating.toFixed(1)} (${rating.reviewCount})` : 'New'}
+                            </span>
+                            <span className={`text-[9px] font-body font-medium ${isFree ? 'text-success' : 'text-destructive'}`}>
+                              {isFree ? 'Available' : freeAt !== null ? `Free at ${formatTime(freeAt)}` : 'Booked up'}
+                            </span>
+                          </button>
+                        );
+                      })}
                     </div>
-                    {isSelected && <Check size={18} className="text-primary" />}
-                  </button>
+                    {specialists.length === 0 && (
+                      <p className="text-[11px] font-body text-muted-foreground mt-1">Nobody at this salon offers this service right now.</p>
+                    )}
+                  </div>
                 );
               })}
             </div>
+            {turns.length > 0 && !itinerary && (
+              <p className="text-[11px] font-body text-destructive mt-4">
+                A specialist you picked is busy at their time. Choose someone else or pick Any.
+              </p>
+            )}
           </div>
         </div>
       )}
@@ -274,25 +482,27 @@ const BookingFlow = () => {
               </div>
             </div>
 
-            {/* Barber */}
+            {/* Itinerary */}
             <div className="bg-card rounded-2xl p-3 card-shadow">
-              <h4 className="text-xs font-heading font-semibold text-muted-foreground mb-2">SPECIALIST</h4>
-              {autoAssign ? (
-                <div className="flex items-center gap-2">
-                  <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
-                    <Sparkles size={16} className="text-primary" />
-                  </div>
-                  <span className="text-sm font-body text-foreground">Auto-assigned (Best Available)</span>
-                </div>
-              ) : (
-                <div className="flex items-center gap-2">
-                  <img src={artists.find(a => a.id === selectedBarber)?.avatar} alt="" className="w-10 h-10 rounded-full object-cover" />
-                  <div>
-                    <span className="text-sm font-heading font-medium text-foreground">{artists.find(a => a.id === selectedBarber)?.name}</span>
-                    <p className="text-[11px] font-body text-muted-foreground">{artists.find(a => a.id === selectedBarber)?.specialty}</p>
-                  </div>
-                </div>
-              )}
+              <h4 className="text-xs font-heading font-semibold text-muted-foreground mb-2">{itinerary && itinerary.length > 1 ? 'YOUR VISIT' : 'SPECIALIST'}</h4>
+              <ol className="space-y-3">
+                {itinerary?.map((appointment, i) => {
+                  const artist = artists.find((a) => a.id === appointment.artistId);
+                  return (
+                    <li key={`${appointment.serviceId}-${i}`} className="flex items-center gap-3">
+                      <span className="w-16 flex-shrink-0 text-xs font-heading font-semibold text-primary">{formatTime(appointment.time)}</span>
+                      <img src={artist?.avatar} alt="" className="w-9 h-9 rounded-full object-cover flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-heading font-medium text-foreground truncate">{appointment.name}</p>
+                        <p className="text-[11px] font-body text-muted-foreground truncate">
+                          with {appointment.artistName}
+                          {!picks[i] && ' (assigned)'} • {appointment.durationMinutes} min
+                        </p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
             </div>
 
             {/* Date & Time */}
@@ -305,7 +515,7 @@ const BookingFlow = () => {
                 </div>
                 <div className="flex items-center gap-1.5 text-sm font-body text-foreground">
                   <Clock size={14} className="text-primary" />
-                  {selectedTime}
+                  {selectedSlot?.label}
                 </div>
               </div>
             </div>
@@ -314,8 +524,8 @@ const BookingFlow = () => {
             <div className="bg-card rounded-2xl p-3 card-shadow">
               <h4 className="text-xs font-heading font-semibold text-muted-foreground mb-2">SERVICES</h4>
               <div className="space-y-2">
-                {cartServices.map((svc) => (
-                  <div key={svc.id} className="flex items-center justify-between">
+                {cartItems.map((svc) => (
+                  <div key={svc.serviceId} className="flex items-center justify-between">
                     <div>
                       <span className="text-sm font-body text-foreground">{svc.name}</span>
                       <span className="text-[10px] text-muted-foreground ml-2">x{svc.qty}</span>
@@ -327,24 +537,56 @@ const BookingFlow = () => {
             </div>
 
             {/* Coupon */}
-            <details className="bg-card rounded-2xl card-shadow">
-              <summary className="px-3 py-3 cursor-pointer text-sm font-heading font-medium text-primary flex items-center gap-2">
-                🎟️ Apply Coupon Code
-                <ChevronRight size={14} className="ml-auto" />
-              </summary>
-              <div className="px-3 pb-3">
-                <div className="flex gap-2">
-                  <input
-                    type="text"
-                    placeholder="Enter coupon code"
-                    className="flex-1 bg-secondary rounded-xl px-3 py-2 text-sm font-body text-foreground placeholder:text-muted-foreground outline-none"
-                  />
-                  <button className="bg-primary text-primary-foreground text-sm font-heading font-medium px-4 py-2 rounded-xl">
-                    Apply
-                  </button>
+            {!rescheduling && (
+              <details className="bg-card rounded-2xl card-shadow">
+                <summary className="px-3 py-3 cursor-pointer text-sm font-heading font-medium text-primary flex items-center gap-2">
+                  🎟️ {discount ? `${discount.code} applied` : 'Apply Coupon Code'}
+                  <ChevronRight size={14} className="ml-auto" />
+                </summary>
+                <div className="px-3 pb-3">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={couponInput}
+                      onChange={(e) => { setCouponInput(e.target.value); setCouponError(null); }}
+                      onKeyDown={(e) => e.key === 'Enter' && handleApplyCoupon()}
+                      placeholder="Enter coupon code"
+                      className="flex-1 bg-secondary rounded-xl px-3 py-2 text-sm font-body text-foreground placeholder:text-muted-foreground outline-none uppercase placeholder:normal-case"
+                    />
+                    {couponCode ? (
+                      <button
+                        onClick={handleRemoveCoupon}
+                        className="flex items-center gap-1 bg-secondary text-foreground text-sm font-heading font-medium px-4 py-2 rounded-xl"
+                      >
+                        <X size={14} /> Remove
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleApplyCoupon()}
+                        className="bg-primary text-primary-foreground text-sm font-heading font-medium px-4 py-2 rounded-xl"
+                      >
+                        Apply
+                      </button>
+                    )}
+                  </div>
+                  {couponMessage && <p className="text-[11px] font-body text-destructive mt-2">{couponMessage}</p>}
+                  {discount && <p className="text-[11px] font-body text-success mt-2">You save ₹{discount.amount} with {discount.label}</p>}
+                  {!couponCode && suggestedPromotions.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mt-2">
+                      {suggestedPromotions.map((p) => (
+                        <button
+                          key={p.id}
+                          onClick={() => handleApplyCoupon(p.code)}
+                          className="text-[10px] font-heading font-semibold px-2 py-1 rounded-lg border border-dashed border-primary text-primary"
+                        >
+                          {p.code}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
-              </div>
-            </details>
+              </details>
+            )}
 
             {/* Price Breakdown */}
             <div className="bg-card rounded-2xl p-3 card-shadow">
@@ -352,15 +594,31 @@ const BookingFlow = () => {
               <div className="space-y-1.5">
                 <div className="flex justify-between text-sm font-body">
                   <span className="text-muted-foreground">Subtotal</span>
-                  <span className="text-foreground">₹{cartTotal}</span>
+                  <span className="text-foreground">₹{price.subtotal}</span>
                 </div>
+                {price.discount && (
+                  <div className="flex justify-between text-sm font-body">
+                    <span className="text-success">Discount ({price.discount.code})</span>
+                    <span className="text-success">−{formatRupees(price.discount.amount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm font-body">
-                  <span className="text-muted-foreground">Tax (18% GST)</span>
-                  <span className="text-foreground">₹{Math.round(cartTotal * 0.18)}</span>
+                  <span className="text-muted-foreground">CGST ({CGST_RATE}%)</span>
+                  <span className="text-foreground">{formatRupees(quote.cgst)}</span>
                 </div>
+                <div className="flex justify-between text-sm font-body">
+                  <span className="text-muted-foreground">SGST ({SGST_RATE}%)</span>
+                  <span className="text-foreground">{formatRupees(quote.sgst)}</span>
+                </div>
+                {quote.roundOff !== 0 && (
+                  <div className="flex justify-between text-xs font-body">
+                    <span className="text-muted-foreground">Round off</span>
+                    <span className="text-muted-foreground">{quote.roundOff > 0 ? '+' : '−'}{formatRupees(Math.abs(quote.roundOff))}</span>
+                  </div>
+                )}
                 <div className="border-t border-border pt-1.5 flex justify-between text-sm font-heading font-semibold">
                   <span className="text-foreground">Total</span>
-                  <span className="text-primary">₹{cartTotal + Math.round(cartTotal * 0.18)}</span>
+                  <span className="text-primary">₹{price.total}</span>
                 </div>
               </div>
             </div>
@@ -397,16 +655,24 @@ const BookingFlow = () => {
               Review Booking →
             </button>
           )}
-          {step === 'summary' && (
+          {step === 'summary' && rescheduling && (
+            <button
+              onClick={() => handleConfirmBooking()}
+              className="w-full py-3.5 rounded-2xl font-heading font-semibold text-sm bg-primary text-primary-foreground active:scale-[0.98] transition-transform"
+            >
+              Confirm New Time
+            </button>
+          )}
+          {step === 'summary' && !rescheduling && (
             <div className="flex gap-3">
               <button
-                onClick={handleConfirmBooking}
+                onClick={() => handleConfirmBooking()}
                 className="flex-1 py-3.5 rounded-2xl font-heading font-semibold text-sm bg-primary text-primary-foreground active:scale-[0.98] transition-transform"
               >
-                Pay & Confirm • ₹{cartTotal + Math.round(cartTotal * 0.18)}
+                Pay & Confirm • ₹{price.total}
               </button>
               <button
-                onClick={handleConfirmBooking}
+                onClick={() => handleConfirmBooking(true)}
                 className="py-3.5 px-4 rounded-2xl font-heading font-medium text-sm border-2 border-primary text-primary active:scale-[0.98] transition-transform"
               >
                 Pay at Salon
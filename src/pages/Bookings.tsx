@@ -1,10 +1,57 @@
 import { useState } from 'react';
-import { CalendarDays, X } from 'lucide-react';
-import { bookings } from '@/data/mockData';
+import { CalendarDays, X, RefreshCw, ChevronRight, FileText, CreditCard, RotateCcw } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useBookings, useCancelBooking } from '@/hooks/use-bookings';
+import { useRetryRefund } from '@/hooks/use-payments';
+import { bookingArtistNames } from '@/lib/availability';
+import { formatTime } from '@/lib/time';
+import { BOOKING_GROUPS, BOOKING_STATUS_META, canCancel, canReschedule, type BookingGroup } from '@/lib/bookingLifecycle';
+import { describePayment } from '@/payments/details';
+import type { Booking } from '@/types/salon';
 
 const BookingsPage = () => {
-  const [tab, setTab] = useState<'upcoming' | 'completed' | 'cancelled'>('upcoming');
-  const filtered = bookings.filter((b) => b.status === tab);
+  const navigate = useNavigate();
+  const [tab, setTab] = useState<BookingGroup>('upcoming');
+  const [cancelling, setCancelling] = useState<Booking | null>(null);
+  const { data: bookings = [], isLoading } = useBookings();
+  const cancelBooking = useCancelBooking();
+  const retryRefund = useRetryRefund();
+  const filtered = bookings.filter((b) => BOOKING_STATUS_META[b.status].group === tab);
+  const tabLabel = BOOKING_GROUPS.find((g) => g.id === tab)?.label.toLowerCase();
+
+  const confirmCancel = () => {
+    if (!cancelling) return;
+    cancelBooking.mutate(cancelling.id, {
+      onSuccess: (booking) => {
+        if (booking.payment.status === 'refund-pending') toast.warning("Booking cancelled, but the refund didn't go through. Please retry it.");
+        else toast.success(booking.status === 'refunded' ? 'Booking cancelled and refund issued' : 'Booking cancelled');
+      },
+      onError: (error) => toast.error(error.message),
+    });
+    setCancelling(null);
+  };
+
+  const handleRetryRefund = (booking: Booking) => {
+    retryRefund.mutate(booking, {
+      onSuccess: (result) => {
+        if (result.payment.status === 'refunded') toast.success('Refund issued');
+        else toast.error(result.payment.failureReason ?? 'The refund could not be completed');
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
 
   return (
     <div className="min-h-screen bg-background pb-20">
@@ -13,15 +60,15 @@ const BookingsPage = () => {
       </header>
 
       <div className="flex gap-2 px-4 pb-4">
-        {(['upcoming', 'completed', 'cancelled'] as const).map((t) => (
+        {BOOKING_GROUPS.map((g) => (
           <button
-            key={t}
-            onClick={() => setTab(t)}
-            className={`px-4 py-1.5 rounded-full text-xs font-heading font-medium capitalize transition-all ${
-              tab === t ? 'bg-primary text-primary-foreground' : 'bg-secondary text-muted-foreground'
+            key={g.id}
+            onClick={() => setTab(g.id)}
+            className={`px-4 py-1.5 rounded-full text-xs font-heading font-medium transition-all ${
+              tab === g.id ? 'bg-primary text-primary-foreground' : 'bg-secondary text-muted-foreground'
             }`}
           >
-            {t}
+            {g.label}
           </button>
         ))}
       </div>
@@ -33,33 +80,119 @@ const BookingsPage = () => {
               <img src={booking.salonImage} alt={booking.salonName} className="w-20 h-20 rounded-xl object-cover flex-shrink-0" />
               <div className="flex-1 min-w-0">
                 <h3 className="font-heading font-semibold text-sm text-foreground">{booking.salonName}</h3>
-                <p className="text-[11px] font-body text-muted-foreground mt-0.5 truncate">{booking.services.join(', ')}</p>
+                <p className="text-[11px] font-body text-muted-foreground mt-0.5 truncate">
+                  {booking.items.map((i) => (i.qty > 1 ? `${i.name} ×${i.qty}` : i.name)).join(', ')}
+                </p>
                 <div className="flex items-center gap-1.5 mt-1.5">
                   <CalendarDays size={12} className="text-muted-foreground" />
-                  <span className="text-[11px] font-body text-muted-foreground">{booking.date} • {booking.time}</span>
+                  <span className="text-[11px] font-body text-muted-foreground">
+                    {[format(parseISO(booking.date), 'MMM d, yyyy'), formatTime(booking.time), bookingArtistNames(booking).join(', ')]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </span>
                 </div>
                 <div className="flex items-center justify-between mt-2">
-                  <span className="font-heading font-semibold text-sm text-foreground">₹{booking.totalPrice}</span>
-                  <span className={`text-[10px] font-heading font-medium px-2 py-0.5 rounded-full ${
-                    booking.status === 'upcoming' ? 'bg-primary/10 text-primary' :
-                    booking.status === 'completed' ? 'bg-success/10 text-success' :
-                    'bg-destructive/10 text-destructive'
-                  }`}>
-                    {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+                  <span className="font-heading font-semibold text-sm text-foreground">
+                    ₹{booking.price.total}
+                    <span className="text-[10px] font-body font-normal text-muted-foreground ml-1.5">{describePayment(booking.payment)}</span>
+                  </span>
+                  <span className={`text-[10px] font-heading font-medium px-2 py-0.5 rounded-full ${BOOKING_STATUS_META[booking.status].badgeClass}`}>
+                    {BOOKING_STATUS_META[booking.status].label}
                   </span>
                 </div>
               </div>
             </div>
+            <details className="border-t border-border group">
+              <summary className="px-3 py-2 cursor-pointer text-[11px] font-heading font-medium text-muted-foreground flex items-center gap-1 list-none">
+                Booking history
+                <ChevronRight size={12} className="ml-auto transition-transform group-open:rotate-90" />
+              </summary>
+              <ol className="px-3 pb-3 space-y-1.5">
+                {booking.history.map((event, i) => (
+                  <li key={`${event.status}-${i}`} className="flex items-start gap-2 text-[11px] font-body">
+                    <span className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5 flex-shrink-0" />
+                    <span className="text-foreground">{BOOKING_STATUS_META[event.status].label}</span>
+                    {event.note && <span className="text-muted-foreground truncate">— {event.note}</span>}
+                    <span className="ml-auto text-muted-foreground whitespace-nowrap">{format(parseISO(event.at), 'MMM d, h:mm a')}</span>
+                  </li>
+                ))}
+              </ol>
+            </details>
+            {(canCancel(booking) || canReschedule(booking)) && (
+              <div className="flex border-t border-border">
+                {canCancel(booking) && (
+                  <button
+                    onClick={() => setCancelling(booking)}
+                    className="flex-1 flex items-center justify-center gap-1.5 py-2.5 text-xs font-heading font-medium text-destructive"
+                  >
+                    <X size={14} /> Cancel
+                  </button>
+                )}
+                {canCancel(booking) && canReschedule(booking) && <div className="w-px bg-border" />}
+                {canReschedule(booking) && (
+                  <button
+                    onClick={() => navigate(`/booking/${booking.salonId}?reschedule=${booking.id}`)}
+                    className="flex-1 flex items-center justify-center gap-1.5 py-2.5 text-xs font-heading font-medium text-primary"
+                  >
+                    <RefreshCw size={14} /> Reschedule
+                  </button>
+                )}
+              </div>
+            )}
+            {booking.status === 'pending-payment' && (
+              <button
+                onClick={() => navigate(`/pay/${booking.id}`)}
+                className="w-full flex items-center justify-center gap-1.5 py-2.5 border-t border-border text-xs font-heading font-semibold text-primary"
+              >
+                <CreditCard size={14} /> Complete Payment
+              </button>
+            )}
+            {booking.payment.status === 'refund-pending' && (
+              <button
+                onClick={() => handleRetryRefund(booking)}
+                disabled={retryRefund.isPending}
+                className="w-full flex items-center justify-center gap-1.5 py-2.5 border-t border-border text-xs font-heading font-semibold text-primary disabled:opacity-50"
+              >
+                <RotateCcw size={14} /> Retry Refund of ₹{booking.payment.amount}
+              </button>
+            )}
+            {booking.invoice && (
+              <button
+                onClick={() => navigate(`/bookings/${booking.id}/invoice`)}
+                className="w-full flex items-center justify-center gap-1.5 py-2.5 border-t border-border text-xs font-heading font-medium text-primary"
+              >
+                <FileText size={14} /> View Invoice
+              </button>
+            )}
           </div>
         ))}
-        {filtered.length === 0 && (
+        {isLoading && <div className="h-24 skeleton-shimmer rounded-2xl" />}
+        {!isLoading && filtered.length === 0 && (
           <div className="text-center py-16">
             <CalendarDays size={40} className="mx-auto text-muted-foreground/40 mb-3" />
-            <p className="font-heading font-medium text-sm text-muted-foreground">No {tab} bookings</p>
+            <p className="font-heading font-medium text-sm text-muted-foreground">No {tabLabel} bookings</p>
             <p className="text-xs font-body text-muted-foreground/60 mt-1">Your bookings will appear here</p>
           </div>
         )}
       </div>
+
+      <AlertDialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <AlertDialogContent className="max-w-[90vw] rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-heading">Cancel this booking?</AlertDialogTitle>
+            <AlertDialogDescription className="font-body">
+              {cancelling && `${cancelling.salonName} on ${format(parseISO(cancelling.date), 'MMM d')} at ${formatTime(cancelling.time)}. This slot will be released to other customers.`}
+              {cancelling?.payment.status === 'paid' && ` The ₹${cancelling.payment.amount} you paid will be refunded.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="rounded-xl">Keep Booking</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmCancel} className="rounded-xl bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Cancel Booking
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,111 @@
+import { useEffect, useMemo } from 'react';
+import { ArrowLeft, Image as ImageIcon, MessageCircle } from 'lucide-react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { format, isToday, isYesterday, parseISO } from 'date-fns';
+import { threadSummaries, type ChatIdentity, type ThreadSummary } from '@/chat';
+import { useChat } from '@/hooks/use-chat';
+
+const listTime = (iso: string) => {
+  const date = parseISO(iso);
+  if (isToday(date)) return format(date, 'h:mm a');
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'd MMM');
+};
+
+const preview = ({ last }: ThreadSummary, role: ChatIdentity['role']) => {
+  const text = last.text || (last.attachments.length > 1 ? `${last.attachments.length} photos` : 'Photo');
+  return last.from === role ? `You: ${text}` : text;
+};
+
+const ChatsPage = () => {
+  const navigate = useNavigate();
+  const [params] = useSearchParams();
+  const { client, state, identity: customer } = useChat();
+  // `?salon=<id>` shows that salon's inbox, to try chat from both sides in two tabs (dev builds only)
+  const salonId = import.meta.env.DEV ? params.get('salon') : null;
+  const identity = useMemo<ChatIdentity | null>(() => (salonId ? { role: 'salon', id: salonId } : customer), [salonId, customer]);
+
+  useEffect(() => (salonId && identity ? client.connect(identity) : undefined), [client, salonId, identity]);
+
+  const summaries = identity ? threadSummaries(state, identity) : [];
+  const linkTo = ({ thread }: ThreadSummary) =>
+    salonId ? `/chats/${thread.salonId}?as=salon&customer=${thread.customerId}` : `/chats/${thread.salonId}`;
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <header className="px-4 pt-6 pb-4 flex items-center gap-3">
+        {salonId && (
+          <button onClick={() => navigate(-1)} className="w-9 h-9 rounded-full bg-secondary flex items-center justify-center">
+            <ArrowLeft size={18} className="text-foreground" />
+          </button>
+        )}
+        <h1 className="font-heading font-bold text-xl text-foreground">{salonId ? 'Salon Inbox' : 'Messages'}</h1>
+      </header>
+
+      {summaries.length === 0 ? (
+        <div className="flex flex-col items-center text-center px-8 pt-16">
+          <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center">
+            <MessageCircle size={24} className="text-primary" />
+          </div>
+          <h2 className="font-heading font-semibold text-base text-foreground mt-4">No conversations yet</h2>
+          <p className="text-xs font-body text-muted-foreground mt-1">
+            Questions about a service or a booking? Tap Chat on any salon's page to ask them directly.
+          </p>
+          {!salonId && (
+            <Link to="/explore" className="mt-4 bg-primary text-primary-foreground text-sm font-heading font-medium px-5 py-2 rounded-xl">
+              Find a salon
+            </Link>
+          )}
+        </div>
+      ) : (
+        <div className="px-2">
+          {summaries.map((summary) => {
+            const { thread, last, unread } = summary;
+            const typing = state.typing[thread.id]?.some((role) => role !== identity!.role);
+            const name = salonId ? thread.customerName : thread.salonName;
+            return (
+              <Link
+                key={thread.id}
+                to={linkTo(summary)}
+                className="flex items-center gap-3 px-2 py-3 rounded-2xl active:bg-secondary/60 transition-colors"
+              >
+                {salonId ? (
+                  <div className="w-12 h-12 rounded-full bg-secondary flex items-center justify-center font-heading font-semibold text-primary flex-shrink-0">
+                    {name.charAt(0).toUpperCase()}
+                  </div>
+                ) : (
+                  <img src={thread.salonImage} alt={name} className="w-12 h-12 rounded-full object-cover flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className={`font-heading text-sm text-foreground truncate ${unread ? 'font-bold' : 'font-semibold'}`}>{name}</h3>
+                    <span className={`text-[10px] font-body flex-shrink-0 ${unread ? 'text-primary font-semibold' : 'text-muted-foreground'}`}>
+                      {listTime(last.sentAt)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 mt-0.5">
+                    {typing ? (
+                      <p className="text-xs font-body text-primary italic">typing…</p>
+                    ) : (
+                      <p className={`text-xs font-body truncate flex items-center gap-1 ${unread ? 'text-foreground' : 'text-muted-foreground'}`}>
+                        {!last.text && <ImageIcon size={12} className="flex-shrink-0" />}
+                        {preview(summary, identity!.role)}
+                      </p>
+                    )}
+                    {unread > 0 && (
+                      <span className="min-w-[1.25rem] h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-[10px] font-heading font-semibold flex items-center justify-center flex-shrink-0">
+                        {unread}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatsPage;
@@ -0,0 +1,310 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent, type FormEvent, type KeyboardEvent } from 'react';
+import { AlertCircle, ArrowLeft, Check, CheckCheck, ExternalLink, ImagePlus, Loader2, SendHorizontal, X } from 'lucide-react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { format, isToday, isYesterday, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  MAX_ATTACHMENTS,
+  readImageAttachment,
+  threadIdFor,
+  validateDraft,
+  type ChatAttachment,
+  type ChatIdentity,
+  type ChatMessage,
+  type ChatRole,
+  type ChatThread,
+} from '@/chat';
+import { useAuth } from '@/hooks/use-auth';
+import { useSalon } from '@/hooks/use-catalog';
+import { useChat } from '@/hooks/use-chat';
+
+const dayLabel = (iso: string) => {
+  const date = parseISO(iso);
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'EEE, d MMM');
+};
+
+const NOT_SAVED = "Couldn't send: this device is out of space for chats. Try again with fewer photos.";
+
+const Receipt = ({ message }: { message: ChatMessage }) => {
+  if (message.failed) return <AlertCircle size={14} aria-label="Not sent" />;
+  if (message.readAt) return <CheckCheck size={14} className="text-sky-300" aria-label="Read" />;
+  if (message.deliveredAt) return <CheckCheck size={14} className="opacity-70" aria-label="Delivered" />;
+  return <Check size={14} className="opacity-70" aria-label="Sent" />;
+};
+
+const ConversationPage = () => {
+  const { salonId } = useParams();
+  const [params] = useSearchParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { client, state } = useChat();
+  const { data: salon, isLoading } = useSalon(salonId);
+
+  // `?as=salon&customer=<id>` answers as the salon, to try chat from both sides in two tabs (dev builds only)
+  const role: ChatRole = import.meta.env.DEV && params.get('as') === 'salon' ? 'salon' : 'customer';
+  const customerId = role === 'salon' ? params.get('customer') ?? '' : user?.id ?? '';
+  const threadId = threadIdFor(salonId ?? '', customerId);
+  const stored = state.threads.find((t) => t.id === threadId);
+  // A customer's first visit has no thread yet; it's created with the first message
+  const thread: ChatThread | null =
+    stored ??
+    (salon && user && role === 'customer'
+      ? {
+          id: threadId,
+          salonId: salon.id,
+          salonName: salon.name,
+          salonImage: salon.image,
+          customerId: user.id,
+          customerName: user.name,
+        }
+      : null);
+  const messages = useMemo(() => state.messages.filter((m) => m.threadId === threadId), [state.messages, threadId]);
+  const otherTyping = state.typing[threadId]?.some((r) => r !== role) ?? false;
+
+  const [text, setText] = useState('');
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [attaching, setAttaching] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const bottom = useRef<HTMLDivElement>(null);
+
+  const salonIdentity = useMemo<ChatIdentity | null>(() => (role === 'salon' && salonId ? { role, id: salonId } : null), [role, salonId]);
+  useEffect(() => (salonIdentity ? client.connect(salonIdentity) : undefined), [client, salonIdentity]);
+
+  // Whatever arrives while the conversation is on screen has been read
+  useEffect(() => {
+    const markRead = () => document.visibilityState === 'visible' && client.markRead(threadId, role);
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [client, threadId, role, messages.length]);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView?.({ block: 'end' });
+  }, [messages.length, otherTyping]);
+
+  // Stop showing "typing…" on the other side when the customer leaves mid-sentence
+  useEffect(() => () => client.setTyping(threadId, role, false), [client, threadId, role]);
+
+  const onChange = (value: string) => {
+    setText(value);
+    client.setTyping(threadId, role, value.trim().length > 0);
+  };
+
+  const attach = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])].slice(0, MAX_ATTACHMENTS - attachments.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setAttaching(true);
+    try {
+      const added = await Promise.all(files.map(readImageAttachment));
+      setAttachments((current) => [...current, ...added]);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setAttaching(false);
+    }
+  };
+
+  const send = (e?: FormEvent) => {
+    e?.preventDefault();
+    if (!thread) return;
+    const draft = { text, attachments };
+    if (validateDraft(draft)) return;
+    try {
+      // One that couldn't be saved stays in the thread, marked as failed, with a retry
+      if (client.send(thread, role, draft).failed) toast.error(NOT_SAVED);
+      setText('');
+      setAttachments([]);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const retry = (messageId: string) => {
+    try {
+      if (client.retry(messageId).failed) toast.error(NOT_SAVED);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      send();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="h-16 skeleton-shimmer" />
+      </div>
+    );
+  }
+
+  if (!salon || !thread) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-6">
+        <div className="text-center">
+          <h2 className="font-heading font-semibold text-lg text-foreground">Conversation not found</h2>
+          <p className="text-xs font-body text-muted-foreground mt-1">It may have been removed or the link is incorrect.</p>
+          <button
+            onClick={() => navigate('/chats')}
+            className="mt-4 bg-primary text-primary-foreground text-sm font-heading font-medium px-5 py-2 rounded-xl"
+          >
+            Back to Messages
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const title = role === 'salon' ? thread.customerName : thread.salonName;
+  const canSend = !validateDraft({ text, attachments });
+
+  return (
+    <div className="h-[100dvh] bg-background flex flex-col">
+      <header className="sticky top-0 z-40 bg-card border-b border-border px-4 py-3 flex items-center gap-3">
+        <button onClick={() => navigate(-1)} className="w-9 h-9 rounded-full bg-secondary flex items-center justify-center">
+          <ArrowLeft size={18} className="text-foreground" />
+        </button>
+        {role === 'customer' && <img src={thread.salonImage} alt="" className="w-9 h-9 rounded-full object-cover" />}
+        <div className="flex-1 min-w-0">
+          <h1 className="font-heading font-semibold text-base text-foreground truncate">{title}</h1>
+          <p className={`text-[11px] font-body ${otherTyping ? 'text-primary' : 'text-muted-foreground'}`}>
+            {otherTyping ? 'typing…' : role === 'salon' ? `Replying as ${thread.salonName}` : 'Usually replies within an hour'}
+          </p>
+        </div>
+        {import.meta.env.DEV && role === 'customer' && (
+          <a
+            href={`/chats/${thread.salonId}?as=salon&customer=${thread.customerId}`}
+            target="_blank"
+            rel="noreferrer"
+            title="Open this conversation as the salon in a new tab"
+            className="w-9 h-9 rounded-full bg-secondary flex items-center justify-center"
+          >
+            <ExternalLink size={16} className="text-muted-foreground" />
+          </a>
+        )}
+      </header>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-1.5">
+        {messages.length === 0 && (
+          <p className="text-center text-xs font-body text-muted-foreground pt-10 px-6">
+            Ask {thread.salonName} about services, prices or your booking. They'll reply here.
+          </p>
+        )}
+        {messages.map((message, i) => {
+          const mine = message.from === role;
+          const newDay = i === 0 || dayLabel(messages[i - 1].sentAt) !== dayLabel(message.sentAt);
+          return (
+            <div key={message.id}>
+              {newDay && (
+                <p className="text-center text-[10px] font-heading font-medium text-muted-foreground py-2">{dayLabel(message.sentAt)}</p>
+              )}
+              <div className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[78%] rounded-2xl px-3 py-2 ${
+                    mine ? 'bg-primary text-primary-foreground rounded-br-md' : 'bg-card text-foreground card-shadow rounded-bl-md'
+                  }`}
+                >
+                  {message.attachments.length > 0 && (
+                    <div className={`grid gap-1 mb-1 ${message.attachments.length > 1 ? 'grid-cols-2' : ''}`}>
+                      {message.attachments.map((a) => (
+                        <a key={a.id} href={a.dataUrl} target="_blank" rel="noreferrer">
+                          <img
+                            src={a.dataUrl}
+                            alt={a.name}
+                            className="rounded-xl object-cover w-full max-h-60"
+                            style={{ aspectRatio: `${a.width} / ${a.height}` }}
+                          />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {message.text && <p className="text-sm font-body whitespace-pre-wrap break-words">{message.text}</p>}
+                  <span className={`flex items-center justify-end gap-1 text-[10px] mt-0.5 ${mine ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+                    {format(parseISO(message.sentAt), 'h:mm a')}
+                    {mine && <Receipt message={message} />}
+                  </span>
+                </div>
+              </div>
+              {mine && message.failed && (
+                <button
+                  onClick={() => retry(message.id)}
+                  className="ml-auto flex items-center gap-1 text-[10px] font-heading font-medium text-destructive pt-0.5"
+                >
+                  <AlertCircle size={12} /> Not sent · Tap to retry
+                </button>
+              )}
+            </div>
+          );
+        })}
+        {otherTyping && (
+          <div className="flex justify-start" aria-label={`${title} is typing`}>
+            <div className="bg-card card-shadow rounded-2xl rounded-bl-md px-3 py-2.5 flex gap-1">
+              {[0, 150, 300].map((delay) => (
+                <span key={delay} className="w-1.5 h-1.5 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: `${delay}ms` }} />
+              ))}
+            </div>
+          </div>
+        )}
+        <div ref={bottom} />
+      </div>
+
+      <form onSubmit={send} className="border-t border-border bg-card px-3 py-2 space-y-2">
+        {attachments.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+            {attachments.map((a) => (
+              <div key={a.id} className="relative flex-shrink-0">
+                <img src={a.dataUrl} alt={a.name} className="w-16 h-16 rounded-xl object-cover" />
+                <button
+                  type="button"
+                  onClick={() => setAttachments((current) => current.filter((c) => c.id !== a.id))}
+                  aria-label={`Remove ${a.name}`}
+                  className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-foreground text-background flex items-center justify-center"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <button
+            type="button"
+            onClick={() => fileInput.current?.click()}
+            disabled={attaching || attachments.length >= MAX_ATTACHMENTS}
+            aria-label="Attach photos"
+            className="w-10 h-10 rounded-full flex items-center justify-center text-muted-foreground disabled:opacity-40"
+          >
+            {attaching ? <Loader2 size={20} className="animate-spin" /> : <ImagePlus size={20} />}
+          </button>
+          <input ref={fileInput} type="file" accept="image/*" multiple hidden onChange={attach} />
+          <textarea
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={onKeyDown}
+            onBlur={() => client.setTyping(threadId, role, false)}
+            rows={1}
+            placeholder="Message"
+            className="flex-1 resize-none max-h-32 bg-secondary rounded-2xl px-4 py-2.5 text-sm font-body text-foreground placeholder:text-muted-foreground outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!canSend}
+            aria-label="Send"
+            className="w-10 h-10 rounded-full bg-primary text-primary-foreground flex items-center justify-center active:scale-95 transition-transform disabled:opacity-40"
+          >
+            <SendHorizontal size={18} />
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ConversationPage;
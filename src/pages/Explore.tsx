@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { ChevronDown, List, Map, MapPin } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import ActiveFilterChips from '@/components/ActiveFilterChips';
+import CategoryChips from '@/components/CategoryChips';
+import FilterSheet from '@/components/FilterSheet';
+import LocationSheet from '@/components/LocationSheet';
+import SearchBar from '@/components/SearchBar';
+import SearchResults from '@/components/SearchResults';
+import { useCategories } from '@/hooks/use-catalog';
+import { useRecentSearches } from '@/hooks/use-recent-searches';
+import { useSearchState } from '@/hooks/use-search-state';
+import { useUserLocation } from '@/hooks/use-user-location';
+import { DEFAULT_FILTERS } from '@/lib/filters';
+
+const popularSearches = ['Haircut', 'Beard trim', 'Facial', 'Hair spa', 'Bridal package'];
+
+const views = [
+  { id: 'list', icon: List, label: 'List' },
+  { id: 'map', icon: Map, label: 'Map' },
+] as const;
+
+const ExplorePage = () => {
+  const [params, setParams] = useSearchParams();
+  const { query, setQuery, filters, setFilters, clearFilters, chips } = useSearchState();
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [locationOpen, setLocationOpen] = useState(false);
+  const { label: locationLabel } = useUserLocation();
+  const recentSearches = useRecentSearches();
+  const { data: categories = [] } = useCategories();
+  const view = params.get('view') === 'map' ? 'map' : 'list';
+
+  const setView = (next: 'list' | 'map') =>
+    setParams(
+      (current) => {
+        const updated = new URLSearchParams(current);
+        if (next === 'map') updated.set('view', 'map');
+        else updated.delete('view');
+        return updated;
+      },
+      { replace: true },
+    );
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <header className="sticky top-0 z-40 bg-background/95 backdrop-blur pt-4">
+        <div className="flex items-center justify-between px-4">
+          <h1 className="font-heading font-bold text-xl text-foreground">Explore</h1>
+          <button onClick={() => setLocationOpen(true)} className="flex items-center gap-1 bg-secondary px-3 py-1.5 rounded-full max-w-[9rem]">
+            <MapPin size={14} className="text-primary flex-shrink-0" />
+            <span className="text-xs font-body font-medium text-foreground truncate">{locationLabel}</span>
+            <ChevronDown size={12} className="text-muted-foreground flex-shrink-0" />
+          </button>
+        </div>
+        <div className="px-4 py-3 relative">
+          <SearchBar
+            value={query}
+            onChange={setQuery}
+            history={recentSearches}
+            popularSearches={popularSearches}
+            onOpenFilters={() => setFiltersOpen(true)}
+            activeFilterCount={chips.length}
+          />
+        </div>
+        <ActiveFilterChips chips={chips} filters={filters} onChange={setFilters} onClear={clearFilters} />
+      </header>
+
+      <CategoryChips
+        categories={categories}
+        selected={filters.category ?? null}
+        onSelect={(id) => setFilters({ ...filters, category: id === filters.category ? undefined : id })}
+      />
+
+      <div className="pt-3">
+        <SearchResults
+          query={query}
+          filters={filters}
+          popularSearches={popularSearches}
+          onSearch={setQuery}
+          onClearFilters={() => setFilters(DEFAULT_FILTERS)}
+          onOpenResult={() => recentSearches.add(query)}
+          view={view}
+          actions={
+            <div className="flex bg-secondary rounded-lg p-0.5">
+              {views.map((v) => (
+                <button
+                  key={v.id}
+                  onClick={() => setView(v.id)}
+                  aria-label={`${v.label} view`}
+                  className={`flex items-center gap-1 px-2.5 py-1 rounded-md text-[11px] font-heading font-medium transition-colors ${
+                    view === v.id ? 'bg-card text-primary shadow-sm' : 'text-muted-foreground'
+                  }`}
+                >
+                  <v.icon size={12} />
+                  {v.label}
+                </button>
+              ))}
+            </div>
+          }
+        />
+      </div>
+
+      <FilterSheet open={filtersOpen} onOpenChange={setFiltersOpen} filters={filters} onApply={setFilters} />
+      <LocationSheet open={locationOpen} onOpenChange={setLocationOpen} />
+    </div>
+  );
+};
+
+export default ExplorePage;
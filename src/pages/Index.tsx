@@ -1,49 +1,91 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Search, MapPin, Bell, SlidersHorizontal, ChevronDown, Mic, Map, TrendingUp } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { MapPin, Bell, ChevronDown, Map, TrendingUp } from 'lucide-react';
+import ActiveFilterChips from '@/components/ActiveFilterChips';
 import FeaturedCarousel from '@/components/FeaturedCarousel';
+import FilterSheet from '@/components/FilterSheet';
+import GenderToggle from '@/components/GenderToggle';
+import LocationSheet from '@/components/LocationSheet';
 import CategoryChips from '@/components/CategoryChips';
 import NearbySalonCard from '@/components/NearbySalonCard';
-import { categories, featuredSalons, nearbySalons } from '@/data/mockData';
+import SearchBar from '@/components/SearchBar';
+import SearchResults from '@/components/SearchResults';
+import UserAvatar from '@/components/UserAvatar';
+import { useAuth } from '@/hooks/use-auth';
+import { useCategories, useSalons, useServices } from '@/hooks/use-catalog';
+import { useGenderPreference } from '@/hooks/use-gender-preference';
+import { useRecentSearches } from '@/hooks/use-recent-searches';
+import { useSearchState } from '@/hooks/use-search-state';
+import { useUserLocation } from '@/hooks/use-user-location';
+import { lowestCategoryPrices } from '@/lib/categories';
+import { formatDistance } from '@/lib/geo';
+import { categoriesForPreference, servesPreference, suggestForPreference, suitsPreference } from '@/lib/genderPreference';
+import type { Salon } from '@/types/salon';
 
-const searchSuggestions = ['Haircut near me', 'Bridal makeup', 'Hair coloring', 'Beard trim', 'Spa packages'];
+const popularSearches = ['Haircut near me', 'Bridal makeup', 'Hair color', 'Beard trim', 'Spa packages'];
+
+const NEARBY_LIMIT = 8;
 
 const HomePage = () => {
-  const [gender, setGender] = useState<'male' | 'female'>(() => {
-    return (localStorage.getItem('preferred_gender') as 'male' | 'female') || 'male';
-  });
+  const [gender, setGender] = useGenderPreference();
   const [selectedCategory, setSelectedCategory] = useState<string | null>(() => {
-    return localStorage.getItem('preferred_category') || '1';
+    return localStorage.getItem('preferred_category');
   });
-  const [searchFocused, setSearchFocused] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [isLoading, setIsLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
+  const { query: searchQuery, setQuery: setSearchQuery, filters, setFilters, clearFilters, chips } = useSearchState();
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const recentSearches = useRecentSearches();
+  const isSearching = searchQuery.trim().length > 0 || chips.length > 0;
 
-  // Save preferences
-  useEffect(() => {
-    localStorage.setItem('preferred_gender', gender);
-  }, [gender]);
+  const { user } = useAuth();
+  const { data: categories = [] } = useCategories();
+  const { location, city, label: locationLabel, distanceTo } = useUserLocation();
+  const featuredQuery = useSalons({ featured: true, cityId: location.cityId });
+  const salonsQuery = useSalons({ cityId: location.cityId });
+  const servicesQuery = useServices();
+  const isLoading = featuredQuery.isLoading || salonsQuery.isLoading || servicesQuery.isLoading;
+  const comingSoon = !isLoading && salonsQuery.data?.length === 0;
+  const [locationOpen, setLocationOpen] = useState(false);
 
+  // Only what the customer's gender preference allows: the salons serving them and the services on their menu
+  const suitableServices = useMemo(
+    () => (servicesQuery.data ?? []).filter((s) => suitsPreference(s, gender)),
+    [servicesQuery.data, gender],
+  );
+  const shownCategories = useMemo(
+    () => categoriesForPreference(categories, salonsQuery.data ?? [], suitableServices, gender),
+    [categories, salonsQuery.data, suitableServices, gender],
+  );
+  // A saved category the preference now hides is set aside rather than forgotten
+  const activeCategory = shownCategories.some((c) => c.id === selectedCategory) ? selectedCategory : null;
+
+  // With a category chosen, only salons offering it are shown, priced by their cheapest service in it
+  const categoryPrices = useMemo(
+    () => (activeCategory ? lowestCategoryPrices(suitableServices, activeCategory) : null),
+    [activeCategory, suitableServices],
+  );
+  const shown = (salons: Salon[] = []) =>
+    salons.filter((s) => servesPreference(s, gender) && (!categoryPrices || s.id in categoryPrices));
+  const featuredSalons = shown(featuredQuery.data);
+  const nearbySalons = shown(salonsQuery.data)
+    .sort((a, b) => distanceTo(a.coordinates) - distanceTo(b.coordinates))
+    .slice(0, NEARBY_LIMIT);
+  const suggestedSalons = suggestForPreference(shown(salonsQuery.data), gender).slice(0, 3);
+  const priceOf = (salon: Salon) => categoryPrices?.[salon.id] ?? salon.startingPrice;
+  const categoryName = categories.find((c) => c.id === activeCategory)?.name;
+
+  const exploreLink = (sort: string) => {
+    const params = new URLSearchParams({ sort });
+    if (activeCategory) params.set('category', activeCategory);
+    if (gender !== 'everyone') params.set('for', gender);
+    return `/explore?${params}`;
+  };
+
+  // Save preferences
   useEffect(() => {
     if (selectedCategory) localStorage.setItem('preferred_category', selectedCategory);
+    else localStorage.removeItem('preferred_category');
   }, [selectedCategory]);
 
-  // Simulate loading
-  useEffect(() => {
-    const t = setTimeout(() => setIsLoading(false), 1200);
-    return () => clearTimeout(t);
-  }, []);
-
-  // Pull to refresh
-  const handleRefresh = useCallback(() => {
-    setRefreshing(true);
-    setIsLoading(true);
-    setTimeout(() => {
-      setRefreshing(false);
-      setIsLoading(false);
-    }, 1500);
-  }, []);
-
   const SkeletonCard = () => (
     <div className="flex-shrink-0 w-52 bg-card rounded-2xl overflow-hidden card-shadow">
       <div className="h-32 skeleton-shimmer rounded-t-2xl" />
@@ -59,28 +101,35 @@ const HomePage = () => {
     <div className="mx-4 aspect-[16/10] skeleton-shimmer rounded-2xl" />
   );
 
+  const NoneInCategory = () => (
+    <p className="w-full text-xs font-body text-muted-foreground text-center bg-secondary/50 rounded-2xl py-6 px-4">
+      {categoryName ? `None of these salons offer ${categoryName} yet` : 'No salons here match your preference yet'}
+    </p>
+  );
+
   return (
     <div className="min-h-screen bg-background pb-20">
       {/* Header */}
       <header className="px-4 pt-4 pb-2">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center overflow-hidden">
-              <img
-                src="https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=80&h=80&fit=crop"
-                alt="avatar"
-                className="w-full h-full object-cover"
-              />
-            </div>
-            <div>
-              <p className="text-xs text-muted-foreground font-body">Hello,</p>
-              <p className="font-heading font-semibold text-sm text-foreground">Aarav</p>
-            </div>
+            <UserAvatar user={user} className="w-10 h-10 bg-primary/10 text-primary text-sm" />
+            {user ? (
+              <div>
+                <p className="text-xs text-muted-foreground font-body">Hello,</p>
+                <p className="font-heading font-semibold text-sm text-foreground">{user.name.split(' ')[0]}</p>
+              </div>
+            ) : (
+              <div>
+                <p className="text-xs text-muted-foreground font-body">Hello, Guest</p>
+                <Link to="/login" className="font-heading font-semibold text-sm text-primary">Log in</Link>
+              </div>
+            )}
           </div>
           <div className="flex items-center gap-3">
-            <button className="flex items-center gap-1 bg-secondary px-3 py-1.5 rounded-full">
-              <MapPin size={14} className="text-primary" />
-              <span className="text-xs font-body font-medium text-foreground">Bangalore</span>
+            <button onClick={() => setLocationOpen(true)} className="flex items-center gap-1 bg-secondary px-3 py-1.5 rounded-full max-w-[9rem]">
+              <MapPin size={14} className="text-primary flex-shrink-0" />
+              <span className="text-xs font-body font-medium text-foreground truncate">{locationLabel}</span>
               <ChevronDown size={12} className="text-muted-foreground" />
             </button>
             <button className="relative p-2">
@@ -103,167 +152,166 @@ const HomePage = () => {
 
       {/* Search */}
       <div className="px-4 py-3 relative">
-        <div className={`flex items-center gap-2 bg-card border rounded-2xl px-4 py-3 transition-all duration-250 ${
-          searchFocused ? 'border-primary shadow-md' : 'border-border card-shadow'
-        }`}>
-          <Search size={18} className="text-muted-foreground flex-shrink-0" />
-          <input
-            type="text"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search salon, service..."
-            className="flex-1 bg-transparent text-sm font-body text-foreground placeholder:text-muted-foreground outline-none"
-            onFocus={() => setSearchFocused(true)}
-            onBlur={() => setTimeout(() => setSearchFocused(false), 200)}
-          />
-          <Mic size={18} className="text-muted-foreground flex-shrink-0 cursor-pointer active:text-primary transition-colors" />
-          <SlidersHorizontal size={18} className="text-muted-foreground flex-shrink-0 cursor-pointer" />
-        </div>
-
-        {/* Search Suggestions */}
-        {searchFocused && !searchQuery && (
-          <div className="absolute left-4 right-4 top-full mt-1 bg-card border border-border rounded-2xl shadow-lg z-30 overflow-hidden animate-fade-in-up" style={{ animationDuration: '200ms' }}>
-            <p className="text-[10px] font-heading font-semibold text-muted-foreground px-4 pt-3 pb-1">RECENT SEARCHES</p>
-            {searchSuggestions.map((s) => (
-              <button
-                key={s}
-                onMouseDown={() => setSearchQuery(s)}
-                className="w-full text-left px-4 py-2.5 text-sm font-body text-foreground hover:bg-secondary/50 flex items-center gap-2 transition-colors"
-              >
-                <Search size={14} className="text-muted-foreground" />
-                {s}
-              </button>
-            ))}
-          </div>
-        )}
+        <SearchBar
+          value={searchQuery}
+          onChange={setSearchQuery}
+          history={recentSearches}
+          popularSearches={popularSearches}
+          onOpenFilters={() => setFiltersOpen(true)}
+          activeFilterCount={chips.length}
+        />
       </div>
 
-      {/* Gender Toggle */}
-      <div className="px-4 pb-3">
-        <div className="flex items-center gap-2">
-          <span className="text-xs font-body text-muted-foreground mr-1">Select Gender</span>
-          <div className="relative flex bg-secondary rounded-xl p-0.5">
-            <div
-              className="absolute top-0.5 bottom-0.5 rounded-lg bg-primary transition-transform duration-250 ease-out"
-              style={{
-                width: 'calc(50% - 2px)',
-                transform: gender === 'male' ? 'translateX(2px)' : 'translateX(calc(100% + 2px))',
-              }}
-            />
-            <button
-              onClick={() => setGender('male')}
-              className={`relative z-10 px-5 py-1.5 text-xs font-heading font-medium rounded-lg transition-colors duration-200 ${
-                gender === 'male' ? 'text-primary-foreground' : 'text-muted-foreground'
-              }`}
-            >
-              Male
-            </button>
-            <button
-              onClick={() => setGender('female')}
-              className={`relative z-10 px-5 py-1.5 text-xs font-heading font-medium rounded-lg transition-colors duration-200 ${
-                gender === 'female' ? 'text-primary-foreground' : 'text-muted-foreground'
-              }`}
-            >
-              Female
-            </button>
+      {/* Active Filters */}
+      <ActiveFilterChips chips={chips} filters={filters} onChange={setFilters} onClear={clearFilters} />
+
+      <FilterSheet open={filtersOpen} onOpenChange={setFiltersOpen} filters={filters} onApply={setFilters} />
+      <LocationSheet open={locationOpen} onOpenChange={setLocationOpen} />
+
+      {isSearching ? (
+        <SearchResults
+          query={searchQuery}
+          filters={filters}
+          popularSearches={popularSearches}
+          onSearch={setSearchQuery}
+          onClearFilters={clearFilters}
+          onOpenResult={() => recentSearches.add(searchQuery)}
+        />
+      ) : comingSoon ? (
+        <div className="px-8 pt-12 pb-8 text-center">
+          <div className="w-14 h-14 rounded-full bg-secondary flex items-center justify-center mx-auto mb-3">
+            <MapPin size={24} className="text-muted-foreground" />
           </div>
+          <h3 className="font-heading font-semibold text-base text-foreground">Coming soon to {city?.name ?? 'your city'}</h3>
+          <p className="text-xs font-body text-muted-foreground mt-1">We're signing up salons here. Meanwhile, pick another city.</p>
+          <button
+            onClick={() => setLocationOpen(true)}
+            className="mt-4 text-xs font-heading font-semibold text-primary bg-primary/10 px-4 py-2 rounded-xl active:scale-95 transition-transform"
+          >
+            Change location
+          </button>
         </div>
-      </div>
+      ) : (
+        <>
+          {/* Gender Toggle */}
+          <div className="px-4 pb-3">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-body text-muted-foreground mr-1">Show services for</span>
+              <GenderToggle value={gender} onChange={setGender} />
+            </div>
+          </div>
 
-      {/* Categories */}
-      <CategoryChips
-        categories={categories}
-        selected={selectedCategory}
-        onSelect={(id) => setSelectedCategory(id === selectedCategory ? null : id)}
-      />
+          {/* Categories */}
+          <CategoryChips
+            categories={shownCategories}
+            selected={activeCategory}
+            onSelect={(id) => setSelectedCategory(id === activeCategory ? null : id)}
+          />
 
-      {/* Featured Section */}
-      <div className="pt-4">
-        <h2 className="font-heading font-semibold text-base text-foreground px-4 mb-3">
-          Best Salons in Your City
-        </h2>
-        {isLoading ? <SkeletonCarousel /> : <FeaturedCarousel salons={featuredSalons} />}
-      </div>
+          {/* Featured Section */}
+          <div className="pt-4">
+            <h2 className="font-heading font-semibold text-base text-foreground px-4 mb-3">
+              Best Salons in {city?.name ?? 'Your City'}
+            </h2>
+            {isLoading ? (
+              <SkeletonCarousel />
+            ) : featuredSalons.length > 0 ? (
+              <FeaturedCarousel key={`${gender}:${activeCategory}`} salons={featuredSalons} />
+            ) : (
+              <div className="px-4"><NoneInCategory /></div>
+            )}
+          </div>
 
-      {/* Top Rated / Trending */}
-      <div className="pt-6">
-        <div className="flex items-center justify-between px-4 mb-3">
-          <h2 className="font-heading font-semibold text-base text-foreground flex items-center gap-1.5">
-            <TrendingUp size={16} className="text-accent" /> Trending Now
-          </h2>
-          <button className="text-xs font-body font-medium text-primary">View All →</button>
-        </div>
-        <div className="flex gap-3 overflow-x-auto px-4 pb-4 scrollbar-hide">
-          {isLoading ? (
-            <>
-              <SkeletonCard />
-              <SkeletonCard />
-              <SkeletonCard />
-            </>
-          ) : (
-            featuredSalons.map((salon) => (
-              <NearbySalonCard key={salon.id} salon={salon} />
-            ))
-          )}
-        </div>
-      </div>
+          {/* Top Rated / Trending */}
+          <div className="pt-6">
+            <div className="flex items-center justify-between px-4 mb-3">
+              <h2 className="font-heading font-semibold text-base text-foreground flex items-center gap-1.5">
+                <TrendingUp size={16} className="text-accent" /> Trending Now
+              </h2>
+              <Link to={exploreLink('rating')} className="text-xs font-body font-medium text-primary">View All →</Link>
+            </div>
+            <div className="flex gap-3 overflow-x-auto px-4 pb-4 scrollbar-hide">
+              {isLoading ? (
+                <>
+                  <SkeletonCard />
+                  <SkeletonCard />
+                  <SkeletonCard />
+                </>
+              ) : featuredSalons.length > 0 ? (
+                featuredSalons.map((salon) => (
+                  <NearbySalonCard key={salon.id} salon={salon} fromPrice={priceOf(salon)} />
+                ))
+              ) : (
+                <NoneInCategory />
+              )}
+            </div>
+          </div>
 
-      {/* Nearby Salons */}
-      <div className="pt-2">
-        <div className="flex items-center justify-between px-4 mb-3">
-          <h2 className="font-heading font-semibold text-base text-foreground">Nearby Salons</h2>
-          <button className="text-xs font-body font-medium text-primary">View All →</button>
-        </div>
-        <div className="flex gap-3 overflow-x-auto px-4 pb-4 scrollbar-hide">
-          {isLoading ? (
-            <>
-              <SkeletonCard />
-              <SkeletonCard />
-            </>
-          ) : (
-            nearbySalons.map((salon) => (
-              <NearbySalonCard key={salon.id} salon={salon} />
-            ))
-          )}
-        </div>
-      </div>
+          {/* Nearby Salons */}
+          <div className="pt-2">
+            <div className="flex items-center justify-between px-4 mb-3">
+              <h2 className="font-heading font-semibold text-base text-foreground">Nearby Salons</h2>
+              <Link to={exploreLink('distance')} className="text-xs font-body font-medium text-primary">View All →</Link>
+            </div>
+            <div className="flex gap-3 overflow-x-auto px-4 pb-4 scrollbar-hide">
+              {isLoading ? (
+                <>
+                  <SkeletonCard />
+                  <SkeletonCard />
+                </>
+              ) : nearbySalons.length > 0 ? (
+                nearbySalons.map((salon) => (
+                  <NearbySalonCard key={salon.id} salon={salon} fromPrice={priceOf(salon)} />
+                ))
+              ) : (
+                <NoneInCategory />
+              )}
+            </div>
+          </div>
 
-      {/* Explore on Map */}
-      <div className="px-4 pb-4">
-        <button className="w-full flex items-center justify-center gap-2 bg-primary/10 text-primary font-heading font-semibold text-sm py-3 rounded-2xl active:scale-[0.98] transition-transform">
-          <Map size={18} />
-          Explore Salons on Map
-        </button>
-      </div>
+          {/* Explore on Map */}
+          <div className="px-4 pb-4">
+            <Link
+              to="/map"
+              className="w-full flex items-center justify-center gap-2 bg-primary/10 text-primary font-heading font-semibold text-sm py-3 rounded-2xl active:scale-[0.98] transition-transform"
+            >
+              <Map size={18} />
+              Explore Salons on Map
+            </Link>
+          </div>
 
-      {/* Suggested For You */}
-      <div className="pt-2 pb-4">
-        <div className="flex items-center justify-between px-4 mb-3">
-          <h2 className="font-heading font-semibold text-base text-foreground">Suggested for You</h2>
-        </div>
-        <div className="px-4 space-y-3">
-          {isLoading ? (
-            <div className="h-24 skeleton-shimmer rounded-2xl" />
-          ) : (
-            [...featuredSalons, ...nearbySalons].slice(0, 3).map((salon) => (
-              <div key={salon.id} className="flex items-center gap-3 bg-card rounded-2xl p-3 card-shadow">
-                <img src={salon.image} alt={salon.name} className="w-16 h-16 rounded-xl object-cover" />
-                <div className="flex-1 min-w-0">
-                  <h4 className="font-heading font-semibold text-sm text-foreground truncate">{salon.name}</h4>
-                  <p className="text-[11px] font-body text-muted-foreground">{salon.address} • {salon.distance}</p>
-                  <div className="flex items-center gap-1 mt-1">
-                    <span className="text-xs text-accent">⭐ {salon.rating}</span>
-                    <span className="text-[10px] text-muted-foreground">• From ₹{salon.startingPrice}</span>
+          {/* Suggested For You */}
+          <div className="pt-2 pb-4">
+            <div className="flex items-center justify-between px-4 mb-3">
+              <h2 className="font-heading font-semibold text-base text-foreground">Suggested for You</h2>
+            </div>
+            <div className="px-4 space-y-3">
+              {isLoading ? (
+                <div className="h-24 skeleton-shimmer rounded-2xl" />
+              ) : suggestedSalons.length === 0 ? (
+                <NoneInCategory />
+              ) : (
+                suggestedSalons.map((salon) => (
+                  <div key={salon.id} className="flex items-center gap-3 bg-card rounded-2xl p-3 card-shadow">
+                    <img src={salon.image} alt={salon.name} className="w-16 h-16 rounded-xl object-cover" />
+                    <div className="flex-1 min-w-0">
+                      <h4 className="font-heading font-semibold text-sm text-foreground truncate">{salon.name}</h4>
+                      <p className="text-[11px] font-body text-muted-foreground">{salon.address} • {formatDistance(distanceTo(salon.coordinates))}</p>
+                      <div className="flex items-center gap-1 mt-1">
+                        <span className="text-xs text-accent">⭐ {salon.rating}</span>
+                        <span className="text-[10px] text-muted-foreground">• From ₹{priceOf(salon)}</span>
+                      </div>
+                    </div>
+                    <button className="text-[11px] font-heading font-semibold text-primary bg-primary/10 px-3 py-1.5 rounded-lg active:scale-95 transition-transform flex-shrink-0">
+                      Book
+                    </button>
                   </div>
-                </div>
-                <button className="text-[11px] font-heading font-semibold text-primary bg-primary/10 px-3 py-1.5 rounded-lg active:scale-95 transition-transform flex-shrink-0">
-                  Book
-                </button>
-              </div>
-            ))
-          )}
-        </div>
-      </div>
+                ))
+              )}
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
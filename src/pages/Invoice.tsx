@@ -0,0 +1,159 @@
+import { ArrowLeft, Download, FileText } from 'lucide-react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { useBooking } from '@/hooks/use-bookings';
+import { useSalon } from '@/hooks/use-catalog';
+import { bookingArtistNames } from '@/lib/availability';
+import {
+  CGST_RATE,
+  SALON_SAC,
+  SGST_RATE,
+  formatInvoiceAmount,
+  placeOfSupply,
+  quotePrice,
+} from '@/lib/pricing';
+import { formatTime } from '@/lib/time';
+
+const InvoicePage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { data: booking, isLoading } = useBooking(id);
+  const { data: salon } = useSalon(booking?.salonId);
+
+  const header = (
+    <header className="px-4 pt-6 pb-4 flex items-center gap-3 print:hidden">
+      <button onClick={() => navigate(-1)} className="w-9 h-9 rounded-full bg-secondary flex items-center justify-center">
+        <ArrowLeft size={18} className="text-foreground" />
+      </button>
+      <h1 className="font-heading font-bold text-xl text-foreground flex-1">Tax Invoice</h1>
+      {booking?.invoice && (
+        <button
+          onClick={() => window.print()}
+          className="flex items-center gap-1.5 bg-primary text-primary-foreground text-xs font-heading font-medium px-3 py-2 rounded-xl"
+        >
+          <Download size={14} /> Download PDF
+        </button>
+      )}
+    </header>
+  );
+
+  if (isLoading || !booking || !booking.invoice || !salon) {
+    return (
+      <div className="min-h-screen bg-background pb-20">
+        {header}
+        <div className="text-center py-16 px-8">
+          {isLoading ? (
+            <div className="w-10 h-10 rounded-full border-2 border-primary border-t-transparent animate-spin mx-auto" />
+          ) : (
+            <>
+              <FileText size={40} className="mx-auto text-muted-foreground/40 mb-3" />
+              <p className="font-heading font-medium text-sm text-muted-foreground">
+                {booking ? 'No invoice yet' : 'Booking not found'}
+              </p>
+              {booking && (
+                <p className="text-xs font-body text-muted-foreground/60 mt-1">
+                  An invoice is issued once your appointment is completed
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const quote = quotePrice(booking.items, booking.price.discount);
+  const specialists = bookingArtistNames(booking);
+
+  return (
+    <div className="min-h-screen bg-background pb-20 print:pb-0 print:bg-white">
+      {header}
+
+      <article className="mx-4 bg-card rounded-2xl p-4 card-shadow text-foreground print:mx-0 print:p-0 print:shadow-none print:rounded-none">
+        <div className="flex justify-between items-start gap-4 border-b border-border pb-3">
+          <div>
+            <h2 className="font-heading font-bold text-base">{salon.name}</h2>
+            <p className="text-[11px] font-body text-muted-foreground">{salon.address}</p>
+            <p className="text-[11px] font-body text-muted-foreground">GSTIN: {salon.gstin}</p>
+          </div>
+          <div className="text-right">
+            <p className="font-heading font-semibold text-xs tracking-wide">TAX INVOICE</p>
+            <p className="text-[11px] font-body text-muted-foreground mt-1">{booking.invoice.number}</p>
+            <p className="text-[11px] font-body text-muted-foreground">{format(parseISO(booking.invoice.issuedAt), 'dd MMM yyyy')}</p>
+          </div>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 py-3 border-b border-border text-[11px] font-body">
+          <dt className="text-muted-foreground">Booking ref.</dt>
+          <dd className="text-right">#{booking.id}</dd>
+          <dt className="text-muted-foreground">Service date</dt>
+          <dd className="text-right">{format(parseISO(booking.date), 'dd MMM yyyy')}, {formatTime(booking.time)}</dd>
+          {specialists.length > 0 && (
+            <>
+              <dt className="text-muted-foreground">{specialists.length > 1 ? 'Specialists' : 'Specialist'}</dt>
+              <dd className="text-right">{specialists.join(', ')}</dd>
+            </>
+          )}
+          <dt className="text-muted-foreground">Place of supply</dt>
+          <dd className="text-right">{placeOfSupply(salon.gstin)}</dd>
+        </dl>
+
+        <table className="w-full text-[10px] font-body mt-3">
+          <thead>
+            <tr className="text-muted-foreground border-b border-border">
+              <th className="text-left font-medium pb-1.5">Service</th>
+              <th className="text-right font-medium pb-1.5">Taxable</th>
+              <th className="text-right font-medium pb-1.5">CGST {CGST_RATE}%</th>
+              <th className="text-right font-medium pb-1.5">SGST {SGST_RATE}%</th>
+              <th className="text-right font-medium pb-1.5">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {quote.lines.map((line) => (
+              <tr key={line.serviceId} className="border-b border-border align-top">
+                <td className="py-1.5 pr-2">
+                  <p className="text-foreground">{line.name}</p>
+                  <p className="text-muted-foreground">
+                    SAC {SALON_SAC} • {line.qty} × {formatInvoiceAmount(line.unitPrice)}
+                    {line.discount > 0 && ` − ${formatInvoiceAmount(line.discount)}`}
+                  </p>
+                </td>
+                <td className="py-1.5 text-right">{formatInvoiceAmount(line.taxableValue)}</td>
+                <td className="py-1.5 text-right">{formatInvoiceAmount(line.cgst)}</td>
+                <td className="py-1.5 text-right">{formatInvoiceAmount(line.sgst)}</td>
+                <td className="py-1.5 text-right">{formatInvoiceAmount(line.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <dl className="grid grid-cols-2 gap-y-1 pt-3 text-xs font-body">
+          <dt className="text-muted-foreground">Subtotal</dt>
+          <dd className="text-right">₹{formatInvoiceAmount(quote.subtotal)}</dd>
+          {booking.price.discount && (
+            <>
+              <dt className="text-muted-foreground">Discount ({booking.price.discount.code})</dt>
+              <dd className="text-right">−₹{formatInvoiceAmount(quote.discount)}</dd>
+            </>
+          )}
+          <dt className="text-muted-foreground">Taxable value</dt>
+          <dd className="text-right">₹{formatInvoiceAmount(quote.taxableValue)}</dd>
+          <dt className="text-muted-foreground">CGST @ {CGST_RATE}%</dt>
+          <dd className="text-right">₹{formatInvoiceAmount(quote.cgst)}</dd>
+          <dt className="text-muted-foreground">SGST @ {SGST_RATE}%</dt>
+          <dd className="text-right">₹{formatInvoiceAmount(quote.sgst)}</dd>
+          <dt className="text-muted-foreground">Round off</dt>
+          <dd className="text-right">{formatInvoiceAmount(quote.roundOff)}</dd>
+          <dt className="font-heading font-semibold border-t border-border pt-1.5 mt-1">Total</dt>
+          <dd className="font-heading font-semibold text-right border-t border-border pt-1.5 mt-1">₹{formatInvoiceAmount(quote.total)}</dd>
+        </dl>
+
+        <p className="text-[10px] font-body text-muted-foreground mt-4">
+          Tax is not payable on reverse charge. This is a computer-generated invoice and does not require a signature.
+        </p>
+      </article>
+    </div>
+  );
+};
+
+export default InvoicePage;
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Scissors, FlaskConical } from 'lucide-react';
+import { useLocation, useNavigate, type Location } from 'react-router-dom';
+import { toast } from 'sonner';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import * as auth from '@/auth';
+import { AuthError, formatPhone, STUB_OTP, type OtpChallenge, type Session } from '@/auth';
+import { useAuth } from '@/hooks/use-auth';
+
+type Step = 'phone' | 'otp' | 'name';
+
+const OTP_LENGTH = 6;
+
+const LoginPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { signIn } = useAuth();
+  const from = (location.state as { from?: Location } | null)?.from;
+
+  const [step, setStep] = useState<Step>('phone');
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [challenge, setChallenge] = useState<OtpChallenge | null>(null);
+  const [pendingSession, setPendingSession] = useState<Session | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick while the resend cooldown runs
+  const resendIn = challenge ? Math.max(0, Math.ceil((new Date(challenge.resendAvailableAt).getTime() - now) / 1000)) : 0;
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const t = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(t);
+  }, [resendIn, now]);
+
+  const finish = (session: Session) => {
+    signIn(session);
+    toast.success(`Welcome${session.user.name ? `, ${session.user.name.split(' ')[0]}` : ''}!`);
+    // Return to where the visitor was headed, with any router state (e.g. the booking cart) intact
+    if (from) navigate(`${from.pathname}${from.search}`, { replace: true, state: from.state });
+    else navigate('/', { replace: true });
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendCode = () =>
+    run(async () => {
+      const next = await auth.requestOtp(phone);
+      setChallenge(next);
+      setNow(Date.now());
+      setCode('');
+      setStep('otp');
+    });
+
+  const verify = (value: string) =>
+    run(async () => {
+      try {
+        const session = await auth.verifyOtp(challenge!.id, value);
+        if (session.user.name) finish(session);
+        else {
+          setPendingSession(session);
+          setStep('name');
+        }
+      } catch (e) {
+        setCode('');
+        if (e instanceof AuthError && e.code === 'wrong-code') {
+          setChallenge((c) => c && { ...c, attemptsLeft: c.attemptsLeft - 1 });
+        } else if (e instanceof AuthError && e.code === 'too-many-attempts') {
+          setChallenge((c) => c && { ...c, attemptsLeft: 0 });
+        }
+        throw e;
+      }
+    });
+
+  const saveName = () =>
+    run(async () => {
+      if (!name.trim()) throw new Error('Please enter your name');
+      const user = await auth.updateProfile(pendingSession!.user.id, { name: name.trim() });
+      finish({ ...pendingSession!, user });
+    });
+
+  const goBack = () => {
+    setError(null);
+    if (step === 'otp') setStep('phone');
+    else navigate(-1);
+  };
+
+  return (
+    <div className="min-h-screen bg-background px-6 pt-6 pb-10">
+      {step !== 'name' && (
+        <button onClick={goBack} className="w-9 h-9 rounded-full bg-secondary flex items-center justify-center">
+          <ArrowLeft size={18} className="text-foreground" />
+        </button>
+      )}
+
+      <div className="mt-8 mb-8">
+        <div className="w-12 h-12 rounded-2xl bg-primary/10 flex items-center justify-center mb-4">
+          <Scissors size={22} className="text-primary" />
+        </div>
+        <h1 className="font-heading font-bold text-2xl text-foreground">
+          {step === 'phone' && 'Log in or sign up'}
+          {step === 'otp' && 'Verify your number'}
+          {step === 'name' && 'What should we call you?'}
+        </h1>
+        <p className="text-sm font-body text-muted-foreground mt-1">
+          {step === 'phone' && 'We’ll text you a one-time code to confirm it’s you.'}
+          {step === 'otp' && challenge && `Enter the ${OTP_LENGTH}-digit code sent to ${formatPhone(challenge.phone)}`}
+          {step === 'name' && 'Salons will see this name on your bookings.'}
+        </p>
+      </div>
+
+      {step === 'phone' && (
+        <form onSubmit={(e) => { e.preventDefault(); sendCode(); }} className="space-y-4">
+          <div className="flex items-center gap-2 bg-secondary rounded-2xl px-4 py-3">
+            <span className="text-sm font-body font-medium text-foreground">+91</span>
+            <span className="w-px h-5 bg-border" />
+            <input
+              autoFocus
+              type="tel"
+              inputMode="numeric"
+              value={phone}
+              onChange={(e) => { setPhone(e.target.value); setError(null); }}
+              placeholder="Mobile number"
+              maxLength={14}
+              className="flex-1 bg-transparent text-sm font-body text-foreground placeholder:text-muted-foreground outline-none"
+            />
+          </div>
+          {error && <p className="text-xs font-body text-destructive">{error}</p>}
+          <button
+            type="submit"
+            disabled={busy || phone.replace(/\D/g, '').length < 10}
+            className="w-full py-3.5 rounded-2xl font-heading font-semibold text-sm bg-primary text-primary-foreground disabled:bg-muted disabled:text-muted-foreground transition-colors"
+          >
+            {busy ? 'Sending…' : 'Get OTP'}
+          </button>
+        </form>
+      )}
+
+      {step === 'otp' && challenge && (
+        <div className="space-y-4">
+          <InputOTP
+            autoFocus
+            maxLength={OTP_LENGTH}
+            value={code}
+            onChange={(value) => { setCode(value); setError(null); }}
+            onComplete={verify}
+            disabled={busy || challenge.attemptsLeft <= 0}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: OTP_LENGTH }, (_, i) => <InputOTPSlot key={i} index={i} className="w-11 h-12 text-base" />)}
+            </InputOTPGroup>
+          </InputOTP>
+          {error && <p className="text-xs font-body text-destructive">{error}</p>}
+          <div className="flex items-center justify-between text-xs font-body">
+            <button onClick={() => setStep('phone')} className="text-muted-foreground">Change number</button>
+            {resendIn > 0 ? (
+              <span className="text-muted-foreground">Resend code in 0:{String(resendIn).padStart(2, '0')}</span>
+            ) : (
+              <button onClick={sendCode} disabled={busy} className="font-heading font-medium text-primary">Resend code</button>
+            )}
+          </div>
+          <p className="flex items-center gap-1.5 text-[11px] font-body text-muted-foreground border border-dashed border-border rounded-xl px-3 py-2">
+            <FlaskConical size={12} /> Test mode — no SMS is sent. Use {STUB_OTP}.
+          </p>
+        </div>
+      )}
+
+      {step === 'name' && (
+        <form onSubmit={(e) => { e.preventDefault(); saveName(); }} className="space-y-4">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => { setName(e.target.value); setError(null); }}
+            placeholder="Your name"
+            className="w-full bg-secondary rounded-2xl px-4 py-3 text-sm font-body text-foreground placeholder:text-muted-foreground outline-none"
+          />
+          {error && <p className="text-xs font-body text-destructive">{error}</p>}
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full py-3.5 rounded-2xl font-heading font-semibold text-sm bg-primary text-primary-foreground"
+          >
+            Continue
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default LoginPage;
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { ArrowLeft, ChevronDown, MapPin, SearchX } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import LocationSheet from '@/components/LocationSheet';
+import SalonMap from '@/components/SalonMap';
+import { useSalons } from '@/hooks/use-catalog';
+import { useGenderPreference } from '@/hooks/use-gender-preference';
+import { useUserLocation } from '@/hooks/use-user-location';
+import { servesPreference } from '@/lib/genderPreference';
+import { browseSalons } from '@/lib/search';
+import type { Bounds } from '@/types/salon';
+
+const MapViewPage = () => {
+  const navigate = useNavigate();
+  const { location, label } = useUserLocation();
+  const [gender] = useGenderPreference();
+  const [locationOpen, setLocationOpen] = useState(false);
+  // Until the customer searches an area of the map, show the whole city. A searched area is
+  // forgotten once they pick somewhere else.
+  const here = [location.cityId, location.localityId ?? location.source].join(':');
+  const [searched, setSearched] = useState<{ here: string; bounds: Bounds } | null>(null);
+  const area = searched?.here === here ? searched.bounds : null;
+  const { data = [], isLoading, isFetching } = useSalons(area ? { bounds: area } : { cityId: location.cityId });
+  const salons = browseSalons(
+    data.filter((s) => servesPreference(s, gender)),
+    location.coordinates,
+  ).map((r) => r.salon);
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <header className="px-4 pt-6 pb-4 flex items-center gap-3">
+        <button onClick={() => navigate(-1)} className="w-9 h-9 rounded-full bg-secondary flex items-center justify-center">
+          <ArrowLeft size={18} className="text-foreground" />
+        </button>
+        <div className="flex-1 min-w-0">
+          <h1 className="font-heading font-bold text-xl text-foreground">Salons on Map</h1>
+          <p className="text-[11px] font-body text-muted-foreground">
+            {isFetching ? 'Looking…' : `${salons.length} ${salons.length === 1 ? 'salon' : 'salons'} ${area ? 'in this area' : 'nearby'}`}
+          </p>
+        </div>
+        <button
+          onClick={() => setLocationOpen(true)}
+          className="flex items-center gap-1 bg-secondary px-3 py-1.5 rounded-full max-w-[9rem]"
+        >
+          <MapPin size={14} className="text-primary flex-shrink-0" />
+          <span className="text-xs font-body font-medium text-foreground truncate">{label}</span>
+          <ChevronDown size={12} className="text-muted-foreground flex-shrink-0" />
+        </button>
+      </header>
+
+      <div className="px-4 relative">
+        {isLoading && !area ? (
+          <div className="h-[calc(100vh-15rem)] skeleton-shimmer rounded-2xl" />
+        ) : (
+          <SalonMap
+            // Picking another location starts the map over
+            key={here}
+            salons={salons}
+            onOpen={(id) => navigate(`/salon/${id}`)}
+            onSearchArea={(bounds) => setSearched({ here, bounds })}
+            className="h-[calc(100vh-15rem)]"
+          />
+        )}
+        {!isFetching && salons.length === 0 && (
+          <div className="absolute top-16 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-card rounded-full px-4 py-2 card-shadow pointer-events-none">
+            <SearchX size={14} className="text-muted-foreground" />
+            <span className="text-xs font-body text-muted-foreground whitespace-nowrap">
+              {area ? 'No salons here — try moving the map' : 'No salons in this city yet'}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <LocationSheet open={locationOpen} onOpenChange={setLocationOpen} />
+    </div>
+  );
+};
+
+export default MapViewPage;
@@ -1,43 +1,83 @@
-import { Tag, Clock, Sparkles, Gift } from 'lucide-react';
+import { Tag, Clock, Sparkles, Gift, Percent, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { usePromotions, useSalons } from '@/hooks/use-catalog';
+import { useUserLocation } from '@/hooks/use-user-location';
+import { describeExpiry, isExpired, promotionsFor } from '@/lib/promotions';
+import type { Promotion } from '@/types/salon';
 
-const offers = [
-  { title: 'First Visit Special', desc: 'Get 40% off on your first booking', badge: 'New User', color: 'bg-primary/10 text-primary', icon: Sparkles },
-  { title: 'Weekend Glow Up', desc: 'Flat ₹200 off on weekends', badge: 'Weekend', color: 'bg-accent/20 text-accent-foreground', icon: Gift },
-  { title: 'Festival Special', desc: 'Buy 2 services, get 1 free', badge: 'Limited', color: 'bg-success/10 text-success', icon: Tag },
-];
+const badgeColors: Record<string, string> = {
+  'New User': 'bg-primary/10 text-primary',
+  Weekend: 'bg-accent/20 text-accent-foreground',
+  Limited: 'bg-success/10 text-success',
+};
+
+const offerIcon = (promotion: Promotion) => {
+  if (promotion.rules.firstVisit) return Sparkles;
+  if (promotion.rules.weekendOnly) return Gift;
+  return promotion.reward.type === 'bogo' ? Tag : Percent;
+};
 
 const OffersPage = () => {
+  const { location, city } = useUserLocation();
+  const { data: promotions = [], isLoading: promotionsLoading } = usePromotions();
+  const { data: salons = [], isLoading: salonsLoading } = useSalons({ cityId: location.cityId });
+  const isLoading = promotionsLoading || salonsLoading;
+  const offers = promotionsFor(promotions, salons.map((s) => s.id)).filter((p) => !isExpired(p));
+
+  const copyCode = (code: string) => {
+    navigator.clipboard?.writeText(code);
+    toast.success(`${code} copied — apply it at checkout`);
+  };
+
   return (
     <div className="min-h-screen bg-background pb-20">
       <header className="px-4 pt-6 pb-4">
         <h1 className="font-heading font-bold text-xl text-foreground">Offers & Deals</h1>
-        <p className="text-xs font-body text-muted-foreground mt-1">Exclusive offers just for you</p>
+        <p className="text-xs font-body text-muted-foreground mt-1">
+          Exclusive offers {city ? `in ${city.name}` : 'just for you'}
+        </p>
       </header>
 
       <div className="px-4 space-y-3">
-        {offers.map((offer, i) => (
-          <div
-            key={i}
-            className="bg-card rounded-2xl p-4 card-shadow animate-fade-in-up"
-            style={{ animationDelay: `${i * 100}ms`, animationFillMode: 'both' }}
-          >
-            <div className="flex items-start gap-3">
-              <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${offer.color}`}>
-                <offer.icon size={20} />
-              </div>
-              <div className="flex-1">
-                <div className="flex items-center gap-2">
-                  <h3 className="font-heading font-semibold text-sm text-foreground">{offer.title}</h3>
-                  <span className={`text-[9px] font-heading font-semibold px-2 py-0.5 rounded-full ${offer.color}`}>{offer.badge}</span>
+        {isLoading && [0, 1, 2].map((i) => <div key={i} className="h-24 skeleton-shimmer rounded-2xl" />)}
+        {offers.map((offer, i) => {
+          const color = badgeColors[offer.badge] ?? 'bg-primary/10 text-primary';
+          const Icon = offerIcon(offer);
+          const expiry = describeExpiry(offer);
+          const { minCartValue } = offer.rules;
+          return (
+            <div
+              key={offer.id}
+              className="bg-card rounded-2xl p-4 card-shadow animate-fade-in-up"
+              style={{ animationDelay: `${i * 100}ms`, animationFillMode: 'both' }}
+            >
+              <div className="flex items-start gap-3">
+                <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${color}`}>
+                  <Icon size={20} />
                 </div>
-                <p className="text-xs font-body text-muted-foreground mt-1">{offer.desc}</p>
-                <div className="flex items-center gap-1 mt-2 text-[10px] text-muted-foreground">
-                  <Clock size={10} /> Expires in 3 days
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-heading font-semibold text-sm text-foreground">{offer.title}</h3>
+                    <span className={`text-[9px] font-heading font-semibold px-2 py-0.5 rounded-full ${color}`}>{offer.badge}</span>
+                  </div>
+                  <p className="text-xs font-body text-muted-foreground mt-1">{offer.description}</p>
+                  <div className="flex items-center justify-between mt-2">
+                    <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                      <Clock size={10} /> {expiry ?? 'No expiry'}
+                      {minCartValue && ` • Min. order ₹${minCartValue}`}
+                    </div>
+                    <button
+                      onClick={() => copyCode(offer.code)}
+                      className="flex items-center gap-1 text-[10px] font-heading font-semibold px-2 py-1 rounded-lg border border-dashed border-primary text-primary"
+                    >
+                      {offer.code} <Copy size={10} />
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
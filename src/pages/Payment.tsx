@@ -0,0 +1,289 @@
+import { useState } from 'react';
+import { ArrowLeft, Check, CreditCard, Smartphone, Wallet, X, Clock, FlaskConical } from 'lucide-react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { useBooking, useCancelBooking } from '@/hooks/use-bookings';
+import { usePayForBooking, useSwitchToPayAtSalon } from '@/hooks/use-payments';
+import { PaymentError, TEST_CREDENTIALS, WALLETS, type OnlineMethod, type PaymentDetails, type WalletId } from '@/payments';
+import { PAYMENT_METHOD_LABELS, validatePaymentDetails } from '@/payments/details';
+import { paymentHoldExpiresAt } from '@/lib/bookingLifecycle';
+import { formatTime } from '@/lib/time';
+
+const methods: { id: OnlineMethod; icon: typeof Smartphone; hint: string }[] = [
+  { id: 'upi', icon: Smartphone, hint: 'Google Pay, PhonePe, BHIM & more' },
+  { id: 'card', icon: CreditCard, hint: 'Visa, Mastercard, RuPay' },
+  { id: 'wallet', icon: Wallet, hint: 'Paytm, PhonePe, Amazon Pay' },
+];
+
+const processingMessages: Record<OnlineMethod, string> = {
+  upi: 'Approve the request in your UPI app',
+  card: 'Contacting your bank',
+  wallet: 'Waiting for your wallet to confirm',
+};
+
+const inputClass =
+  'w-full bg-secondary rounded-xl px-3 py-2.5 text-sm font-body text-foreground placeholder:text-muted-foreground outline-none';
+
+const PaymentPage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { data: booking, isLoading } = useBooking(id);
+  const pay = usePayForBooking();
+  const payAtSalon = useSwitchToPayAtSalon();
+  const cancelBooking = useCancelBooking();
+
+  const [method, setMethod] = useState<OnlineMethod>('upi');
+  const [vpa, setVpa] = useState('');
+  const [card, setCard] = useState({ number: '', expiry: '', cvv: '', name: '' });
+  const [wallet, setWallet] = useState<WalletId>('paytm');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const details: PaymentDetails =
+    method === 'upi' ? { method, vpa } : method === 'card' ? { method, ...card } : { method, wallet };
+
+  const handlePay = () => {
+    if (!booking || pay.isPending) return;
+    const problem = validatePaymentDetails(details);
+    setFormError(problem);
+    if (problem) return;
+    pay.mutate(
+      { booking, details },
+      {
+        // The booking has moved on, e.g. its hold lapsed, so the page is about to leave; say why
+        onError: (error) => error instanceof PaymentError && error.code === 'invalid-state' && toast.error(error.message),
+      },
+    );
+  };
+
+  const handlePayAtSalon = () => {
+    if (!booking) return;
+    payAtSalon.mutate(booking, {
+      onSuccess: () => {
+        toast.success('Booking confirmed — pay at the salon');
+        navigate('/bookings', { replace: true });
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const handleCancel = () => {
+    if (!booking) return;
+    cancelBooking.mutate(booking.id, {
+      onSuccess: () => {
+        toast.success('Booking cancelled');
+        navigate('/bookings', { replace: true });
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  if (isLoading || !booking) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        {isLoading ? (
+          <div className="w-10 h-10 rounded-full border-2 border-primary border-t-transparent animate-spin" />
+        ) : (
+          <p className="font-heading font-medium text-sm text-muted-foreground">Booking not found</p>
+        )}
+      </div>
+    );
+  }
+
+  const summary = `${booking.salonName} • ${format(parseISO(booking.date), 'MMM d')} • ${formatTime(booking.time)}`;
+
+  if (pay.isPending) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-8">
+        <div className="text-center animate-fade-in-up">
+          <div className="w-14 h-14 rounded-full border-[3px] border-primary border-t-transparent animate-spin mx-auto mb-4" />
+          <h2 className="font-heading font-semibold text-lg text-foreground">Processing ₹{booking.price.total}</h2>
+          <p className="text-sm text-muted-foreground font-body mt-1">{processingMessages[method]}</p>
+          <p className="text-xs text-muted-foreground/70 font-body mt-4">Please don't close this page</p>
+        </div>
+      </div>
+    );
+  }
+
+  // The mutation's result arrives before the refetched booking does
+  const { payment } = pay.data ?? booking;
+  if (payment.status === 'paid') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-8">
+        <div className="text-center animate-fade-in-up" style={{ animationDuration: '500ms' }}>
+          <div className="w-20 h-20 rounded-full bg-success/20 flex items-center justify-center mx-auto mb-4">
+            <Check size={40} className="text-success" />
+          </div>
+          <h2 className="font-heading font-bold text-xl text-foreground">Payment Successful</h2>
+          <p className="text-sm text-muted-foreground font-body mt-2">
+            ₹{payment.amount} paid via {PAYMENT_METHOD_LABELS[payment.method]}
+          </p>
+          <p className="text-xs text-muted-foreground font-body mt-1">{summary}</p>
+          <button
+            onClick={() => navigate('/bookings', { replace: true })}
+            className="mt-6 bg-primary text-primary-foreground text-sm font-heading font-medium px-6 py-2.5 rounded-xl active:scale-95 transition-transform"
+          >
+            View Bookings
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (booking.status !== 'pending-payment') return <Navigate to="/bookings" replace />;
+
+  const holdUntil = paymentHoldExpiresAt(booking);
+  const held = holdUntil ? `Your slot is held until ${format(holdUntil, 'h:mm a')}` : 'Your slot is held';
+
+  // The last attempt's error stays up until the customer chooses what to do next
+  const failure = pay.error;
+  if (failure) {
+    const timedOut = failure instanceof PaymentError && failure.code === 'timeout';
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-8">
+        <div className="text-center animate-fade-in-up w-full">
+          <div className="w-20 h-20 rounded-full bg-destructive/10 flex items-center justify-center mx-auto mb-4">
+            {timedOut ? <Clock size={36} className="text-destructive" /> : <X size={40} className="text-destructive" />}
+          </div>
+          <h2 className="font-heading font-bold text-xl text-foreground">{timedOut ? 'Payment Timed Out' : 'Payment Failed'}</h2>
+          <p className="text-sm text-muted-foreground font-body mt-2">{failure.message}</p>
+          <p className="text-xs text-muted-foreground font-body mt-1">
+            No money was taken. {held}: {summary}
+          </p>
+          <div className="space-y-2 mt-6">
+            <button
+              onClick={() => pay.reset()}
+              className="w-full bg-primary text-primary-foreground text-sm font-heading font-semibold py-3 rounded-xl active:scale-[0.98] transition-transform"
+            >
+              Try Again
+            </button>
+            <button
+              onClick={handlePayAtSalon}
+              className="w-full border-2 border-primary text-primary text-sm font-heading font-medium py-2.5 rounded-xl"
+            >
+              Pay at Salon Instead
+            </button>
+            <button onClick={handleCancel} className="w-full text-destructive text-xs font-heading font-medium py-2">
+              Cancel Booking
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-28">
+      <header className="sticky top-0 z-40 bg-card border-b border-border px-4 py-3 flex items-center gap-3">
+        <button
+          onClick={() => navigate('/bookings', { replace: true })}
+          className="w-9 h-9 rounded-full bg-secondary flex items-center justify-center"
+        >
+          <ArrowLeft size={18} className="text-foreground" />
+        </button>
+        <div>
+          <h1 className="font-heading font-semibold text-base text-foreground">Payment</h1>
+          <p className="text-[11px] font-body text-muted-foreground">{summary}</p>
+          <p className="text-[11px] font-body text-accent-foreground">{held}</p>
+        </div>
+      </header>
+
+      <div className="px-4 pt-4 space-y-3">
+        {methods.map((m) => {
+          const isSelected = method === m.id;
+          return (
+            <div key={m.id} className={`bg-card rounded-2xl card-shadow border-2 transition-colors ${isSelected ? 'border-primary' : 'border-transparent'}`}>
+              <button
+                onClick={() => { setMethod(m.id); setFormError(null); }}
+                className="w-full flex items-center gap-3 p-3 text-left"
+              >
+                <div className="w-10 h-10 rounded-xl bg-primary/10 text-primary flex items-center justify-center">
+                  <m.icon size={20} />
+                </div>
+                <div className="flex-1">
+                  <p className="font-heading font-medium text-sm text-foreground">{PAYMENT_METHOD_LABELS[m.id]}</p>
+                  <p className="text-[11px] font-body text-muted-foreground">{m.hint}</p>
+                </div>
+                <span className={`w-4 h-4 rounded-full border-2 ${isSelected ? 'border-primary bg-primary' : 'border-border'}`} />
+              </button>
+
+              {isSelected && m.id === 'upi' && (
+                <div className="px-3 pb-3">
+                  <input value={vpa} onChange={(e) => setVpa(e.target.value)} placeholder="UPI ID, e.g. name@okbank" className={inputClass} />
+                </div>
+              )}
+              {isSelected && m.id === 'card' && (
+                <div className="px-3 pb-3 space-y-2">
+                  <input
+                    value={card.number}
+                    onChange={(e) => setCard({ ...card, number: e.target.value })}
+                    inputMode="numeric"
+                    placeholder="Card number"
+                    className={inputClass}
+                  />
+                  <div className="flex gap-2">
+                    <input value={card.expiry} onChange={(e) => setCard({ ...card, expiry: e.target.value })} placeholder="MM/YY" className={inputClass} />
+                    <input
+                      value={card.cvv}
+                      onChange={(e) => setCard({ ...card, cvv: e.target.value })}
+                      inputMode="numeric"
+                      type="password"
+                      placeholder="CVV"
+                      className={inputClass}
+                    />
+                  </div>
+                  <input value={card.name} onChange={(e) => setCard({ ...card, name: e.target.value })} placeholder="Name on card" className={inputClass} />
+                </div>
+              )}
+              {isSelected && m.id === 'wallet' && (
+                <div className="px-3 pb-3 flex gap-2">
+                  {WALLETS.map((w) => (
+                    <button
+                      key={w.id}
+                      onClick={() => setWallet(w.id)}
+                      className={`flex-1 py-2 rounded-xl text-xs font-heading font-medium ${
+                        wallet === w.id ? 'bg-primary text-primary-foreground' : 'bg-secondary text-foreground'
+                      }`}
+                    >
+                      {w.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {formError && <p className="text-xs font-body text-destructive px-1">{formError}</p>}
+
+        <div className="rounded-2xl border border-dashed border-border p-3 text-[11px] font-body text-muted-foreground space-y-0.5">
+          <p className="flex items-center gap-1.5 font-heading font-medium text-foreground">
+            <FlaskConical size={12} /> Test mode — no real money moves
+          </p>
+          <p>UPI: any ID succeeds; {TEST_CREDENTIALS.upi.failure} fails, {TEST_CREDENTIALS.upi.timeout} times out</p>
+          <p>Card: {TEST_CREDENTIALS.card.success} succeeds; {TEST_CREDENTIALS.card.failure} fails, {TEST_CREDENTIALS.card.timeout} times out</p>
+          <p>Wallet: PhonePe has ₹250 balance; Amazon Pay doesn't respond</p>
+        </div>
+      </div>
+
+      <div className="fixed bottom-0 left-0 right-0 bg-card border-t border-border px-4 py-3 z-50" style={{ boxShadow: 'var(--shadow-bottom-bar)' }}>
+        <div className="max-w-lg mx-auto flex gap-3">
+          <button
+            onClick={handlePay}
+            className="flex-1 py-3.5 rounded-2xl font-heading font-semibold text-sm bg-primary text-primary-foreground active:scale-[0.98] transition-transform"
+          >
+            Pay ₹{booking.price.total}
+          </button>
+          <button
+            onClick={handlePayAtSalon}
+            className="py-3.5 px-4 rounded-2xl font-heading font-medium text-sm border-2 border-primary text-primary active:scale-[0.98] transition-transform"
+          >
+            Pay at Salon
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentPage;
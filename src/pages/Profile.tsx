@@ -1,7 +1,23 @@
-import { User, Heart, CreditCard, Bell, HelpCircle, LogOut, ChevronRight, Gift, Star } from 'lucide-react';
+import { Heart, CreditCard, Bell, HelpCircle, LogOut, ChevronRight, Gift, Star, type LucideIcon } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import GenderToggle from '@/components/GenderToggle';
+import UserAvatar from '@/components/UserAvatar';
+import { formatPhone } from '@/auth';
+import { useAuth } from '@/hooks/use-auth';
+import { useFavorites } from '@/hooks/use-favorites';
+import { useGenderPreference } from '@/hooks/use-gender-preference';
 
-const menuItems = [
-  { icon: Heart, label: 'Saved Salons', badge: '3' },
+interface MenuItem {
+  icon: LucideIcon;
+  label: string;
+  badge?: string;
+  desc?: string;
+  path?: string;
+}
+
+const menuItems: MenuItem[] = [
+  { icon: Heart, label: 'Saved Salons', path: '/saved' },
   { icon: Star, label: 'Membership', badge: 'Gold' },
   { icon: CreditCard, label: 'Payment Methods' },
   { icon: Gift, label: 'Referral Code', desc: 'Share & earn ₹100' },
@@ -10,21 +26,45 @@ const menuItems = [
 ];
 
 const ProfilePage = () => {
+  const navigate = useNavigate();
+  const { user, signOut } = useAuth();
+  const [gender, setGender] = useGenderPreference();
+  const { saved } = useFavorites();
+  const badgeFor = (item: MenuItem) => (item.path !== '/saved' ? item.badge : saved.length > 0 ? String(saved.length) : undefined);
+
+  const handleLogout = () => {
+    signOut();
+    toast.success('Logged out');
+    navigate('/', { replace: true });
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-background pb-20 flex items-center justify-center px-8">
+        <div className="text-center">
+          <UserAvatar user={null} className="w-16 h-16 bg-primary/10 text-primary mx-auto mb-4" />
+          <h1 className="font-heading font-semibold text-lg text-foreground">You're not logged in</h1>
+          <p className="text-sm font-body text-muted-foreground mt-1">Log in to manage bookings, offers and rewards.</p>
+          <button
+            onClick={() => navigate('/login', { state: { from: { pathname: '/profile' } } })}
+            className="mt-5 bg-primary text-primary-foreground text-sm font-heading font-medium px-6 py-2.5 rounded-xl active:scale-95 transition-transform"
+          >
+            Log in / Sign up
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background pb-20">
       {/* User Info */}
       <div className="bg-primary px-4 pt-8 pb-6 rounded-b-3xl">
         <div className="flex items-center gap-4">
-          <div className="w-16 h-16 rounded-full overflow-hidden border-2 border-primary-foreground/30">
-            <img
-              src="https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=120&h=120&fit=crop"
-              alt="Profile"
-              className="w-full h-full object-cover"
-            />
-          </div>
+          <UserAvatar user={user} className="w-16 h-16 border-2 border-primary-foreground/30 bg-primary-foreground/10 text-primary-foreground text-lg" />
           <div>
-            <h1 className="font-heading font-bold text-lg text-primary-foreground">Aarav Sharma</h1>
-            <p className="text-xs font-body text-primary-foreground/70">+91 98765 43210</p>
+            <h1 className="font-heading font-bold text-lg text-primary-foreground">{user.name}</h1>
+            <p className="text-xs font-body text-primary-foreground/70">{formatPhone(user.phone)}</p>
           </div>
         </div>
 
@@ -42,9 +82,17 @@ const ProfilePage = () => {
 
       {/* Menu */}
       <div className="px-4 pt-4 space-y-1.5">
+        <div className="flex items-center justify-between gap-3 bg-card rounded-2xl p-3.5 card-shadow">
+          <div>
+            <span className="font-heading font-medium text-sm text-foreground">Show services for</span>
+            <p className="text-[10px] font-body text-muted-foreground">Salons, categories and suggestions</p>
+          </div>
+          <GenderToggle value={gender} onChange={setGender} />
+        </div>
         {menuItems.map((item) => (
           <button
             key={item.label}
+            onClick={() => item.path && navigate(item.path)}
             className="w-full flex items-center gap-3 bg-card rounded-2xl p-3.5 card-shadow active:scale-[0.98] transition-transform"
           >
             <div className="w-9 h-9 rounded-xl bg-primary/10 flex items-center justify-center">
@@ -54,16 +102,16 @@ const ProfilePage = () => {
               <span className="font-heading font-medium text-sm text-foreground">{item.label}</span>
               {item.desc && <p className="text-[10px] font-body text-muted-foreground">{item.desc}</p>}
             </div>
-            {item.badge && (
+            {badgeFor(item) && (
               <span className="text-[10px] font-heading font-semibold text-primary bg-primary/10 px-2 py-0.5 rounded-full">
-                {item.badge}
+                {badgeFor(item)}
               </span>
             )}
             <ChevronRight size={16} className="text-muted-foreground" />
           </button>
         ))}
 
-        <button className="w-full flex items-center gap-3 bg-card rounded-2xl p-3.5 card-shadow mt-4">
+        <button onClick={handleLogout} className="w-full flex items-center gap-3 bg-card rounded-2xl p-3.5 card-shadow mt-4">
           <div className="w-9 h-9 rounded-xl bg-destructive/10 flex items-center justify-center">
             <LogOut size={18} className="text-destructive" />
           </div>
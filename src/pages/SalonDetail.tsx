@@ -1,20 +1,49 @@
 import { useState } from 'react';
-import { ArrowLeft, Share2, Star, MapPin, Clock, ChevronRight, ThumbsUp, Plus, Minus, Phone, MessageCircle, Navigation, Heart, ShieldCheck, QrCode } from 'lucide-react';
+import { ArrowLeft, Share2, Star, MapPin, Clock, ChevronRight, ThumbsUp, Plus, Minus, Phone, MessageCircle, Navigation, ShieldCheck, QrCode } from 'lucide-react';
+import FavoriteButton from '@/components/FavoriteButton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import ReviewsSection from '@/components/ReviewsSection';
+import SalonQrDialog from '@/components/SalonQrDialog';
 import { useNavigate, useParams } from 'react-router-dom';
-import { featuredSalons, nearbySalons, services, artists, reviews } from '@/data/mockData';
+import { toast } from 'sonner';
+import { formatPhone } from '@/auth';
+import { useCart } from '@/hooks/use-cart';
+import { useSalon, useServices, useArtists, useReviews } from '@/hooks/use-catalog';
+import { useGenderPreference } from '@/hooks/use-gender-preference';
+import { cartCount, cartItems, holdsOtherSalon } from '@/lib/cart';
+import { preferredServiceTab } from '@/lib/genderPreference';
+import { getOpenStatus, getUpcomingExceptions, summarizeWeeklyHours } from '@/lib/openingHours';
+import { cartSubtotal } from '@/lib/promotions';
+import { directionsUrl, salonUrl, shareSalon, telHref } from '@/lib/salonLinks';
 
 const SalonDetail = () => {
   const { id } = useParams();
   const navigate = useNavigate();
-  const salon = [...featuredSalons, ...nearbySalons].find((s) => s.id === id) || featuredSalons[0];
+  const { data: salon, isLoading } = useSalon(id);
+  const { data: services = [] } = useServices(id);
+  const { data: artists = [] } = useArtists(id);
+  const { data: reviews = [] } = useReviews(id);
 
   const [activeTab, setActiveTab] = useState<'services' | 'about' | 'reviews' | 'gallery'>('services');
-  const [serviceTab, setServiceTab] = useState<'men' | 'women' | 'packages' | 'outside'>('men');
-  const [isFavorite, setIsFavorite] = useState(false);
+  const [gender] = useGenderPreference();
+  // Until the customer picks a tab, open on the one their preference points to
+  const [pickedTab, setServiceTab] = useState<'men' | 'women' | 'packages' | 'outside' | null>(null);
+  const serviceTab = pickedTab ?? preferredServiceTab(services, gender);
   const [selectedArtist, setSelectedArtist] = useState<string | null>(null);
-  const [cart, setCart] = useState<Record<string, number>>({});
+  const { cart, add, remove } = useCart();
+  // A service waiting on the customer to agree to drop another salon's cart
+  const [replacing, setReplacing] = useState<string | null>(null);
   const [reviewFilter, setReviewFilter] = useState<string>('all');
+  const [qrOpen, setQrOpen] = useState(false);
 
   const filteredServices = services.filter((s) => s.category === (serviceTab === 'outside' ? 'men' : serviceTab));
   const filteredReviews = reviews.filter((r) => {
@@ -26,23 +55,61 @@ const SalonDetail = () => {
     return true;
   });
 
-  const cartCount = Object.values(cart).reduce((a, b) => a + b, 0);
-  const cartTotal = Object.entries(cart).reduce((total, [sId, qty]) => {
-    const service = services.find((s) => s.id === sId);
-    return total + (service?.price || 0) * qty;
-  }, 0);
+  const items = cartItems(cart, id, services);
+  const count = items.reduce((total, item) => total + item.qty, 0);
+  const cartTotal = cartSubtotal(items);
+  const quantity = (serviceId: string) => items.find((item) => item.serviceId === serviceId)?.qty ?? 0;
 
   const addToCart = (serviceId: string) => {
-    setCart((c) => ({ ...c, [serviceId]: (c[serviceId] || 0) + 1 }));
+    if (!salon) return;
+    if (holdsOtherSalon(cart, salon.id)) setReplacing(serviceId);
+    else add(salon, serviceId);
   };
 
-  const removeFromCart = (serviceId: string) => {
-    setCart((c) => {
-      const n = { ...c };
-      if (n[serviceId] > 1) n[serviceId]--;
-      else delete n[serviceId];
-      return n;
-    });
+  const replaceCart = () => {
+    if (salon && replacing) add(salon, replacing);
+    setReplacing(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="h-64 skeleton-shimmer" />
+        <div className="px-4 pt-4 space-y-2">
+          <div className="h-5 w-2/3 skeleton-shimmer rounded-full" />
+          <div className="h-3 w-1/2 skeleton-shimmer rounded-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!salon) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-6">
+        <div className="text-center">
+          <h2 className="font-heading font-semibold text-lg text-foreground">Salon not found</h2>
+          <p className="text-xs font-body text-muted-foreground mt-1">It may have been removed or the link is incorrect.</p>
+          <button
+            onClick={() => navigate('/')}
+            className="mt-4 bg-primary text-primary-foreground text-sm font-heading font-medium px-5 py-2 rounded-xl"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const openStatus = getOpenStatus(salon.hours);
+  const upcomingExceptions = getUpcomingExceptions(salon.hours);
+  const shareUrl = salonUrl(salon.id);
+
+  const share = async () => {
+    try {
+      if ((await shareSalon(salon, shareUrl)) === 'copied') toast.success('Link copied — paste it anywhere to share');
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
   };
 
   return (
@@ -56,13 +123,12 @@ const SalonDetail = () => {
             <ArrowLeft size={18} className="text-foreground" />
           </button>
           <div className="flex gap-2">
+            <FavoriteButton salon={salon} className="w-9 h-9" />
             <button
-              onClick={() => setIsFavorite(!isFavorite)}
+              onClick={share}
+              aria-label="Share salon"
               className="w-9 h-9 rounded-full bg-card/80 backdrop-blur-sm flex items-center justify-center"
             >
-              <Heart size={16} className={isFavorite ? 'text-destructive fill-destructive' : 'text-foreground'} />
-            </button>
-            <button className="w-9 h-9 rounded-full bg-card/80 backdrop-blur-sm flex items-center justify-center">
               <Share2 size={16} className="text-foreground" />
             </button>
           </div>
@@ -83,9 +149,12 @@ const SalonDetail = () => {
         </div>
         <div className="flex items-center gap-2 mt-1">
           <Clock size={13} className="text-muted-foreground" />
-          <span className={`text-xs font-body font-medium ${salon.isOpen ? 'text-success' : 'text-destructive'}`}>
-            {salon.isOpen ? 'Open Now' : 'Closed'}
+          <span className={`text-xs font-body font-medium ${openStatus.isOpen ? 'text-success' : 'text-destructive'}`}>
+            {openStatus.label}
           </span>
+          {openStatus.detail && (
+            <span className="text-xs font-body text-muted-foreground">• {openStatus.detail}</span>
+          )}
         </div>
         <div className="flex gap-1.5 mt-2 flex-wrap">
           {salon.tags.map((tag) => (
@@ -98,31 +167,36 @@ const SalonDetail = () => {
 
         {/* Action Buttons */}
         <div className="flex gap-4 mt-3 pt-3 border-t border-border">
-          <button className="flex flex-col items-center gap-1 flex-1">
+          <a href={telHref(salon.phone)} className="flex flex-col items-center gap-1 flex-1">
             <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
               <Phone size={16} className="text-primary" />
             </div>
             <span className="text-[10px] font-body text-muted-foreground">Call</span>
-          </button>
-          <button className="flex flex-col items-center gap-1 flex-1">
+          </a>
+          <button onClick={() => navigate(`/chats/${salon.id}`)} className="flex flex-col items-center gap-1 flex-1">
             <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
               <MessageCircle size={16} className="text-primary" />
             </div>
             <span className="text-[10px] font-body text-muted-foreground">Chat</span>
           </button>
-          <button className="flex flex-col items-center gap-1 flex-1">
+          <a
+            href={directionsUrl(salon.coordinates)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex flex-col items-center gap-1 flex-1"
+          >
             <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
               <Navigation size={16} className="text-primary" />
             </div>
             <span className="text-[10px] font-body text-muted-foreground">Direction</span>
-          </button>
-          <button className="flex flex-col items-center gap-1 flex-1">
+          </a>
+          <button onClick={share} className="flex flex-col items-center gap-1 flex-1">
             <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
               <Share2 size={16} className="text-primary" />
             </div>
             <span className="text-[10px] font-body text-muted-foreground">Share</span>
           </button>
-          <button className="flex flex-col items-center gap-1 flex-1">
+          <button onClick={() => setQrOpen(true)} className="flex flex-col items-center gap-1 flex-1">
             <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
               <QrCode size={16} className="text-primary" />
             </div>
@@ -216,12 +290,12 @@ const SalonDetail = () => {
                       )}
                     </div>
                   </div>
-                  {cart[service.id] ? (
+                  {quantity(service.id) ? (
                     <div className="flex items-center gap-2 bg-primary/10 rounded-xl px-1">
-                      <button onClick={() => removeFromCart(service.id)} className="p-1.5 text-primary">
+                      <button onClick={() => remove(service.id)} className="p-1.5 text-primary">
                         <Minus size={14} />
                       </button>
-                      <span className="text-sm font-heading font-semibold text-primary w-4 text-center">{cart[service.id]}</span>
+                      <span className="text-sm font-heading font-semibold text-primary w-4 text-center">{quantity(service.id)}</span>
                       <button onClick={() => addToCart(service.id)} className="p-1.5 text-primary">
                         <Plus size={14} />
                       </button>
@@ -236,6 +310,11 @@ const SalonDetail = () => {
                   )}
                 </div>
               ))}
+              {filteredServices.length === 0 && (
+                <p className="text-center text-xs font-body text-muted-foreground py-6">
+                  {salon.name} doesn't offer services in this category yet
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -259,12 +338,29 @@ const SalonDetail = () => {
             professionals ensures you leave looking and feeling your best.
           </p>
           <div className="mt-4 space-y-2">
-            <div className="flex items-center gap-2 text-xs font-body text-muted-foreground">
-              <Clock size={14} /> Mon-Sat: 9:00 AM - 9:00 PM
+            <div className="flex items-start gap-2 text-xs font-body text-muted-foreground">
+              <Clock size={14} className="mt-0.5 flex-shrink-0" />
+              <div className="space-y-1">
+                {summarizeWeeklyHours(salon.hours).map((row) => (
+                  <div key={row.days} className="flex gap-2">
+                    <span className="w-20 flex-shrink-0 text-foreground">{row.days}</span>
+                    <span>{row.hours}</span>
+                  </div>
+                ))}
+              </div>
             </div>
+            {upcomingExceptions.map((e) => (
+              <div key={e.date} className="flex items-center gap-2 text-xs font-body text-accent bg-accent/10 rounded-xl px-3 py-2">
+                <span className="font-medium">{e.label}{e.reason && ` (${e.reason})`}:</span>
+                <span>{e.intervals.length ? `Special hours ${e.hoursText}` : 'Closed'}</span>
+              </div>
+            ))}
             <div className="flex items-center gap-2 text-xs font-body text-muted-foreground">
               <MapPin size={14} /> {salon.address}
             </div>
+            <a href={telHref(salon.phone)} className="flex items-center gap-2 text-xs font-body text-muted-foreground">
+              <Phone size={14} /> {formatPhone(salon.phone)}
+            </a>
           </div>
         </div>
       )}
@@ -280,15 +376,15 @@ const SalonDetail = () => {
       )}
 
       {/* Sticky Bottom Bar */}
-      {cartCount > 0 && (
+      {count > 0 && (
         <div className="fixed bottom-0 left-0 right-0 bg-card border-t border-border px-4 py-3 z-50" style={{ boxShadow: 'var(--shadow-bottom-bar)', animation: 'slide-up 0.3s ease-out' }}>
           <div className="flex items-center justify-between max-w-lg mx-auto">
             <div>
-              <span className="text-xs font-body text-muted-foreground">{cartCount} service{cartCount > 1 ? 's' : ''}</span>
+              <span className="text-xs font-body text-muted-foreground">{count} service{count > 1 ? 's' : ''}</span>
               <p className="font-heading font-bold text-lg text-foreground">₹{cartTotal}</p>
             </div>
             <button
-              onClick={() => navigate(`/booking/${id}`, { state: { cart } })}
+              onClick={() => navigate(`/booking/${id}`)}
               className="bg-primary text-primary-foreground font-heading font-semibold text-sm px-6 py-3 rounded-2xl active:scale-95 transition-transform"
             >
               Continue
@@ -296,6 +392,26 @@ const SalonDetail = () => {
           </div>
         </div>
       )}
+
+      <SalonQrDialog salon={salon} url={shareUrl} open={qrOpen} onOpenChange={setQrOpen} />
+
+      <AlertDialog open={!!replacing} onOpenChange={(open) => !open && setReplacing(null)}>
+        <AlertDialogContent className="max-w-[90vw] rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-heading">Replace your cart?</AlertDialogTitle>
+            <AlertDialogDescription className="font-body">
+              Your cart has {cartCount(cart)} service{cartCount(cart) > 1 ? 's' : ''} from {cart?.salonName}. A booking can only be at one
+              salon, so adding this will remove them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="rounded-xl">Keep Cart</AlertDialogCancel>
+            <AlertDialogAction onClick={replaceCart} className="rounded-xl">
+              Start New Cart
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
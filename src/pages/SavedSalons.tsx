@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { ArrowLeft, Heart, Star, Trash2 } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useLocalities, useSalons } from '@/hooks/use-catalog';
+import { useFavorites } from '@/hooks/use-favorites';
+import { useUserLocation } from '@/hooks/use-user-location';
+import { SAVED_SORT_LABELS, sortSavedSalons, type SavedSort } from '@/lib/favorites';
+import { formatDistance } from '@/lib/geo';
+import { getOpenStatus } from '@/lib/openingHours';
+import type { Salon } from '@/types/salon';
+
+const SORTS = Object.keys(SAVED_SORT_LABELS) as SavedSort[];
+
+const SavedSalonsPage = () => {
+  const navigate = useNavigate();
+  const [sort, setSort] = useState<SavedSort>('recent');
+  const { saved, remove, restore } = useFavorites();
+  const { location, distanceTo } = useUserLocation();
+  // Saves from every city, not just the one being browsed
+  const { data: salons = [], isLoading } = useSalons();
+  const { data: localities = [] } = useLocalities();
+  const list = sortSavedSalons(salons, saved, sort, location.coordinates);
+
+  const unsave = (salon: Salon) => {
+    const entry = saved.find((s) => s.salonId === salon.id);
+    remove(salon.id);
+    toast.success(`Removed ${salon.name}`, { action: entry && { label: 'Undo', onClick: () => restore(entry) } });
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <header className="px-4 pt-6 pb-4 flex items-center gap-3">
+        <button onClick={() => navigate(-1)} className="w-9 h-9 rounded-full bg-secondary flex items-center justify-center">
+          <ArrowLeft size={18} className="text-foreground" />
+        </button>
+        <h1 className="font-heading font-bold text-xl text-foreground">Saved Salons</h1>
+      </header>
+
+      {list.length > 1 && (
+        <div className="flex gap-2 px-4 pb-4 overflow-x-auto scrollbar-hide">
+          {SORTS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setSort(option)}
+              className={`flex-shrink-0 px-4 py-1.5 rounded-full text-xs font-heading font-medium transition-all ${
+                sort === option ? 'bg-primary text-primary-foreground' : 'bg-secondary text-muted-foreground'
+              }`}
+            >
+              {SAVED_SORT_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="px-4 space-y-3">
+          {[0, 1, 2].map((i) => (
+            <div key={i} className="h-24 rounded-2xl skeleton-shimmer" />
+          ))}
+        </div>
+      ) : list.length === 0 ? (
+        <div className="flex flex-col items-center text-center px-8 pt-16">
+          <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center">
+            <Heart size={24} className="text-primary" />
+          </div>
+          <h2 className="font-heading font-semibold text-base text-foreground mt-4">No saved salons yet</h2>
+          <p className="text-xs font-body text-muted-foreground mt-1">Tap the heart on any salon to find it here later.</p>
+          <Link to="/explore" className="mt-4 bg-primary text-primary-foreground text-sm font-heading font-medium px-5 py-2 rounded-xl">
+            Find a salon
+          </Link>
+        </div>
+      ) : (
+        <div className="px-4 space-y-3">
+          {list.map((salon) => {
+            const status = getOpenStatus(salon.hours);
+            const locality = localities.find((l) => l.id === salon.localityId);
+            return (
+              <div
+                key={salon.id}
+                onClick={() => navigate(`/salon/${salon.id}`)}
+                className="flex gap-3 bg-card rounded-2xl p-2.5 card-shadow active:scale-[0.98] transition-transform cursor-pointer"
+              >
+                <img src={salon.image} alt={salon.name} className="w-20 h-20 rounded-xl object-cover flex-shrink-0" loading="lazy" />
+                <div className="flex-1 min-w-0 py-0.5">
+                  <h3 className="font-heading font-semibold text-sm text-foreground truncate">{salon.name}</h3>
+                  {locality && <p className="text-[11px] font-body text-muted-foreground truncate">{locality.name}</p>}
+                  <div className="flex items-center gap-1 mt-1">
+                    <Star size={12} className="text-accent fill-accent" />
+                    <span className="text-xs font-body text-foreground">{salon.rating}</span>
+                    <span className="text-xs text-muted-foreground">• {formatDistance(distanceTo(salon.coordinates))}</span>
+                  </div>
+                  <p className={`text-[10px] font-body mt-0.5 ${status.isOpen ? 'text-success' : 'text-muted-foreground'}`}>{status.label}</p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    unsave(salon);
+                  }}
+                  aria-label={`Remove ${salon.name} from saved salons`}
+                  className="self-start w-8 h-8 rounded-full flex items-center justify-center text-muted-foreground active:scale-90 transition-transform"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedSalonsPage;
@@ -0,0 +1,68 @@
+import * as api from '@/api';
+import { PAYMENT_HOLD_MINUTES, isPaymentHoldExpired } from '@/lib/bookingLifecycle';
+import type { Booking } from '@/types/salon';
+import * as gateway from './index';
+import { PAYMENT_METHOD_LABELS } from './details';
+import { PaymentError, type PaymentDetails } from './gateway';
+
+const HOLD_LAPSED = `Your slot was released after ${PAYMENT_HOLD_MINUTES} minutes without payment. Please book again.`;
+
+/**
+ * Charges a pending-payment booking and records the outcome on it. Failures are
+ * recorded too, then rethrown so the payment screen can offer a retry. A charge
+ * the booking can no longer take, because its hold lapsed mid-payment, is refunded.
+ */
+export async function payForBooking(stale: Booking, details: PaymentDetails): Promise<Booking> {
+  // The screen's copy may be out of date, e.g. paid in another tab
+  const booking = await api.getBooking(stale.id, stale.customerId);
+  if (!booking) throw new PaymentError('invalid-state', 'Booking not found');
+  if (booking.payment.status === 'paid') throw new PaymentError('invalid-state', 'This booking is already paid');
+  if (booking.status !== 'pending-payment' || isPaymentHoldExpired(booking)) throw new PaymentError('invalid-state', HOLD_LAPSED);
+  const amount = booking.price.total;
+  const intent = await gateway.createIntent({ bookingId: booking.id, amount, method: details.method });
+  try {
+    await gateway.authorize(intent.id, details);
+    await gateway.capture(intent.id);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'The payment could not be completed';
+    // A timed-out provider may still approve later; void the intent so that can't charge the customer
+    if (error instanceof PaymentError && error.code === 'timeout') await gateway.fail(intent.id, reason).catch(() => undefined);
+    await api.updatePayment(booking.id, booking.customerId, {
+      method: details.method,
+      status: 'failed',
+      amount,
+      intentId: intent.id,
+      failureReason: reason,
+    });
+    throw error;
+  }
+  const payment = { method: details.method, status: 'paid' as const, amount, intentId: intent.id, paidAt: new Date().toISOString() };
+  try {
+    return await api.updatePayment(booking.id, booking.customerId, payment);
+  } catch {
+    const released = await api.getBooking(booking.id, booking.customerId);
+    if (released) await refundBooking({ ...released, payment });
+    throw new PaymentError('invalid-state', `${HOLD_LAPSED} Your ₹${amount} is being refunded.`);
+  }
+}
+
+/** Gives up on paying online; the booking is confirmed and settled at the visit. */
+export const switchToPayAtSalon = (booking: Booking) =>
+  api.updatePayment(booking.id, booking.customerId, { method: 'pay-at-salon', status: 'unpaid', amount: booking.price.total });
+
+/**
+ * Returns an online payment for a cancelled booking and closes it out as refunded. The booking is already
+ * cancelled by then, so a failed refund doesn't throw: it's recorded as `refund-pending` for a retry.
+ */
+export async function refundBooking(booking: Booking): Promise<Booking> {
+  const { payment } = booking;
+  if ((payment.status !== 'paid' && payment.status !== 'refund-pending') || !payment.intentId) return booking;
+  try {
+    await gateway.refund(payment.intentId);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'The refund could not be completed';
+    return api.updatePayment(booking.id, booking.customerId, { ...payment, status: 'refund-pending', failureReason: reason });
+  }
+  await api.updatePayment(booking.id, booking.customerId, { ...payment, status: 'refunded', failureReason: undefined });
+  return api.updateBookingStatus(booking.id, 'refunded', `₹${payment.amount} refunded to ${PAYMENT_METHOD_LABELS[payment.method]}`);
+}
@@ -0,0 +1,66 @@
+import type { BookingPayment, PaymentMethod } from '@/types/salon';
+import type { PaymentDetails } from './gateway';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  upi: 'UPI',
+  card: 'Card',
+  wallet: 'Wallet',
+  'pay-at-salon': 'Pay at Salon',
+};
+
+const VPA_PATTERN = /^[\w.-]{2,}@[a-z]{2,}$/i;
+
+/** Standard card checksum; catches most typos before we ever reach the gateway. */
+export function passesLuhn(number: string): boolean {
+  const digits = number.replace(/\s/g, '');
+  if (!/^\d{12,19}$/.test(digits)) return false;
+  let total = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    total += digit;
+  }
+  return total % 10 === 0;
+}
+
+/** Returns a customer-facing problem with the entered details, or null when they look usable. */
+export function validatePaymentDetails(details: PaymentDetails, now = new Date()): string | null {
+  switch (details.method) {
+    case 'upi':
+      return VPA_PATTERN.test(details.vpa.trim()) ? null : 'Enter a valid UPI ID, e.g. name@okbank';
+    case 'card': {
+      if (!passesLuhn(details.number)) return 'Check your card number';
+      const match = /^(\d{2})\s*\/\s*(\d{2})$/.exec(details.expiry.trim());
+      const month = match ? Number(match[1]) : 0;
+      if (!match || month < 1 || month > 12) return 'Enter the expiry as MM/YY';
+      // Cards are valid through the last day of their expiry month
+      if (new Date(2000 + Number(match[2]), month, 1) <= now) return 'This card has expired';
+      if (!/^\d{3,4}$/.test(details.cvv)) return 'Enter the 3 or 4 digit CVV';
+      return details.name.trim() ? null : 'Enter the name on the card';
+    }
+    case 'wallet':
+      return null;
+  }
+}
+
+/** Short status line for booking cards, e.g. 'Paid via UPI' or 'Pay at salon'. */
+export function describePayment(payment: BookingPayment): string {
+  const via = payment.method ? PAYMENT_METHOD_LABELS[payment.method] : null;
+  switch (payment.status) {
+    case 'paid':
+      return payment.method === 'pay-at-salon' ? 'Paid at salon' : `Paid via ${via}`;
+    case 'unpaid':
+      return 'Pay at salon';
+    case 'pending':
+      return 'Awaiting payment';
+    case 'failed':
+      return 'Payment failed';
+    case 'refund-pending':
+      return 'Refund pending';
+    case 'refunded':
+      return via ? `Refunded to ${via}` : 'Refunded';
+  }
+}
@@ -0,0 +1,56 @@
+export type OnlineMethod = 'upi' | 'card' | 'wallet';
+
+export const WALLETS = [
+  { id: 'paytm', name: 'Paytm' },
+  { id: 'phonepe', name: 'PhonePe' },
+  { id: 'amazonpay', name: 'Amazon Pay' },
+] as const;
+
+export type WalletId = (typeof WALLETS)[number]['id'];
+
+export type PaymentDetails =
+  | { method: 'upi'; vpa: string }
+  | { method: 'card'; number: string; expiry: string; cvv: string; name: string }
+  | { method: 'wallet'; wallet: WalletId };
+
+export type IntentStatus = 'requires-authorization' | 'authorized' | 'captured' | 'failed' | 'refunded';
+
+export interface PaymentIntent {
+  id: string;
+  bookingId: string;
+  /** Rupees */
+  amount: number;
+  currency: 'INR';
+  method: OnlineMethod;
+  status: IntentStatus;
+  failureReason?: string;
+}
+
+export interface CreateIntentInput {
+  bookingId: string;
+  amount: number;
+  method: OnlineMethod;
+}
+
+export type PaymentErrorCode = 'declined' | 'timeout' | 'invalid-state';
+
+export class PaymentError extends Error {
+  constructor(public readonly code: PaymentErrorCode, message: string) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+/**
+ * The steps every gateway exposes. Authorization reserves the money and capture
+ * takes it, so a booking that can't be confirmed never charges the customer.
+ */
+export interface PaymentGateway {
+  createIntent(input: CreateIntentInput): Promise<PaymentIntent>;
+  /** Rejects with a `PaymentError` when declined or when the provider doesn't answer in time. */
+  authorize(intentId: string, details: PaymentDetails): Promise<PaymentIntent>;
+  capture(intentId: string): Promise<PaymentIntent>;
+  /** Voids an intent that hasn't been captured, e.g. after a timeout. */
+  fail(intentId: string, reason: string): Promise<PaymentIntent>;
+  refund(intentId: string): Promise<PaymentIntent>;
+}
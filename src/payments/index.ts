@@ -0,0 +1,19 @@
+import type { CreateIntentInput, PaymentDetails, PaymentGateway } from './gateway';
+import { createMockGateway } from './mockGateway';
+
+export type { CreateIntentInput, OnlineMethod, PaymentDetails, PaymentGateway, PaymentIntent, WalletId } from './gateway';
+export { PaymentError, WALLETS } from './gateway';
+export { createMockGateway, TEST_CREDENTIALS } from './mockGateway';
+
+let gateway: PaymentGateway = createMockGateway();
+
+/** Swap the payment provider, e.g. for a real gateway SDK or a test double. */
+export const setPaymentGateway = (next: PaymentGateway) => {
+  gateway = next;
+};
+
+export const createIntent = (input: CreateIntentInput) => gateway.createIntent(input);
+export const authorize = (intentId: string, details: PaymentDetails) => gateway.authorize(intentId, details);
+export const capture = (intentId: string) => gateway.capture(intentId);
+export const fail = (intentId: string, reason: string) => gateway.fail(intentId, reason);
+export const refund = (intentId: string) => gateway.refund(intentId);
@@ -0,0 +1,121 @@
+import { readJSON, writeJSON } from '@/lib/storage';
+import { PaymentError, type PaymentDetails, type PaymentGateway, type PaymentIntent, type WalletId } from './gateway';
+
+/** Credentials that steer the simulated gateway; anything else valid succeeds. */
+export const TEST_CREDENTIALS = {
+  upi: { failure: 'failure@upi', timeout: 'timeout@upi' },
+  card: { success: '4111 1111 1111 1111', failure: '4000 0000 0000 0002', timeout: '4000 0000 0000 0119' },
+};
+
+// Simulated wallet balances; Amazon Pay plays the provider that never answers
+const WALLET_BALANCES: Record<WalletId, number | 'unreachable'> = {
+  paytm: 10000,
+  phonepe: 250,
+  amazonpay: 'unreachable',
+};
+
+type Outcome = { result: 'approve' } | { result: 'decline'; reason: string } | { result: 'timeout' };
+
+function simulateOutcome(details: PaymentDetails, amount: number): Outcome {
+  switch (details.method) {
+    case 'upi': {
+      const vpa = details.vpa.trim().toLowerCase();
+      if (vpa === TEST_CREDENTIALS.upi.failure) return { result: 'decline', reason: 'The payment was declined in your UPI app' };
+      if (vpa === TEST_CREDENTIALS.upi.timeout) return { result: 'timeout' };
+      return { result: 'approve' };
+    }
+    case 'card': {
+      const number = details.number.replace(/\s/g, '');
+      if (number === TEST_CREDENTIALS.card.failure.replace(/\s/g, '')) return { result: 'decline', reason: 'Your card was declined by the issuing bank' };
+      if (number === TEST_CREDENTIALS.card.timeout.replace(/\s/g, '')) return { result: 'timeout' };
+      return { result: 'approve' };
+    }
+    case 'wallet': {
+      const balance = WALLET_BALANCES[details.wallet];
+      if (balance === 'unreachable') return { result: 'timeout' };
+      if (balance < amount) return { result: 'decline', reason: `Insufficient wallet balance (₹${balance} available)` };
+      return { result: 'approve' };
+    }
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface MockGatewayOptions {
+  /** How long a provider takes to respond. */
+  latencyMs?: number;
+  /** How long to wait before giving up on a provider that never responds. */
+  timeoutMs?: number;
+  /** Keep intents in localStorage so bookings paid before a reload can still be refunded. Defaults to true. */
+  persist?: boolean;
+}
+
+const INTENTS_KEY = 'payment_intents';
+
+/** In-browser stand-in for a real gateway, driven by `TEST_CREDENTIALS`. */
+export const createMockGateway = ({ latencyMs = 1500, timeoutMs = 8000, persist = true }: MockGatewayOptions = {}): PaymentGateway => {
+  const intents = new Map<string, PaymentIntent>(persist ? readJSON<[string, PaymentIntent][]>(INTENTS_KEY, []) : []);
+  let sequence = 0;
+
+  const save = (intent: PaymentIntent) => {
+    intents.set(intent.id, intent);
+    if (persist) writeJSON(INTENTS_KEY, [...intents]);
+  };
+
+  const findIntent = (id: string) => {
+    const intent = intents.get(id);
+    if (!intent) throw new PaymentError('invalid-state', 'Unknown payment');
+    return intent;
+  };
+
+  const update = (intent: PaymentIntent, changes: Partial<PaymentIntent>) => {
+    const next = { ...intent, ...changes };
+    save(next);
+    return next;
+  };
+
+  const requireStatus = (intent: PaymentIntent, ...allowed: PaymentIntent['status'][]) => {
+    if (!allowed.includes(intent.status)) {
+      throw new PaymentError('invalid-state', `Payment is ${intent.status.replace('-', ' ')}`);
+    }
+  };
+
+  return {
+    async createIntent(input) {
+      sequence += 1;
+      const intent: PaymentIntent = { ...input, id: `pi_mock_${Date.now()}_${sequence}`, currency: 'INR', status: 'requires-authorization' };
+      save(intent);
+      return intent;
+    },
+    async authorize(intentId, details) {
+      const intent = findIntent(intentId);
+      requireStatus(intent, 'requires-authorization');
+      const outcome = simulateOutcome(details, intent.amount);
+      if (outcome.result === 'timeout') {
+        await wait(timeoutMs);
+        throw new PaymentError('timeout', "The payment provider didn't respond in time");
+      }
+      await wait(latencyMs);
+      if (outcome.result === 'decline') {
+        update(intent, { status: 'failed', failureReason: outcome.reason });
+        throw new PaymentError('declined', outcome.reason);
+      }
+      return update(intent, { status: 'authorized' });
+    },
+    async capture(intentId) {
+      const intent = findIntent(intentId);
+      requireStatus(intent, 'authorized');
+      return update(intent, { status: 'captured' });
+    },
+    async fail(intentId, reason) {
+      const intent = findIntent(intentId);
+      requireStatus(intent, 'requires-authorization', 'authorized');
+      return update(intent, { status: 'failed', failureReason: reason });
+    },
+    async refund(intentId) {
+      const intent = findIntent(intentId);
+      requireStatus(intent, 'captured');
+      return update(intent, { status: 'refunded' });
+    },
+  };
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { artists, reviews, services } from "@/data/mockData";
+import { artistRatings, eligibleArtists } from "@/lib/artists";
+import type { Review } from "@/types/salon";
+
+const review = (artistId: string | undefined, rating: number) => ({ artistId, rating }) as Review;
+
+describe("artistRatings", () => {
+  it("averages the reviews that name each artist", () => {
+    const ratings = artistRatings([review("1", 5), review("1", 4), review("2", 3), review(undefined, 1)]);
+    expect(ratings).toEqual({ "1": { rating: 4.5, reviewCount: 2 }, "2": { rating: 3, reviewCount: 1 } });
+  });
+
+  it("rounds to one decimal place", () => {
+    expect(artistRatings([review("1", 5), review("1", 4), review("1", 4)])["1"].rating).toBe(4.3);
+  });
+});
+
+describe("skill mapping", () => {
+  const luxe = artists.filter((a) => a.salonId === "1");
+
+  it("matches specialists to their services", () => {
+    expect(eligibleArtists(luxe, ["1-3"]).map((a) => a.name)).toEqual(["Rahul K."]);
+    expect(eligibleArtists(luxe, ["1-6"]).map((a) => a.name)).toEqual(["Anita M."]);
+    expect(eligibleArtists(luxe, ["1-3", "1-6"])).toEqual([]);
+  });
+
+  it("credits each review to an artist trained for the service it describes", () => {
+    for (const r of reviews.filter((r) => r.artistId)) {
+      const artist = artists.find((a) => a.id === r.artistId);
+      const service = services.find((s) => s.salonId === r.salonId && s.name === r.service);
+      expect(artist?.salonId).toBe(r.salonId);
+      if (service) expect(artist?.serviceIds).toContain(service.id);
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { AuthError, STUB_OTP, createStubAuthService, formatPhone, normalizePhone } from "@/auth";
+
+const clock = (start = new Date("2030-01-01T10:00:00Z")) => {
+  let current = start;
+  return {
+    now: () => current,
+    advance: (seconds: number) => {
+      current = new Date(current.getTime() + seconds * 1000);
+    },
+  };
+};
+
+const service = (time = clock()) => createStubAuthService({ persist: false, now: time.now });
+
+describe("normalizePhone", () => {
+  it("accepts common Indian mobile formats", () => {
+    expect(normalizePhone("98765 43210")).toBe("+919876543210");
+    expect(normalizePhone("+91 98765-43210")).toBe("+919876543210");
+    expect(normalizePhone("09876543210")).toBe("+919876543210");
+    expect(formatPhone("+919876543210")).toBe("+91 98765 43210");
+    expect(formatPhone("+918041234567")).toBe("+91 80412 34567");
+    expect(formatPhone("+442079460000")).toBe("+442079460000");
+  });
+
+  it("rejects numbers that aren't mobiles", () => {
+    expect(normalizePhone("12345 67890")).toBeNull();
+    expect(normalizePhone("98765")).toBeNull();
+  });
+});
+
+describe("stub auth service", () => {
+  it("signs an existing customer back into their account", async () => {
+    const auth = service();
+    const challenge = await auth.requestOtp("98765 43210");
+    const session = await auth.verifyOtp(challenge.id, STUB_OTP);
+    expect(session.user).toMatchObject({ id: "1", name: "Aarav Sharma" });
+    expect(session.token).toBeTruthy();
+  });
+
+  it("creates a nameless account for a new number", async () => {
+    const auth = service();
+    const session = await auth.verifyOtp((await auth.requestOtp("9123456789")).id, STUB_OTP);
+    expect(session.user).toMatchObject({ name: "", phone: "+919123456789" });
+    const updated = await auth.updateProfile(session.user.id, { name: "Riya" });
+    expect(updated.name).toBe("Riya");
+  });
+
+  it("enforces the resend cooldown", async () => {
+    const time = clock();
+    const auth = service(time);
+    await auth.requestOtp("9876543210");
+    await expect(auth.requestOtp("9876543210")).rejects.toMatchObject({ code: "cooldown" });
+    time.advance(30);
+    await expect(auth.requestOtp("9876543210")).resolves.toMatchObject({ attemptsLeft: 5 });
+  });
+
+  it("locks the code after too many wrong attempts", async () => {
+    const auth = service();
+    const challenge = await auth.requestOtp("9876543210");
+    for (let left = 4; left > 0; left--) {
+      await expect(auth.verifyOtp(challenge.id, "000000")).rejects.toThrow(`${left} attempt`);
+    }
+    await expect(auth.verifyOtp(challenge.id, "000000")).rejects.toMatchObject({ code: "too-many-attempts" });
+    await expect(auth.verifyOtp(challenge.id, STUB_OTP)).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it("expires codes", async () => {
+    const time = clock();
+    const auth = service(time);
+    const challenge = await auth.requestOtp("9876543210");
+    time.advance(5 * 60);
+    await expect(auth.verifyOtp(challenge.id, STUB_OTP)).rejects.toMatchObject({ code: "expired" });
+  });
+});
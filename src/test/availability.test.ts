@@ -0,0 +1,228 @@
+import { describe, it, expect } from "vitest";
+import {
+  bookingArtistNames,
+  findConflict,
+  getDayCapacity,
+  getDaySlots,
+  itineraryTurns,
+  nextFreeStart,
+  planItinerary,
+} from "@/lib/availability";
+import { parseDuration } from "@/lib/time";
+import type { Artist, Booking, BookingItem, Salon } from "@/types/salon";
+
+const nineToNine = [{ opensAt: "09:00", closesAt: "21:00" }];
+const salon = {
+  id: "s",
+  hours: {
+    weekly: { sun: [], mon: nineToNine, tue: nineToNine, wed: nineToNine, thu: nineToNine, fri: nineToNine, sat: nineToNine },
+    exceptions: [{ date: "2030-01-08", intervals: [] }],
+  },
+} as Salon;
+const artist = (id: string, start = "09:00", end = "21:00", serviceIds = ["haircut", "facial"]): Artist => ({
+  id,
+  salonId: "s",
+  name: id,
+  avatar: "",
+  specialty: "",
+  serviceIds,
+  schedule: { days: [0, 1, 2, 3, 4, 5, 6], start, end },
+});
+// A Monday, well in the future relative to `now`
+const date = new Date(2030, 0, 7);
+const now = new Date(2030, 0, 1, 8, 0);
+const booking = (artistId: string, time: string, durationMinutes: number): Booking => ({
+  id: `${artistId}-${time}`,
+  customerId: "1",
+  salonId: "s",
+  salonName: "",
+  salonImage: "",
+  items: [],
+  artistId,
+  date: "2030-01-07",
+  time,
+  durationMinutes,
+  status: "confirmed",
+  history: [],
+  price: { subtotal: 0, tax: 0, total: 0 },
+  payment: { method: "pay-at-salon", status: "unpaid", amount: 0 },
+});
+
+const item = (serviceId: string, durationMinutes: number, qty = 1): BookingItem => ({ serviceId, name: serviceId, price: 0, qty, durationMinutes });
+const haircutAndFacial = [item("haircut", 45), item("facial", 60)];
+
+describe("parseDuration", () => {
+  it("reads minutes and hours", () => {
+    expect(parseDuration("45 min")).toBe(45);
+    expect(parseDuration("2 hr")).toBe(120);
+    expect(parseDuration("1 hr 30 min")).toBe(90);
+  });
+});
+
+describe("getDaySlots", () => {
+  it("does not offer start times that would run past closing", () => {
+    const slots = getDaySlots({ salon, artists: [artist("a")], bookings: [], date, durationMinutes: 240, now });
+    expect(slots.find((s) => s.time === "19:00")?.available).toBe(false);
+    expect(slots.find((s) => s.time === "17:00")?.available).toBe(true);
+  });
+
+  it("keeps a booked artist out of overlapping slots", () => {
+    const slots = getDaySlots({
+      salon,
+      artists: [artist("a"), artist("b")],
+      bookings: [booking("a", "10:00", 60)],
+      date,
+      durationMinutes: 45,
+      now,
+    });
+    expect(slots.find((s) => s.time === "09:30")?.freeArtistIds).toEqual(["b"]);
+    expect(slots.find((s) => s.time === "11:00")?.freeArtistIds).toEqual(["a", "b"]);
+  });
+
+  it("respects artist shifts", () => {
+    const slots = getDaySlots({ salon, artists: [artist("a", "12:00", "18:00")], bookings: [], date, durationMinutes: 30, now });
+    expect(slots.filter((s) => s.available).map((s) => s.time)[0]).toBe("12:00");
+  });
+
+  it("skips lunch breaks and closed days", () => {
+    const split = {
+      ...salon,
+      hours: { weekly: { ...salon.hours.weekly, mon: [{ opensAt: "09:00", closesAt: "13:00" }, { opensAt: "14:00", closesAt: "18:00" }] } },
+    };
+    const slots = getDaySlots({ salon: split, artists: [artist("a")], bookings: [], date, durationMinutes: 60, now });
+    expect(slots.some((s) => s.time === "13:00" || s.time === "13:30")).toBe(false);
+    expect(slots.find((s) => s.time === "12:30")?.available).toBe(false);
+    expect(getDaySlots({ salon, artists: [artist("a")], bookings: [], date: new Date(2030, 0, 8), durationMinutes: 30, now })).toEqual([]);
+  });
+
+  it("ignores cancelled bookings", () => {
+    const cancelled = { ...booking("a", "10:00", 60), status: "cancelled-by-customer" as const };
+    const slots = getDaySlots({ salon, artists: [artist("a")], bookings: [cancelled], date, durationMinutes: 30, now });
+    expect(slots.find((s) => s.time === "10:00")?.available).toBe(true);
+  });
+});
+
+describe("getDayCapacity", () => {
+  it("flags a mostly booked day as almost full", () => {
+    const input = { salon, artists: [artist("a")], date, durationMinutes: 30, now };
+    expect(getDayCapacity({ ...input, bookings: [] }).status).toBe("available");
+    expect(getDayCapacity({ ...input, bookings: [booking("a", "09:00", 600)] }).status).toBe("almost-full");
+    expect(getDayCapacity({ ...input, bookings: [booking("a", "09:00", 720)] }).status).toBe("full");
+  });
+});
+
+describe("planItinerary", () => {
+  const team = [artist("vikram"), artist("priya")];
+
+  it("runs services back to back, one turn per unit booked", () => {
+    expect(itineraryTurns([item("haircut", 45, 2), item("facial", 60)], 600).map((t) => [t.serviceId, t.start, t.end])).toEqual([
+      ["haircut", 600, 645],
+      ["haircut", 645, 690],
+      ["facial", 690, 750],
+    ]);
+  });
+
+  it("keeps one artist when they're free throughout, and honours picks per service", () => {
+    const plan = planItinerary({ artists: team, bookings: [], date, start: 600, items: haircutAndFacial });
+    expect(plan?.map((s) => [s.time, s.artistId])).toEqual([
+      ["10:00", "vikram"],
+      ["10:45", "vikram"],
+    ]);
+
+    const picked = planItinerary({ artists: team, bookings: [], date, start: 600, items: haircutAndFacial, picks: [undefined, "priya"] });
+    expect(picked?.map((s) => [s.time, s.name, s.artistName])).toEqual([
+      ["10:00", "haircut", "vikram"],
+      ["10:45", "facial", "priya"],
+    ]);
+  });
+
+  it("hands over when the first artist is booked later on, and fails when nobody is free", () => {
+    const busy = [booking("vikram", "11:00", 60)];
+    const plan = planItinerary({ artists: team, bookings: busy, date, start: 600, items: haircutAndFacial });
+    expect(plan?.map((s) => s.artistId)).toEqual(["vikram", "priya"]);
+
+    expect(planItinerary({ artists: team, bookings: busy, date, start: 600, items: haircutAndFacial, picks: [undefined, "vikram"] })).toBeNull();
+    expect(planItinerary({ artists: [artist("vikram")], bookings: busy, date, start: 600, items: haircutAndFacial })).toBeNull();
+  });
+
+  it("opens slots no single artist could take on their own", () => {
+    const bookings = [booking("vikram", "11:00", 60), booking("priya", "10:00", 45)];
+    const slots = getDaySlots({ salon, artists: team, bookings, date, durationMinutes: 105, items: haircutAndFacial, now });
+    const ten = slots.find((s) => s.time === "10:00");
+    expect(ten?.freeArtistIds).toEqual([]);
+    expect(ten?.available).toBe(true);
+    expect(getDaySlots({ salon, artists: team, bookings, date, durationMinutes: 105, now }).find((s) => s.time === "10:00")?.available).toBe(false);
+  });
+});
+
+describe("findConflict", () => {
+  const shared = {
+    ...booking("vikram", "10:00", 105),
+    artistId: undefined,
+    itinerary: [
+      { serviceId: "haircut", name: "haircut", artistId: "vikram", artistName: "Vikram", time: "10:00", durationMinutes: 45 },
+      { serviceId: "facial", name: "facial", artistId: "priya", artistName: "Priya", time: "10:45", durationMinutes: 60 },
+    ],
+  };
+
+  it("holds each specialist only for their own turn", () => {
+    expect(findConflict([shared], { artistId: "vikram", date: "2030-01-07", time: "10:45", durationMinutes: 60 })).toBeUndefined();
+    expect(findConflict([shared], { artistId: "priya", date: "2030-01-07", time: "10:00", durationMinutes: 60 })).toBe(shared);
+    expect(findConflict([booking("priya", "11:30", 30)], shared)?.id).toBe("priya-11:30");
+  });
+
+  it("names everyone on the booking", () => {
+    expect(bookingArtistNames(shared)).toEqual(["Vikram", "Priya"]);
+    expect(bookingArtistNames({ artistName: "Vikram" })).toEqual(["Vikram"]);
+    expect(bookingArtistNames({})).toEqual([]);
+  });
+});
+
+describe("specialist eligibility", () => {
+  const barber = artist("vikram", "09:00", "21:00", ["haircut"]);
+  const beautician = artist("anita", "09:00", "21:00", ["facial"]);
+
+  it("only gives each service to someone trained for it", () => {
+    const plan = planItinerary({ artists: [barber, beautician], bookings: [], date, start: 600, items: haircutAndFacial });
+    expect(plan?.map((s) => s.artistId)).toEqual(["vikram", "anita"]);
+    expect(planItinerary({ artists: [barber, beautician], bookings: [], date, start: 600, items: haircutAndFacial, picks: [undefined, "vikram"] })).toBeNull();
+    expect(planItinerary({ artists: [barber], bookings: [], date, start: 600, items: haircutAndFacial })).toBeNull();
+  });
+
+  it("counts only artists who can do the whole visit as free for it", () => {
+    const slots = getDaySlots({ salon, artists: [barber, beautician], bookings: [], date, durationMinutes: 105, items: haircutAndFacial, now });
+    const ten = slots.find((s) => s.time === "10:00");
+    expect(ten?.freeArtistIds).toEqual([]);
+    expect(ten?.available).toBe(true);
+    expect(getDaySlots({ salon, artists: [barber], bookings: [], date, durationMinutes: 105, items: haircutAndFacial, now }).some((s) => s.available)).toBe(
+      false,
+    );
+  });
+
+  it("judges peak times against the artists who could take the visit", () => {
+    const barbers = [artist("a", "09:00", "21:00", ["haircut"]), artist("b", "09:00", "21:00", ["haircut"])];
+    const roster = [...barbers, beautician, artist("meera", "09:00", "21:00", ["facial"])];
+    const haircut = [item("haircut", 45)];
+    const slots = getDaySlots({ salon, artists: roster, bookings: [booking("a", "10:00", 45)], date, durationMinutes: 45, items: haircut, now });
+    expect(slots.find((s) => s.time === "09:00")?.isPeak).toBe(false);
+    expect(slots.find((s) => s.time === "10:00")?.isPeak).toBe(true);
+  });
+
+  it("measures a visit that needs two specialists against each one's diary", () => {
+    const input = { salon, artists: [barber, beautician], date, durationMinutes: 105, items: haircutAndFacial, now };
+    const open = getDaySlots({ ...input, bookings: [] });
+    expect(open.filter((s) => s.available).every((s) => !s.isPeak && s.openings === 1)).toBe(true);
+    expect(getDayCapacity({ ...input, bookings: [] })).toMatchObject({ status: "available", freeRatio: 1 });
+
+    // The beautician is taken from 10:00 to 19:00, so only the first and last few starts still work
+    const busy = getDayCapacity({ ...input, bookings: [booking("anita", "10:00", 540)] });
+    expect(busy.status).toBe("almost-full");
+    expect(busy.availableSlots).toBeGreaterThan(0);
+  });
+
+  it("finds when a busy artist is next free", () => {
+    const bookings = [booking("vikram", "10:00", 60)];
+    expect(nextFreeStart(barber, date, 600, 45, bookings)).toBe(660);
+    expect(nextFreeStart(barber, date, 1230, 45, [])).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { InvalidTransitionError, canReschedule, holdsSlot, transitionBooking } from "@/lib/bookingLifecycle";
+import type { Booking } from "@/types/salon";
+
+const booking: Booking = {
+  id: "1",
+  customerId: "1",
+  salonId: "1",
+  salonName: "Luxe Hair Studio",
+  salonImage: "",
+  items: [],
+  date: "2030-01-07",
+  time: "10:00",
+  durationMinutes: 45,
+  status: "confirmed",
+  history: [{ status: "confirmed", at: "2030-01-01T10:00:00.000Z" }],
+  price: { subtotal: 0, tax: 0, total: 0 },
+  payment: { method: "pay-at-salon", status: "unpaid", amount: 0 },
+};
+
+describe("transitionBooking", () => {
+  it("walks a booking through a visit and records each step", () => {
+    const at = new Date("2030-01-07T04:30:00.000Z");
+    const done = ["checked-in", "in-service", "completed"].reduce(
+      (b, status) => transitionBooking(b, status as Booking["status"], { at }),
+      booking,
+    );
+    expect(done.status).toBe("completed");
+    expect(done.history.map((e) => e.status)).toEqual(["confirmed", "checked-in", "in-service", "completed"]);
+    expect(done.history[3].at).toBe(at.toISOString());
+  });
+
+  it("rejects illegal moves", () => {
+    const completed = { ...booking, status: "completed" as const };
+    expect(() => transitionBooking(completed, "cancelled-by-customer")).toThrow(InvalidTransitionError);
+    expect(() => transitionBooking(booking, "completed")).toThrow(InvalidTransitionError);
+  });
+
+  it("keeps notes on the history entry", () => {
+    const cancelled = transitionBooking(booking, "cancelled-by-salon", { note: "Stylist unwell" });
+    expect(cancelled.history.at(-1)?.note).toBe("Stylist unwell");
+    expect(canReschedule(cancelled)).toBe(false);
+  });
+});
+
+describe("holdsSlot", () => {
+  it("releases an unpaid checkout's slot once its hold lapses", () => {
+    const unpaid: Booking = { ...booking, status: "pending-payment", history: [{ status: "pending-payment", at: "2030-01-01T10:00:00.000Z" }] };
+    expect(holdsSlot(unpaid, new Date("2030-01-01T10:14:00.000Z"))).toBe(true);
+    expect(holdsSlot(unpaid, new Date("2030-01-01T10:15:00.000Z"))).toBe(false);
+    expect(holdsSlot(booking, new Date("2030-01-07T00:00:00.000Z"))).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { services } from "@/data/mockData";
+import { addToCart, cartCount, cartItems, holdsOtherSalon, removeFromCart } from "@/lib/cart";
+
+const luxe = { id: "1", name: "Luxe Hair Studio" };
+const bliss = { id: "4", name: "Bliss Beauty Lounge" };
+
+describe("cart", () => {
+  it("counts each service added and drops the cart once emptied", () => {
+    let cart = addToCart(null, luxe, "1-1");
+    cart = addToCart(cart, luxe, "1-2");
+    cart = addToCart(cart, luxe, "1-2");
+    expect(cart.items).toEqual({ "1-1": 1, "1-2": 2 });
+    expect(cartCount(cart)).toBe(3);
+
+    cart = removeFromCart(cart, "1-2");
+    expect(cart?.items).toEqual({ "1-1": 1, "1-2": 1 });
+    expect(removeFromCart(removeFromCart(cart, "1-2"), "1-1")).toBeNull();
+    expect(removeFromCart(cart, "9-9")).toBe(cart);
+  });
+
+  it("holds one salon at a time", () => {
+    const cart = addToCart(null, luxe, "1-1");
+    expect(holdsOtherSalon(cart, "1")).toBe(false);
+    expect(holdsOtherSalon(cart, "4")).toBe(true);
+    expect(holdsOtherSalon(null, "4")).toBe(false);
+
+    const replaced = addToCart(cart, bliss, "4-1");
+    expect(replaced).toEqual({ salonId: "4", salonName: "Bliss Beauty Lounge", items: { "4-1": 1 } });
+  });
+
+  it("prices lines from the current catalog for the salon being booked", () => {
+    const cart = { salonId: "1", salonName: "Luxe Hair Studio", items: { "1-2": 2, retired: 1 } };
+    expect(cartItems(cart, "1", services)).toEqual([
+      { serviceId: "1-2", name: "Beard Trim", price: 199, qty: 2, durationMinutes: 20 },
+    ]);
+    expect(cartItems(cart, "4", services)).toEqual([]);
+    expect(cartItems(null, "1", services)).toEqual([]);
+  });
+});
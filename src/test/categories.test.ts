@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { categories, services } from "@/data/mockData";
+import { categoriesOffered, lowestCategoryPrices } from "@/lib/categories";
+
+describe("lowestCategoryPrices", () => {
+  it("prices each salon by its cheapest service in the category", () => {
+    // Skin Care: Luxe Hair Studio's threading undercuts its facial and groom package
+    expect(lowestCategoryPrices(services, "2")).toEqual({ "1": 99, "2": 1999, "3": 1199, "4": 79, "8": 799 });
+  });
+
+  it("leaves out salons with nothing in the category", () => {
+    expect(Object.keys(lowestCategoryPrices(services, "7")).sort()).toEqual(["1", "4"]);
+    expect(lowestCategoryPrices(services, "unknown")).toEqual({});
+  });
+});
+
+describe("categoriesOffered", () => {
+  it("follows the services' categories rather than their names", () => {
+    const royal = services.filter((s) => s.salonId === "2");
+    expect(categoriesOffered(royal, categories).map((c) => c.name)).toEqual(["Haircut", "Skin Care", "Massage", "Spa"]);
+  });
+});
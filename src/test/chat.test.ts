@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import {
+  createChatClient,
+  createMemoryBus,
+  mergeMessages,
+  threadIdFor,
+  threadSummaries,
+  unreadCount,
+  validateDraft,
+  type ChatClient,
+  type ChatMessage,
+  type ChatThread,
+} from "@/chat";
+
+const thread: ChatThread = {
+  id: threadIdFor("1", "42"),
+  salonId: "1",
+  salonName: "Luxe Hair Studio",
+  salonImage: "",
+  customerId: "42",
+  customerName: "Riya",
+};
+
+const customer = { role: "customer" as const, id: "42" };
+const salon = { role: "salon" as const, id: "1" };
+
+// The memory bus delivers on a microtask, like a real channel would deliver asynchronously
+const flush = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const message = (id: string, sentAt: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  threadId: thread.id,
+  from: "customer",
+  text: id,
+  attachments: [],
+  sentAt,
+  ...extra,
+});
+
+describe("validateDraft", () => {
+  it("needs some text or a photo, within limits", () => {
+    expect(validateDraft({ text: "   " })).toBe("Type a message or add a photo");
+    expect(validateDraft({ text: "x".repeat(2001) })).toMatch(/up to 2000 characters/);
+    expect(validateDraft({ text: "Are you open on Sunday?" })).toBeNull();
+  });
+});
+
+describe("mergeMessages", () => {
+  it("keeps the earliest receipts and orders by send time", () => {
+    const merged = mergeMessages(
+      [message("b", "2030-01-01T10:05:00Z", { deliveredAt: "2030-01-01T10:06:00Z" }), message("a", "2030-01-01T10:00:00Z")],
+      [message("b", "2030-01-01T10:05:00Z", { deliveredAt: "2030-01-01T10:07:00Z", readAt: "2030-01-01T10:08:00Z" })],
+    );
+    expect(merged.map((m) => m.id)).toEqual(["a", "b"]);
+    expect(merged[1].deliveredAt).toBe("2030-01-01T10:06:00Z");
+    expect(merged[1].readAt).toBe("2030-01-01T10:08:00Z");
+  });
+
+  it("treats a read message as delivered", () => {
+    const [merged] = mergeMessages([], [message("a", "2030-01-01T10:00:00Z", { readAt: "2030-01-01T10:01:00Z" })]);
+    expect(merged.deliveredAt).toBe("2030-01-01T10:01:00Z");
+  });
+});
+
+describe("chat client", () => {
+  let customerApp: ChatClient;
+  let salonApp: ChatClient;
+
+  beforeEach(() => {
+    const bus = createMemoryBus();
+    customerApp = createChatClient({ transport: bus.createTransport(), persist: false });
+    salonApp = createChatClient({ transport: bus.createTransport(), persist: false });
+  });
+
+  afterEach(() => {
+    customerApp.close();
+    salonApp.close();
+    vi.useRealTimers();
+  });
+
+  it("delivers messages and starts the thread on the other side", async () => {
+    customerApp.send(thread, "customer", { text: "Hi, do you do keratin?" });
+    await flush();
+    expect(salonApp.getState().threads).toEqual([thread]);
+    expect(salonApp.getState().messages[0].text).toBe("Hi, do you do keratin?");
+    expect(() => customerApp.send(thread, "customer", { text: "" })).toThrow("Type a message or add a photo");
+  });
+
+  it("reports delivery once the salon is connected, then reading", async () => {
+    const sent = customerApp.send(thread, "customer", { text: "Hello" });
+    await flush();
+    expect(customerApp.getState().messages[0].deliveredAt).toBeUndefined();
+
+    salonApp.connect(salon);
+    await flush();
+    expect(customerApp.getState().messages[0].deliveredAt).toBeDefined();
+    expect(unreadCount(salonApp.getState(), salon)).toBe(1);
+
+    salonApp.markRead(thread.id, "salon");
+    await flush();
+    expect(customerApp.getState().messages.find((m) => m.id === sent.id)?.readAt).toBeDefined();
+    expect(unreadCount(salonApp.getState(), salon)).toBe(0);
+  });
+
+  it("acknowledges messages arriving while connected", async () => {
+    customerApp.connect(customer);
+    salonApp.send(thread, "salon", { text: "Yes, from ₹2,499" });
+    await flush();
+    await flush();
+    expect(salonApp.getState().messages[0].deliveredAt).toBeDefined();
+    expect(salonApp.getState().messages[0].readAt).toBeUndefined();
+  });
+
+  it("shows typing until the other side stops, sends, or goes quiet", async () => {
+    vi.useFakeTimers();
+    salonApp.setTyping(thread.id, "salon", true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(customerApp.getState().typing[thread.id]).toEqual(["salon"]);
+
+    salonApp.setTyping(thread.id, "salon", false);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(customerApp.getState().typing[thread.id]).toEqual([]);
+
+    salonApp.setTyping(thread.id, "salon", true);
+    await vi.advanceTimersByTimeAsync(0);
+    salonApp.send(thread, "salon", { text: "Sure" });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(customerApp.getState().typing[thread.id]).toEqual([]);
+
+    salonApp.setTyping(thread.id, "salon", true);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(customerApp.getState().typing[thread.id]).toEqual([]);
+  });
+
+  it("summarises each side's conversations, newest first", async () => {
+    const other = { ...thread, id: threadIdFor("2", "42"), salonId: "2", salonName: "Glow Beauty Lounge" };
+    customerApp.send(thread, "customer", { text: "First" });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    customerApp.send(other, "customer", { text: "Second" });
+    await flush();
+
+    expect(threadSummaries(customerApp.getState(), customer).map((s) => s.thread.id)).toEqual([other.id, thread.id]);
+    const [inbox] = threadSummaries(salonApp.getState(), salon);
+    expect(inbox).toMatchObject({ thread, unread: 1 });
+    expect(threadSummaries(salonApp.getState(), { role: "salon", id: "3" })).toEqual([]);
+  });
+});
+
+describe("chat client storage", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  it("marks a message failed and keeps it from the other side when it can't be saved", async () => {
+    const bus = createMemoryBus();
+    const customerApp = createChatClient({ transport: bus.createTransport() });
+    const salonApp = createChatClient({ transport: bus.createTransport(), persist: false });
+    const setItem = vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    });
+
+    const unsent = customerApp.send(thread, "customer", { text: "Here's the look I want" });
+    await flush();
+    expect(unsent.failed).toBe(true);
+    expect(customerApp.getState().messages).toEqual([unsent]);
+    expect(salonApp.getState().messages).toEqual([]);
+
+    setItem.mockRestore();
+    const sent = customerApp.retry(unsent.id);
+    await flush();
+    expect(sent.failed).toBeUndefined();
+    expect(salonApp.getState().messages.map((m) => m.id)).toEqual([unsent.id]);
+    expect(JSON.parse(localStorage.getItem("salon_chats") ?? "{}").messages).toHaveLength(1);
+
+    customerApp.close();
+    salonApp.close();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { featuredSalons, nearbySalons } from "@/data/mockData";
+import { isSaved, removeSaved, restoreSaved, sortSavedSalons, toggleSaved } from "@/lib/favorites";
+
+const salons = [...featuredSalons, ...nearbySalons].filter((s) => s.cityId === "bangalore");
+
+describe("toggleSaved", () => {
+  it("saves at the top and unsaves on a second tap", () => {
+    const first = toggleSaved([], "1", new Date("2030-01-01T10:00:00Z"));
+    const both = toggleSaved(first, "3", new Date("2030-01-02T10:00:00Z"));
+    expect(both.map((s) => s.salonId)).toEqual(["3", "1"]);
+    expect(both[1].savedAt).toBe("2030-01-01T10:00:00.000Z");
+
+    const after = toggleSaved(both, "1");
+    expect(isSaved(after, "1")).toBe(false);
+    expect(removeSaved(after, "3")).toEqual([]);
+  });
+});
+
+describe("restoreSaved", () => {
+  it("undoes one removal without reverting the others", () => {
+    const saved = ["1", "3", "4"].reduce((list, id, i) => toggleSaved(list, id, new Date(2030, 0, i + 1)), []);
+    const [, , first] = saved;
+    const withoutBoth = removeSaved(removeSaved(saved, first.salonId), "3");
+    expect(restoreSaved(withoutBoth, first).map((s) => s.salonId)).toEqual(["4", "1"]);
+    expect(restoreSaved(saved, first)).toBe(saved);
+  });
+});
+
+describe("sortSavedSalons", () => {
+  const saved = [
+    { salonId: "4", savedAt: "2030-01-03T00:00:00Z" },
+    { salonId: "gone", savedAt: "2030-01-02T00:00:00Z" },
+    { salonId: "1", savedAt: "2030-01-01T00:00:00Z" },
+    { salonId: "2", savedAt: "2029-12-31T00:00:00Z" },
+  ];
+
+  it("keeps the latest saves first and skips salons no longer listed", () => {
+    expect(sortSavedSalons(salons, saved, "recent").map((s) => s.id)).toEqual(["4", "1", "2"]);
+  });
+
+  it("sorts by rating, name and distance", () => {
+    const ratings = sortSavedSalons(salons, saved, "rating").map((s) => s.rating);
+    expect(ratings).toEqual([...ratings].sort((a, b) => b - a));
+
+    const names = sortSavedSalons(salons, saved, "name").map((s) => s.name);
+    expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)));
+
+    const origin = salons.find((s) => s.id === "2")!.coordinates;
+    expect(sortSavedSalons(salons, saved, "distance", origin)[0].id).toBe("2");
+    expect(sortSavedSalons(salons, saved, "distance").map((s) => s.id)).toEqual(["4", "1", "2"]);
+  });
+});
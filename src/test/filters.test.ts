@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { categories, featuredSalons, localities, nearbySalons, promotions, services } from "@/data/mockData";
+import { activeFilterChips, applyFilters, DEFAULT_FILTERS, parseFilters, writeFilters, type SalonFilters } from "@/lib/filters";
+import { browseSalons, salonCategoryIds } from "@/lib/search";
+
+// The app only ever shows one city at a time
+const salons = [...featuredSalons, ...nearbySalons].filter((s) => s.cityId === "bangalore");
+const koramangala = localities.find((l) => l.id === "koramangala").coordinates;
+const context = {
+  promotions,
+  salonCategories: salonCategoryIds({ salons, services, categories, localities }),
+  origin: koramangala,
+  // A Tuesday afternoon, before any promotion expires
+  now: new Date("2026-10-20T15:00:00"),
+};
+const all = browseSalons(salons, koramangala);
+const ids = (filters: Partial<SalonFilters>) =>
+  applyFilters(all, { ...DEFAULT_FILTERS, ...filters }, context).map((r) => r.salon.id);
+
+describe("URL encoding", () => {
+  it("round-trips every filter and keeps the query", () => {
+    const filters: SalonFilters = {
+      minPrice: 200,
+      maxPrice: 600,
+      minRating: 4.5,
+      maxDistanceKm: 2,
+      openNow: true,
+      tags: ["AC", "Verified"],
+      serves: "women",
+      offersOnly: true,
+      sort: "price",
+    };
+    const params = writeFilters(new URLSearchParams("q=beard"), filters);
+    expect(params.get("q")).toBe("beard");
+    expect(parseFilters(params)).toEqual(filters);
+  });
+
+  it("leaves defaults out of the URL", () => {
+    expect(writeFilters(new URLSearchParams("q=spa&rating=4"), DEFAULT_FILTERS).toString()).toBe("q=spa");
+  });
+
+  it("ignores values it doesn't understand", () => {
+    const filters = parseFilters(new URLSearchParams("rating=abc&tags=AC,Pool&for=kids&sort=random&price=-500"));
+    expect(filters).toMatchObject({ minRating: undefined, tags: ["AC"], serves: undefined, sort: "relevance", maxPrice: 500 });
+    expect(filters.minPrice).toBeUndefined();
+  });
+});
+
+describe("applyFilters", () => {
+  it("filters by price, rating and distance", () => {
+    expect(ids({ maxPrice: 250 })).toEqual(["5"]);
+    expect(ids({ minRating: 4.8 }).sort()).toEqual(["1", "3"]);
+    expect(ids({ maxDistanceKm: 1 })).toEqual(["1"]);
+    expect(ids({ maxDistanceKm: 5 }).sort()).toEqual(["1", "2", "3", "5"]);
+  });
+
+  it("counts no salon as within reach when the customer's location is unknown", () => {
+    const found = applyFilters(all, { ...DEFAULT_FILTERS, maxDistanceKm: 20 }, { ...context, origin: undefined });
+    expect(found).toEqual([]);
+  });
+
+  it("requires every selected tag", () => {
+    expect(ids({ tags: ["Verified", "Premium"] }).sort()).toEqual(["3", "6"]);
+  });
+
+  it("keeps unisex salons for either clientele", () => {
+    expect(ids({ serves: "men" })).not.toContain("4");
+    expect(ids({ serves: "women" })).not.toContain("5");
+    expect(ids({ serves: "women" })).toContain("1");
+  });
+
+  it("limits to salons running their own offer", () => {
+    expect(ids({ offersOnly: true }).sort()).toEqual(["1", "2", "3"]);
+  });
+
+  it("limits to salons offering the chosen category", () => {
+    // Category 4 is Manicure
+    expect(ids({ category: "4" }).sort()).toEqual(["1", "3"]);
+    expect(parseFilters(writeFilters(new URLSearchParams(), { ...DEFAULT_FILTERS, category: "4" })).category).toBe("4");
+  });
+
+  it("sorts when asked and keeps the ranking otherwise", () => {
+    expect(ids({})).toEqual(all.map((r) => r.salon.id));
+    expect(ids({ sort: "distance" })).toEqual(["1", "5", "3", "2", "4", "6"]);
+    expect(ids({ sort: "price" })[0]).toBe("5");
+    expect(ids({ sort: "rating" })[0]).toBe("3");
+  });
+});
+
+describe("activeFilterChips", () => {
+  it("describes each filter and removes just that one", () => {
+    const filters: SalonFilters = { ...DEFAULT_FILTERS, maxPrice: 500, tags: ["AC", "Premium"], sort: "distance" };
+    const chips = activeFilterChips(filters);
+    expect(chips.map((c) => c.label)).toEqual(["Under ₹500", "AC", "Premium", "Sort: Distance"]);
+    expect(chips[1].remove(filters).tags).toEqual(["Premium"]);
+    expect(activeFilterChips(DEFAULT_FILTERS)).toEqual([]);
+  });
+});
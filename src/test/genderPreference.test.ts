@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { categories, featuredSalons, nearbySalons, services } from "@/data/mockData";
+import {
+  categoriesForPreference,
+  parseGenderPreference,
+  preferredServiceTab,
+  suggestForPreference,
+} from "@/lib/genderPreference";
+
+// The app only ever shows one city at a time
+const salons = [...featuredSalons, ...nearbySalons].filter((s) => s.cityId === "bangalore");
+
+describe("parseGenderPreference", () => {
+  it("reads values saved by earlier versions and defaults to everyone", () => {
+    expect(parseGenderPreference("male")).toBe("men");
+    expect(parseGenderPreference("women")).toBe("women");
+    expect(parseGenderPreference(null)).toBe("everyone");
+    expect(parseGenderPreference("garbage")).toBe("everyone");
+  });
+});
+
+describe("suggestForPreference", () => {
+  it("leaves out salons that don't serve the customer and puts dedicated ones first", () => {
+    const forMen = suggestForPreference(salons, "men").map((s) => s.id);
+    expect(forMen).not.toContain("4");
+    expect(forMen[0]).toBe("5");
+    expect(suggestForPreference(salons, "women")[0].id).toBe("4");
+    expect(suggestForPreference(salons, "everyone")).toHaveLength(salons.length);
+  });
+});
+
+describe("categoriesForPreference", () => {
+  it("drops categories with nothing on the customer's menu", () => {
+    const forMen = categoriesForPreference(categories, salons, services, "men").map((c) => c.name);
+    expect(forMen).toContain("Haircut");
+    expect(forMen).not.toContain("Pedicure");
+    expect(categoriesForPreference(categories, salons, services, "everyone")).toHaveLength(categories.length);
+  });
+});
+
+describe("preferredServiceTab", () => {
+  it("opens on the customer's side of the menu when the salon has one", () => {
+    const luxe = services.filter((s) => s.salonId === "1");
+    expect(preferredServiceTab(luxe, "women")).toBe("women");
+    expect(preferredServiceTab(luxe, "everyone")).toBe("men");
+    const blush = services.filter((s) => s.salonId === "4");
+    expect(preferredServiceTab(blush, "men")).toBe("women");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { cities, localities } from "@/data/mockData";
+import { bearing, CITY_RADIUS_KM, distanceKm, formatDistance, haversineKm, LOCALITY_RADIUS_KM, nearestPlace } from "@/lib/geo";
+
+const koramangala = { lat: 12.9352, lng: 77.6245 };
+const indiranagar = { lat: 12.9719, lng: 77.6412 };
+
+describe("haversineKm", () => {
+  it("measures great-circle distance", () => {
+    expect(haversineKm(koramangala, indiranagar)).toBeCloseTo(4.45, 1);
+    expect(haversineKm(koramangala, koramangala)).toBe(0);
+    // Bangalore to Chennai, about 290 km as the crow flies
+    expect(haversineKm(koramangala, { lat: 13.0827, lng: 80.2707 })).toBeGreaterThan(280);
+  });
+
+  it("treats an unknown origin as infinitely far", () => {
+    expect(distanceKm(indiranagar, undefined)).toBe(Infinity);
+  });
+
+  it("gives the bearing clockwise from north", () => {
+    expect(bearing(koramangala, { lat: 13.5, lng: 77.6245 })).toBeCloseTo(0);
+    expect(bearing(koramangala, { lat: 12.9352, lng: 78 })).toBeCloseTo(Math.PI / 2, 1);
+  });
+});
+
+describe("formatDistance", () => {
+  it("uses metres under a kilometre and drops decimals past ten", () => {
+    expect(formatDistance(0.434)).toBe("430 m");
+    expect(formatDistance(2.345)).toBe("2.3 km");
+    expect(formatDistance(14.6)).toBe("15 km");
+    expect(formatDistance(Infinity)).toBe("");
+  });
+});
+
+describe("nearestPlace", () => {
+  it("names the locality and city a position falls in", () => {
+    const position = { lat: 12.934, lng: 77.626 };
+    expect(nearestPlace(position, localities, LOCALITY_RADIUS_KM)?.name).toBe("Koramangala");
+    expect(nearestPlace(position, cities, CITY_RADIUS_KM)?.name).toBe("Bangalore");
+  });
+
+  it("names none when the position is far from all of them", () => {
+    expect(nearestPlace({ lat: 13.0827, lng: 80.2707 }, cities, CITY_RADIUS_KM)).toBeNull();
+  });
+});
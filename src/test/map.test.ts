@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { featuredSalons, nearbySalons } from "@/data/mockData";
+import {
+  clusterPoints,
+  fitViewport,
+  fromScreen,
+  geometryPath,
+  MAX_ZOOM,
+  panBy,
+  project,
+  toScreen,
+  unproject,
+  viewportBounds,
+  withinBounds,
+  zoomTo,
+} from "@/lib/map";
+
+const koramangala = { lat: 12.9352, lng: 77.6245 };
+const indiranagar = { lat: 12.9719, lng: 77.6412 };
+const size = { width: 400, height: 600 };
+const bangalore = [...featuredSalons, ...nearbySalons].filter((s) => s.cityId === "bangalore");
+
+describe("projection", () => {
+  it("puts the equator and prime meridian in the middle of the world", () => {
+    expect(project({ lat: 0, lng: 0 }, 0)).toEqual({ x: 128, y: 128 });
+    expect(project({ lat: 0, lng: 0 }, 2)).toEqual({ x: 512, y: 512 });
+  });
+
+  it("round-trips coordinates", () => {
+    const back = unproject(project(koramangala, 14), 14);
+    expect(back.lat).toBeCloseTo(koramangala.lat, 6);
+    expect(back.lng).toBeCloseTo(koramangala.lng, 6);
+  });
+
+  it("maps the centre of the viewport to the middle of the screen", () => {
+    const viewport = { center: koramangala, zoom: 13 };
+    expect(toScreen(koramangala, viewport, size)).toEqual({ x: 200, y: 300 });
+    const corner = fromScreen({ x: 0, y: 0 }, viewport, size);
+    expect(corner.lat).toBeGreaterThan(koramangala.lat);
+    expect(corner.lng).toBeLessThan(koramangala.lng);
+  });
+});
+
+describe("viewportBounds", () => {
+  it("covers what's on screen and nothing far off it", () => {
+    const bounds = viewportBounds({ center: koramangala, zoom: 14 }, size);
+    expect(withinBounds(koramangala, bounds)).toBe(true);
+    expect(withinBounds(indiranagar, bounds)).toBe(false);
+    expect(withinBounds(indiranagar, viewportBounds({ center: koramangala, zoom: 11 }, size))).toBe(true);
+  });
+});
+
+describe("moving the map", () => {
+  it("pans the way the finger drags", () => {
+    const moved = panBy({ center: koramangala, zoom: 13 }, 100, 0);
+    expect(moved.center.lng).toBeLessThan(koramangala.lng);
+    expect(moved.center.lat).toBeCloseTo(koramangala.lat, 6);
+  });
+
+  it("keeps the point under the cursor still when zooming", () => {
+    const viewport = { center: koramangala, zoom: 12 };
+    const anchor = { x: 50, y: 80 };
+    const under = fromScreen(anchor, viewport, size);
+    const zoomed = zoomTo(viewport, 14, size, anchor);
+    const p = toScreen(under, zoomed, size);
+    expect(p.x).toBeCloseTo(anchor.x, 6);
+    expect(p.y).toBeCloseTo(anchor.y, 6);
+  });
+
+  it("clamps the zoom", () => {
+    expect(zoomTo({ center: koramangala, zoom: 12 }, 40, size).zoom).toBe(MAX_ZOOM);
+  });
+});
+
+describe("fitViewport", () => {
+  it("shows every point inside the padding", () => {
+    const viewport = fitViewport(bangalore.map((s) => s.coordinates), size, 40)!;
+    for (const salon of bangalore) {
+      const p = toScreen(salon.coordinates, viewport, size);
+      expect(p.x).toBeGreaterThanOrEqual(40 - 1e-6);
+      expect(p.x).toBeLessThanOrEqual(size.width - 40 + 1e-6);
+      expect(p.y).toBeGreaterThanOrEqual(40 - 1e-6);
+      expect(p.y).toBeLessThanOrEqual(size.height - 40 + 1e-6);
+    }
+  });
+
+  it("doesn't zoom all the way in on a single point", () => {
+    const viewport = fitViewport([koramangala], size, 40, 15)!;
+    expect(viewport.zoom).toBe(15);
+    expect(viewport.center.lat).toBeCloseTo(koramangala.lat, 6);
+    expect(viewport.center.lng).toBeCloseTo(koramangala.lng, 6);
+    expect(fitViewport([], size)).toBeNull();
+  });
+});
+
+describe("clusterPoints", () => {
+  it("merges salons that would overlap and splits them apart closer in", () => {
+    const far = clusterPoints(bangalore, { center: koramangala, zoom: 8 }, size);
+    expect(far).toHaveLength(1);
+    expect(far[0].items).toHaveLength(bangalore.length);
+
+    const close = clusterPoints(bangalore, { center: koramangala, zoom: 16 }, size);
+    expect(close).toHaveLength(bangalore.length);
+    expect(close.map((c) => c.key)).toEqual(bangalore.map((s) => s.id));
+  });
+
+  it("places a cluster in the middle of its salons", () => {
+    const pair = [
+      { id: "a", coordinates: { lat: 12.93, lng: 77.62 } },
+      { id: "b", coordinates: { lat: 12.94, lng: 77.63 } },
+    ];
+    const [cluster] = clusterPoints(pair, { center: koramangala, zoom: 10 }, size);
+    expect(cluster.key).toBe("a+b");
+    expect(cluster.coordinates.lat).toBeCloseTo(12.935);
+    expect(cluster.coordinates.lng).toBeCloseTo(77.625);
+  });
+});
+
+describe("geometryPath", () => {
+  it("draws lines open and polygons closed", () => {
+    const viewport = { center: { lat: 0, lng: 0 }, zoom: 0 };
+    const square = { width: 256, height: 256 };
+    expect(geometryPath({ type: "LineString", coordinates: [[0, 0], [90, 0]] }, viewport, square)).toBe("M128.0,128.0L192.0,128.0");
+    expect(geometryPath({ type: "Polygon", coordinates: [[[0, 0], [90, 0], [0, 0]]] }, viewport, square)).toBe(
+      "M128.0,128.0L192.0,128.0L128.0,128.0Z",
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { createMemoryAdapter } from "@/api";
+
+const beardTrim = {
+  customerId: "1",
+  salonId: "1",
+  salonName: "Luxe Hair Studio",
+  salonImage: "",
+  items: [{ serviceId: "1-2", name: "Beard Trim", price: 199, qty: 1, durationMinutes: 20 }],
+  artistId: "4",
+  date: "2030-03-09",
+  time: "10:00",
+  durationMinutes: 20,
+  price: { subtotal: 199, tax: 36, total: 235 },
+  payAtSalon: true,
+};
+
+describe("memory adapter", () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => vi.useRealTimers());
+
+  it("splits featured and non-featured salons", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const all = await adapter.listSalons();
+    const featured = await adapter.listSalons({ featured: true });
+    const rest = await adapter.listSalons({ featured: false });
+    expect(featured.length + rest.length).toBe(all.length);
+    expect(featured.map((s) => s.id)).toEqual(["1", "2", "3", "7"]);
+  });
+
+  it("lists only the salons in the requested city", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const mumbai = await adapter.listSalons({ cityId: "mumbai" });
+    expect(mumbai.map((s) => s.id)).toEqual(["7", "8"]);
+    expect(await adapter.listSalons({ cityId: "hyderabad" })).toEqual([]);
+    expect((await adapter.listSalons({ cityId: "mumbai", featured: true })).map((s) => s.id)).toEqual(["7"]);
+  });
+
+  it("lists only the salons inside the requested bounds", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const aroundKoramangala = { north: 12.94, south: 12.93, east: 77.63, west: 77.62 };
+    expect((await adapter.listSalons({ bounds: aroundKoramangala })).map((s) => s.id)).toEqual(["1"]);
+  });
+
+  it("lists a city's localities", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const localities = await adapter.listLocalities("mumbai");
+    expect(localities.length).toBeGreaterThan(0);
+    expect(localities.every((l) => l.cityId === "mumbai")).toBe(true);
+  });
+
+  it("returns null for unknown salons", async () => {
+    expect(await createMemoryAdapter({ persist: false }).getSalon("missing")).toBeNull();
+  });
+
+  it("scopes services, artists and reviews to the requested salon", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const [services, artists, reviews] = await Promise.all([
+      adapter.listServices("5"),
+      adapter.listArtists("5"),
+      adapter.listReviews("5"),
+    ]);
+    expect(services.length).toBeGreaterThan(0);
+    expect([...services, ...artists, ...reviews].every((r) => r.salonId === "5")).toBe(true);
+    expect((await adapter.listServices()).length).toBeGreaterThan(services.length);
+  });
+
+  it("lists created bookings first", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const booking = await adapter.createBooking(beardTrim);
+    expect(booking.status).toBe("confirmed");
+    expect(booking.history.map((e) => e.status)).toEqual(["confirmed"]);
+    expect((await adapter.listBookings())[0].id).toBe(booking.id);
+  });
+
+  it("only lists a customer's own bookings", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const theirs = await adapter.createBooking({ ...beardTrim, customerId: "2", time: "12:00" });
+    const mine = await adapter.listBookings({ customerId: "1" });
+    expect(mine.length).toBeGreaterThan(0);
+    expect(mine.some((b) => b.id === theirs.id)).toBe(false);
+    expect((await adapter.listBookings({ customerId: "2" })).map((b) => b.id)).toEqual([theirs.id]);
+  });
+
+  it("treats another customer's booking as missing", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const theirs = await adapter.createBooking({ ...beardTrim, customerId: "2", payAtSalon: false });
+    expect(await adapter.getBooking(theirs.id, "1")).toBeNull();
+    await expect(adapter.cancelBooking(theirs.id, "1")).rejects.toThrow("Booking not found");
+    await expect(adapter.rescheduleBooking(theirs.id, "1", { date: beardTrim.date, time: "12:00", artistId: "4" })).rejects.toThrow(
+      "Booking not found",
+    );
+    await expect(adapter.updatePayment(theirs.id, "1", { method: "pay-at-salon", status: "unpaid", amount: 235 })).rejects.toThrow(
+      "Booking not found",
+    );
+    expect(await adapter.getBooking(theirs.id, "2")).toMatchObject({ status: "pending-payment", time: "10:00" });
+  });
+
+  it("cancels and reschedules upcoming bookings", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const first = await adapter.createBooking(beardTrim);
+    const second = await adapter.createBooking({ ...beardTrim, time: "11:00" });
+
+    // Moving within its own slot is fine, but not onto another booking
+    await expect(adapter.rescheduleBooking(first.id, "1", { date: beardTrim.date, time: "10:10", artistId: "4" })).resolves.toMatchObject({ time: "10:10" });
+    await expect(adapter.rescheduleBooking(first.id, "1", { date: beardTrim.date, time: "10:50", artistId: "4" })).rejects.toThrow();
+
+    await adapter.cancelBooking(second.id, "1");
+    expect((await adapter.getBooking(second.id, "1"))?.status).toBe("cancelled-by-customer");
+    await expect(adapter.cancelBooking(second.id, "1")).rejects.toThrow();
+  });
+
+  it("migrates bookings saved before the lifecycle model", async () => {
+    localStorage.setItem("salon_bookings", JSON.stringify([{ ...beardTrim, id: "9", status: "upcoming" }]));
+    const migrated = await createMemoryAdapter().getBooking("9", "1");
+    expect(migrated?.status).toBe("confirmed");
+    expect(migrated?.history).toHaveLength(1);
+  });
+
+  it("persists bookings across adapter instances", async () => {
+    const booking = await createMemoryAdapter().createBooking(beardTrim);
+    expect(await createMemoryAdapter().getBooking(booking.id, "1")).toEqual(booking);
+  });
+
+  it("re-checks coupon rules and counts redemptions", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const royalFirstVisit = {
+      ...beardTrim,
+      salonId: "2",
+      artistId: "5",
+      price: { subtotal: 199, discount: { code: "ROYAL20", label: "20% Off First Visit", amount: 40 }, tax: 29, total: 188 },
+    };
+    const before = (await adapter.listPromotions()).find((p) => p.code === "ROYAL20")!.redemptions;
+
+    await adapter.createBooking(royalFirstVisit);
+    expect((await adapter.listPromotions()).find((p) => p.code === "ROYAL20")!.redemptions).toBe(before + 1);
+    await expect(adapter.createBooking({ ...royalFirstVisit, time: "12:00" })).rejects.toThrow("first visit");
+  });
+
+  it("prices bookings itself and invoices completed visits", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const booking = await adapter.createBooking({ ...beardTrim, price: { subtotal: 0, tax: 0, total: 0 } });
+    expect(booking.price).toEqual({ subtotal: 199, tax: 35.82, roundOff: 0.18, total: 235 });
+
+    for (const status of ["checked-in", "in-service"] as const) await adapter.updateBookingStatus(booking.id, status);
+    expect((await adapter.getBooking(booking.id, "1"))?.invoice).toBeUndefined();
+    const completed = await adapter.updateBookingStatus(booking.id, "completed");
+    expect(completed.invoice?.number).toMatch(/^1\/\d{2}-\d{2}\/00001$/);
+  });
+
+  it("rejects a booking that double-books an artist", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    await adapter.createBooking(beardTrim);
+    await expect(adapter.createBooking({ ...beardTrim, time: "10:15" })).rejects.toThrow();
+    await expect(adapter.createBooking({ ...beardTrim, time: "10:20" })).resolves.toBeDefined();
+  });
+
+  it("won't take a payment for a booking no longer awaiting one", async () => {
+    const adapter = createMemoryAdapter({ persist: false });
+    const unpaid = await adapter.createBooking({ ...beardTrim, payAtSalon: false });
+    await adapter.cancelBooking(unpaid.id, "1");
+    await expect(adapter.updatePayment(unpaid.id, "1", { method: "upi", status: "paid", amount: 235, intentId: "pi" })).rejects.toThrow(
+      "no longer awaiting payment",
+    );
+    expect((await adapter.getBooking(unpaid.id, "1"))?.payment.status).toBe("pending");
+  });
+
+  it("frees the slot of a checkout left unpaid past its hold and cancels it", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2030-03-01T10:00:00.000Z"));
+    const adapter = createMemoryAdapter({ persist: false });
+    const unpaid = await adapter.createBooking({ ...beardTrim, payAtSalon: false });
+    await expect(adapter.createBooking(beardTrim)).rejects.toThrow();
+
+    vi.setSystemTime(new Date("2030-03-01T10:15:00.000Z"));
+    await expect(adapter.createBooking(beardTrim)).resolves.toBeDefined();
+    const released = await adapter.getBooking(unpaid.id, "1");
+    expect(released?.status).toBe("cancelled-by-customer");
+    expect(released?.history.at(-1)?.note).toBe("Not paid within 15 minutes");
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { getOpenStatus, summarizeWeeklyHours } from "@/lib/openingHours";
+import type { OpeningHours } from "@/types/salon";
+
+const split = [
+  { opensAt: "10:00", closesAt: "14:00" },
+  { opensAt: "15:00", closesAt: "20:00" },
+];
+const hours: OpeningHours = {
+  weekly: { sun: [], mon: split, tue: split, wed: split, thu: split, fri: split, sat: [{ opensAt: "10:00", closesAt: "18:00" }] },
+  exceptions: [{ date: "2030-01-09", intervals: [], reason: "Holiday" }],
+};
+
+// 2030-01-07 is a Monday
+const at = (day: number, h: number, m = 0) => new Date(2030, 0, day, h, m);
+
+describe("getOpenStatus", () => {
+  it("reports closing time while open", () => {
+    expect(getOpenStatus(hours, at(7, 11))).toEqual({ isOpen: true, label: "Open Now", detail: "Closes at 2 PM" });
+  });
+
+  it("reports reopening after a lunch break", () => {
+    expect(getOpenStatus(hours, at(7, 14, 30)).detail).toBe("Opens at 3 PM");
+  });
+
+  it("looks ahead to the next open day", () => {
+    expect(getOpenStatus(hours, at(7, 21)).detail).toBe("Opens tomorrow 10 AM");
+    // Wednesday is a holiday, so Tuesday night points to Thursday
+    expect(getOpenStatus(hours, at(8, 21)).detail).toBe("Opens Thu 10 AM");
+    expect(getOpenStatus(hours, at(12, 19)).detail).toBe("Opens Mon 10 AM");
+  });
+});
+
+describe("summarizeWeeklyHours", () => {
+  it("merges consecutive days with the same hours", () => {
+    expect(summarizeWeeklyHours(hours)).toEqual([
+      { days: "Mon – Fri", hours: "10:00 AM – 2:00 PM, 3:00 PM – 8:00 PM" },
+      { days: "Sat", hours: "10:00 AM – 6:00 PM" },
+      { days: "Sun", hours: "Closed" },
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { cancelBooking, createBooking, createMemoryAdapter, getBooking, setDataAdapter } from "@/api";
+import { PaymentError, TEST_CREDENTIALS, createMockGateway, setPaymentGateway } from "@/payments";
+import { payForBooking, refundBooking } from "@/payments/checkout";
+import { validatePaymentDetails } from "@/payments/details";
+
+const card = { method: "card" as const, number: TEST_CREDENTIALS.card.success, expiry: "12/30", cvv: "123", name: "Riya" };
+
+const newBooking = {
+  customerId: "1",
+  salonId: "1",
+  salonName: "Luxe Hair Studio",
+  salonImage: "",
+  items: [{ serviceId: "1-2", name: "Beard Trim", price: 199, qty: 1, durationMinutes: 20 }],
+  artistId: "4",
+  date: "2030-03-09",
+  time: "10:00",
+  durationMinutes: 20,
+  price: { subtotal: 199, tax: 35.82, total: 235 },
+  payAtSalon: false,
+};
+
+describe("validatePaymentDetails", () => {
+  it("catches typos before contacting the gateway", () => {
+    const now = new Date(2026, 9, 19);
+    expect(validatePaymentDetails({ method: "upi", vpa: "riya" }, now)).toMatch(/UPI ID/);
+    expect(validatePaymentDetails({ ...card, number: "4111 1111 1111 1112" }, now)).toBe("Check your card number");
+    expect(validatePaymentDetails({ ...card, expiry: "09/26" }, now)).toBe("This card has expired");
+    expect(validatePaymentDetails({ ...card, expiry: "10/26" }, now)).toBeNull();
+  });
+});
+
+describe("checkout", () => {
+  beforeEach(() => {
+    setDataAdapter(createMemoryAdapter({ persist: false }));
+    setPaymentGateway(createMockGateway({ latencyMs: 0, timeoutMs: 0, persist: false }));
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("holds prepaid bookings until payment succeeds", async () => {
+    const booking = await createBooking(newBooking);
+    expect(booking.status).toBe("pending-payment");
+
+    await expect(payForBooking(booking, { method: "upi", vpa: TEST_CREDENTIALS.upi.failure })).rejects.toThrow(PaymentError);
+    const paid = await payForBooking(booking, { method: "upi", vpa: "riya@okaxis" });
+    expect(paid.status).toBe("confirmed");
+    expect(paid.payment).toMatchObject({ method: "upi", status: "paid", amount: 235 });
+  });
+
+  it("records timeouts as failures so the customer can retry", async () => {
+    const booking = await createBooking(newBooking);
+    const error = await payForBooking(booking, { ...card, number: TEST_CREDENTIALS.card.timeout }).catch((e) => e);
+    expect(error).toBeInstanceOf(PaymentError);
+    expect(error.code).toBe("timeout");
+    expect((await payForBooking(booking, card)).payment.status).toBe("paid");
+  });
+
+  it("refuses to charge a booking twice", async () => {
+    const booking = await createBooking(newBooking);
+    await payForBooking(booking, card);
+    await expect(payForBooking(booking, card)).rejects.toThrow("This booking is already paid");
+  });
+
+  it("refunds a charge that lands after the booking's hold has lapsed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2030-03-01T10:00:00.000Z"));
+    const gateway = createMockGateway({ latencyMs: 0, timeoutMs: 0, persist: false });
+    // The provider takes long enough for the slot to be released meanwhile
+    setPaymentGateway({
+      ...gateway,
+      capture: async (intentId) => {
+        vi.setSystemTime(new Date("2030-03-01T10:16:00.000Z"));
+        return gateway.capture(intentId);
+      },
+    });
+    const booking = await createBooking(newBooking);
+
+    await expect(payForBooking(booking, card)).rejects.toThrow(/released.*being refunded/);
+    const released = await getBooking(booking.id, "1");
+    expect(released.status).toBe("refunded");
+    expect(released.payment.status).toBe("refunded");
+  });
+
+  it("refunds prepaid bookings when they are cancelled", async () => {
+    const paid = await payForBooking(await createBooking(newBooking), { method: "wallet", wallet: "paytm" });
+    const refunded = await refundBooking(await cancelBooking(paid.id, "1"));
+    expect(refunded.status).toBe("refunded");
+    expect(refunded.payment.status).toBe("refunded");
+  });
+
+  it("keeps a refund the gateway rejects pending until a retry succeeds", async () => {
+    const gateway = createMockGateway({ latencyMs: 0, timeoutMs: 0, persist: false });
+    setPaymentGateway(gateway);
+    const paid = await payForBooking(await createBooking(newBooking), card);
+
+    // A gateway that has never seen the payment, as after a reload without stored intents
+    setPaymentGateway(createMockGateway({ latencyMs: 0, timeoutMs: 0, persist: false }));
+    const pending = await refundBooking(await cancelBooking(paid.id, "1"));
+    expect(pending.status).toBe("cancelled-by-customer");
+    expect(pending.payment).toMatchObject({ status: "refund-pending", failureReason: "Unknown payment" });
+
+    setPaymentGateway(gateway);
+    const refunded = await refundBooking(pending);
+    expect(refunded.status).toBe("refunded");
+    expect(refunded.payment.status).toBe("refunded");
+  });
+
+  it("can refund payments taken before a reload", async () => {
+    setPaymentGateway(createMockGateway({ latencyMs: 0, timeoutMs: 0 }));
+    const paid = await payForBooking(await createBooking(newBooking), card);
+    setPaymentGateway(createMockGateway({ latencyMs: 0, timeoutMs: 0 }));
+    expect((await refundBooking(await cancelBooking(paid.id, "1"))).status).toBe("refunded");
+    localStorage.clear();
+  });
+
+  it("confirms pay-at-salon bookings straight away, unpaid", async () => {
+    const booking = await createBooking({ ...newBooking, payAtSalon: true });
+    expect(booking.status).toBe("confirmed");
+    expect(booking.payment).toMatchObject({ method: "pay-at-salon", status: "unpaid" });
+  });
+});
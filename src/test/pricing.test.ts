@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { allocate, financialYear, nextInvoiceNumber, quotePrice } from "@/lib/pricing";
+import type { Booking, BookingItem } from "@/types/salon";
+
+const items: BookingItem[] = [
+  { serviceId: "1-1", name: "Haircut & Styling", price: 499, qty: 1, durationMinutes: 45 },
+  { serviceId: "1-2", name: "Beard Trim", price: 199, qty: 1, durationMinutes: 20 },
+];
+
+describe("allocate", () => {
+  it("hands leftover units to the largest remainders so parts add up", () => {
+    expect(allocate(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocate(10000, [49900, 19900])).toEqual([7149, 2851]);
+    expect(allocate(50, [0, 0])).toEqual([0, 0]);
+  });
+});
+
+describe("quotePrice", () => {
+  it("splits GST into CGST and SGST per line and rounds only the total", () => {
+    const quote = quotePrice(items);
+    expect(quote.lines.map((l) => l.cgst)).toEqual([44.91, 17.91]);
+    expect(quote).toMatchObject({ subtotal: 698, cgst: 62.82, sgst: 62.82, tax: 125.64, roundOff: 0.36, total: 824 });
+  });
+
+  it("spreads the discount across lines before tax", () => {
+    const quote = quotePrice(items, { code: "FLAT100", label: "", amount: 100 });
+    expect(quote.lines.map((l) => l.discount)).toEqual([71.49, 28.51]);
+    expect(quote.taxableValue).toBe(598);
+    expect(quote.tax).toBe(107.64);
+    expect(quote.total).toBe(706);
+  });
+
+  it("never discounts below zero", () => {
+    expect(quotePrice(items, { code: "ALL", label: "", amount: 5000 })).toMatchObject({ discount: 698, tax: 0, total: 0 });
+  });
+});
+
+describe("invoice numbers", () => {
+  it("uses the April–March financial year", () => {
+    expect(financialYear(new Date(2026, 2, 31))).toBe("25-26");
+    expect(financialYear(new Date(2026, 3, 1))).toBe("26-27");
+    expect(financialYear(new Date(2027, 1, 10))).toBe("26-27");
+  });
+
+  it("continues each salon's series and restarts every financial year", () => {
+    const issued = [{ salonId: "3", invoice: { number: "3/26-27/00041", issuedAt: "" } }] as Booking[];
+    const october = new Date(2026, 9, 19);
+    expect(nextInvoiceNumber(issued, "3", october)).toBe("3/26-27/00042");
+    expect(nextInvoiceNumber(issued, "1", october)).toBe("1/26-27/00001");
+    expect(nextInvoiceNumber(issued, "3", new Date(2027, 3, 2))).toBe("3/27-28/00001");
+  });
+
+  it("keeps invoice numbers within 16 characters", () => {
+    const october = new Date(2026, 9, 19);
+    expect(nextInvoiceNumber([], "123", october)).toBe("123/26-27/00001");
+    expect(nextInvoiceNumber([], "123", october).length).toBeLessThanOrEqual(16);
+    expect(() => nextInvoiceNumber([], "12345", october)).toThrow(/longer than 16 characters/);
+  });
+});
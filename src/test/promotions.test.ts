@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { applyCouponCode, evaluatePromotion, promotionsFor, type PromotionContext } from "@/lib/promotions";
+import type { Booking, BookingItem, Promotion } from "@/types/salon";
+
+const item = (price: number, qty = 1): BookingItem => ({ serviceId: String(price), name: `Service ${price}`, price, qty, durationMinutes: 30 });
+
+const promo = (overrides: Partial<Promotion>): Promotion => ({
+  id: "1",
+  code: "TEST",
+  title: "Test offer",
+  description: "",
+  badge: "",
+  reward: { type: "flat", amount: 100 },
+  rules: {},
+  redemptions: 0,
+  ...overrides,
+});
+
+const context = (overrides: Partial<PromotionContext> = {}): PromotionContext => ({
+  salonId: "1",
+  items: [item(500)],
+  // A Saturday
+  date: "2030-01-05",
+  customerBookings: [],
+  now: new Date("2030-01-01T10:00:00"),
+  ...overrides,
+});
+
+const pastBooking = (overrides: Partial<Booking> = {}): Booking => ({
+  id: "9",
+  customerId: "1",
+  salonId: "1",
+  salonName: "",
+  salonImage: "",
+  items: [],
+  date: "2029-12-01",
+  time: "10:00",
+  durationMinutes: 30,
+  status: "completed",
+  history: [],
+  price: { subtotal: 0, tax: 0, total: 0 },
+  payment: { method: "pay-at-salon", status: "unpaid", amount: 0 },
+  ...overrides,
+});
+
+describe("evaluatePromotion", () => {
+  it("caps percentage discounts", () => {
+    const result = evaluatePromotion(promo({ reward: { type: "percentage", percent: 40, maxDiscount: 150 } }), context());
+    expect(result).toEqual({ valid: true, discount: { code: "TEST", label: "Test offer", amount: 150 } });
+  });
+
+  it("makes the cheapest services free for buy-2-get-1", () => {
+    const bogo = promo({ reward: { type: "bogo", buy: 2, free: 1 } });
+    const result = evaluatePromotion(bogo, context({ items: [item(900), item(300, 2)] }));
+    expect(result.discount?.amount).toBe(300);
+    expect(evaluatePromotion(bogo, context({ items: [item(900), item(300)] }))).toEqual({
+      valid: false,
+      reason: "Add 1 more service to get 1 free",
+    });
+  });
+
+  it("explains why a code is rejected", () => {
+    const reasonFor = (p: Partial<Promotion>, c?: Partial<PromotionContext>) => evaluatePromotion(promo(p), context(c)).reason;
+    expect(reasonFor({ rules: { expiresOn: "2029-12-31" } })).toBe("This code expired on Dec 31");
+    expect(reasonFor({ rules: { salonIds: ["2"] } })).toBe("This code isn't valid at this salon");
+    expect(reasonFor({ rules: { minCartValue: 999 } })).toBe("Add ₹499 more to use this code (minimum ₹999)");
+    expect(reasonFor({ rules: { weekendOnly: true } }, { date: "2030-01-07" })).toMatch(/Saturday or Sunday/);
+    expect(reasonFor({ rules: { totalUses: 10 }, redemptions: 10 })).toBe("This offer has been fully claimed");
+  });
+
+  it("limits first-visit offers and per-customer uses, ignoring cancelled bookings", () => {
+    const firstVisit = promo({ rules: { firstVisit: "salon" } });
+    expect(evaluatePromotion(firstVisit, context({ customerBookings: [pastBooking({ salonId: "2" })] })).valid).toBe(true);
+    expect(evaluatePromotion(firstVisit, context({ customerBookings: [pastBooking()] })).valid).toBe(false);
+    expect(evaluatePromotion(firstVisit, context({ customerBookings: [pastBooking({ status: "cancelled-by-customer" })] })).valid).toBe(true);
+
+    const oncePerCustomer = promo({ rules: { usesPerCustomer: 1 } });
+    const used = pastBooking({ salonId: "3", price: { subtotal: 500, discount: { code: "TEST", label: "", amount: 100 }, tax: 72, total: 472 } });
+    expect(evaluatePromotion(oncePerCustomer, context({ customerBookings: [used] }))).toEqual({
+      valid: false,
+      reason: "You've already used this code",
+    });
+  });
+});
+
+describe("applyCouponCode", () => {
+  it("matches codes case-insensitively and rejects unknown ones", () => {
+    expect(applyCouponCode([promo({})], "  test ", context()).valid).toBe(true);
+    expect(applyCouponCode([promo({})], "nope", context())).toEqual({ valid: false, reason: '"NOPE" isn\'t a valid coupon code' });
+  });
+});
+
+describe("promotionsFor", () => {
+  it("keeps offers that run anywhere and those at one of the salons", () => {
+    const everywhere = promo({ id: "1" });
+    const luxe = promo({ id: "2", rules: { salonIds: ["1"] } });
+    const mumbai = promo({ id: "3", rules: { salonIds: ["7"] } });
+    expect(promotionsFor([everywhere, luxe, mumbai], ["1", "2"]).map((p) => p.id)).toEqual(["1", "2"]);
+    expect(promotionsFor([everywhere, luxe, mumbai], []).map((p) => p.id)).toEqual(["1"]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { encodeQrCode, formatBits, qrPath, qrVersionFor, reedSolomon } from "@/lib/qrcode";
+
+describe("reedSolomon", () => {
+  it("matches the worked example for HELLO WORLD at 1-M", () => {
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomon(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+});
+
+describe("formatBits", () => {
+  it("matches the standard's table", () => {
+    expect(formatBits("L", 0).toString(2).padStart(15, "0")).toBe("111011111000100");
+    expect(formatBits("M", 0).toString(2).padStart(15, "0")).toBe("101010000010010");
+    expect(formatBits("Q", 0).toString(2).padStart(15, "0")).toBe("011010101011111");
+    expect(formatBits("H", 0).toString(2).padStart(15, "0")).toBe("001011010001001");
+    expect(formatBits("L", 4).toString(2).padStart(15, "0")).toBe("110011000101111");
+  });
+});
+
+describe("qrVersionFor", () => {
+  it("picks the smallest version the bytes fit", () => {
+    expect(qrVersionFor(14, "M")).toBe(1);
+    expect(qrVersionFor(15, "M")).toBe(2);
+    expect(qrVersionFor(17, "L")).toBe(1);
+    expect(qrVersionFor(213, "M")).toBe(10);
+    expect(qrVersionFor(214, "M")).toBeNull();
+  });
+});
+
+describe("encodeQrCode", () => {
+  const url = "https://glamup.example/salon/7";
+  const modules = encodeQrCode(url);
+  const size = modules.length;
+
+  it("sizes the symbol for the version", () => {
+    // 30 bytes needs version 3 at level M
+    expect(size).toBe(29);
+    expect(modules.every((row) => row.length === size)).toBe(true);
+  });
+
+  it("draws the three finder patterns and the dark module", () => {
+    const finderRow = [true, true, true, true, true, true, true];
+    for (const [x, y] of [[0, 0], [size - 7, 0], [0, size - 7]]) {
+      expect(modules[y].slice(x, x + 7)).toEqual(finderRow);
+      expect(modules[y + 1].slice(x, x + 7)).toEqual([true, false, false, false, false, false, true]);
+      expect(modules[y + 3].slice(x, x + 7)).toEqual([true, false, true, true, true, false, true]);
+    }
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  it("writes the same format information twice", () => {
+    const first = [0, 1, 2, 3, 4, 5, 7, 8].map((y) => modules[y][8]).concat([7, 5, 4, 3, 2, 1, 0].map((x) => modules[8][x]));
+    const second = Array.from({ length: 8 }, (_, i) => modules[8][size - 1 - i]).concat(
+      Array.from({ length: 7 }, (_, i) => modules[size - 7 + i][8]),
+    );
+    const read = (bits: boolean[]) => bits.reduce((value, dark, i) => value | (Number(dark) << i), 0);
+    expect(read(first)).toBe(read(second));
+    expect(Array.from({ length: 8 }, (_, mask) => formatBits("M", mask))).toContain(read(first));
+  });
+
+  it("gives the same code for the same text", () => {
+    expect(encodeQrCode(url)).toEqual(modules);
+    expect(encodeQrCode(`${url}?ref=share`)).not.toEqual(modules);
+  });
+
+  it("refuses text too long to encode", () => {
+    expect(() => encodeQrCode("x".repeat(300))).toThrow("Too long for a QR code");
+  });
+});
+
+describe("qrPath", () => {
+  it("draws a unit square per dark module, offset by the margin", () => {
+    expect(qrPath([[true, false], [false, true]], 4)).toBe("M4,4h1v1h-1zM5,5h1v1h-1z");
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { featuredSalons } from "@/data/mockData";
+import { directionsUrl, salonUrl, shareSalon, telHref } from "@/lib/salonLinks";
+
+const luxe = featuredSalons[0];
+
+describe("salon links", () => {
+  it("builds the canonical salon URL", () => {
+    expect(salonUrl("7", "https://glamup.example")).toBe("https://glamup.example/salon/7");
+  });
+
+  it("dials the bare number", () => {
+    expect(telHref("+91 80412 34567")).toBe("tel:+918041234567");
+  });
+
+  it("asks for directions to the salon's coordinates", () => {
+    const url = new URL(directionsUrl({ lat: 12.9345, lng: 77.6265 }));
+    expect(url.hostname).toBe("www.google.com");
+    expect(url.searchParams.get("api")).toBe("1");
+    expect(url.searchParams.get("destination")).toBe("12.9345,77.6265");
+  });
+});
+
+describe("shareSalon", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("uses the share sheet when there is one", async () => {
+    const share = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal("navigator", { share });
+    expect(await shareSalon(luxe, "https://glamup.example/salon/1")).toBe("shared");
+    expect(share).toHaveBeenCalledWith(expect.objectContaining({ title: luxe.name, url: "https://glamup.example/salon/1" }));
+  });
+
+  it("reports a dismissed share sheet without copying", async () => {
+    const writeText = vi.fn();
+    vi.stubGlobal("navigator", {
+      share: vi.fn().mockRejectedValue(new DOMException("Share canceled", "AbortError")),
+      clipboard: { writeText },
+    });
+    expect(await shareSalon(luxe, "https://glamup.example/salon/1")).toBe("cancelled");
+    expect(writeText).not.toHaveBeenCalled();
+  });
+
+  it("copies the link where sharing isn't supported", async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal("navigator", { clipboard: { writeText } });
+    expect(await shareSalon(luxe, "https://glamup.example/salon/1")).toBe("copied");
+    expect(writeText).toHaveBeenCalledWith("https://glamup.example/salon/1");
+  });
+
+  it("fails when neither is available", async () => {
+    vi.stubGlobal("navigator", {});
+    await expect(shareSalon(luxe, "https://glamup.example/salon/1")).rejects.toThrow("Couldn't share this salon");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { categories, featuredSalons, localities, nearbySalons, services } from "@/data/mockData";
+import {
+  addRecentSearch,
+  autocomplete,
+  editDistance,
+  highlight,
+  localityOf,
+  matchTerm,
+  queryTerms,
+  removeRecentSearch,
+  searchSalons,
+  suggestAlternatives,
+} from "@/lib/search";
+
+// The app only ever searches one city at a time
+const salons = [...featuredSalons, ...nearbySalons].filter((s) => s.cityId === "bangalore");
+const catalog = { salons, services: services.filter((s) => salons.some((salon) => salon.id === s.salonId)), categories, localities };
+const names = (query: string) => searchSalons(query, catalog).map((r) => r.salon.name);
+
+describe("matchTerm", () => {
+  it("prefers exact words over prefixes and typos", () => {
+    expect(matchTerm("beard", "beard")).toBe(1);
+    expect(matchTerm("bea", "beard")).toBeGreaterThan(matchTerm("baerd", "beard"));
+    expect(matchTerm("baerd", "beard")).toBeGreaterThan(0);
+    expect(matchTerm("koramang", "koramangala")).toBeGreaterThan(0);
+  });
+
+  it("gives short words no typo allowance", () => {
+    expect(matchTerm("hair", "pair")).toBe(0);
+    expect(matchTerm("spa", "spy")).toBe(0);
+  });
+
+  it("counts an adjacent swap as one edit", () => {
+    expect(editDistance("trmi", "trim")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+  });
+});
+
+describe("searchSalons", () => {
+  it("lists salons offering a service with its price", () => {
+    const results = searchSalons("beard trim", catalog);
+    expect(results.map((r) => r.salon.id).sort()).toEqual(["1", "2", "5"]);
+    for (const result of results) {
+      expect(result.services[0]).toMatchObject({ name: "Beard Trim", salonId: result.salon.id });
+    }
+    expect(results.find((r) => r.salon.id === "5").services[0].price).toBe(99);
+  });
+
+  it("tolerates typos", () => {
+    expect(names("baerd trim")).toEqual(names("beard trim"));
+    expect(names("koramangla")).toEqual(["Luxe Hair Studio"]);
+  });
+
+  it("matches localities, tags and categories", () => {
+    expect(names("hsr layout")).toEqual(["Urban Glow"]);
+    expect(names("premium")).toEqual(expect.arrayContaining(["Urban Glow", "Shine Studio"]));
+    expect(names("massage").length).toBeGreaterThan(0);
+  });
+
+  it("names localities from the locality records rather than the street address", () => {
+    const moved = { ...salons[0], address: "12, 80 Feet Road" };
+    expect(localityOf(moved, localities)).toBe("Koramangala");
+    expect(searchSalons("koramangala", { ...catalog, salons: [moved] }).map((r) => r.salon.id)).toEqual([moved.id]);
+  });
+
+  it("lists the services filed under a category it matched", () => {
+    const urbanGlow = searchSalons("skin care", catalog).find((r) => r.salon.id === "3");
+    expect(urbanGlow.services.map((s) => s.name)).toEqual(["Charcoal Facial", "Hydra Facial", "Glow Spa Package"]);
+  });
+
+  it("requires every term to match somewhere on the salon", () => {
+    expect(names("facial koramangala")).toEqual(["Luxe Hair Studio"]);
+    expect(names("balayage whitefield")).toEqual([]);
+  });
+
+  it("ranks a salon name match above a passing service match", () => {
+    expect(names("royal")[0]).toBe("The Royal Salon");
+  });
+
+  it("ignores filler words", () => {
+    expect(queryTerms("haircut near me")).toEqual(["haircut"]);
+    expect(names("haircut near me").length).toBeGreaterThan(0);
+  });
+});
+
+describe("highlight", () => {
+  it("marks the words that matched", () => {
+    expect(highlight("Beard Trim", "trim")).toEqual([
+      { text: "Beard ", match: false },
+      { text: "Trim", match: true },
+    ]);
+  });
+});
+
+describe("suggestAlternatives", () => {
+  it("offers close catalog names when nothing matched", () => {
+    expect(names("manicurre pedicurre spaa xyz")).toEqual([]);
+    expect(suggestAlternatives("balayyage", catalog)).toContain("Balayage");
+  });
+});
+
+describe("autocomplete", () => {
+  it("groups salons, services and categories", () => {
+    const { salons, services, categories } = autocomplete("hair", catalog);
+    expect(salons.map((s) => s.name)).toContain("Luxe Hair Studio");
+    expect(services.map((s) => s.name)).toContain("Hair Spa");
+    expect(categories.map((c) => c.name)).toEqual(["Hair Color", "Haircut"]);
+  });
+
+  it("merges a service offered by several salons", () => {
+    const [beardTrim] = autocomplete("beard tr", catalog).services;
+    expect(beardTrim).toEqual({ name: "Beard Trim", salonCount: 3, fromPrice: 99 });
+  });
+
+  it("finds salons by area", () => {
+    expect(autocomplete("indira", catalog).salons.map((s) => s.name)).toEqual(["The Royal Salon"]);
+  });
+});
+
+describe("recent searches", () => {
+  it("puts the latest first without duplicates", () => {
+    const history = ["Facial", "Beard trim"];
+    expect(addRecentSearch(history, "  beard   TRIM ")).toEqual(["beard TRIM", "Facial"]);
+    expect(addRecentSearch(history, "   ")).toBe(history);
+  });
+
+  it("keeps only the newest entries", () => {
+    const history = ["a", "b", "c"];
+    expect(addRecentSearch(history, "d", 3)).toEqual(["d", "a", "b"]);
+  });
+
+  it("removes an entry regardless of case", () => {
+    expect(removeRecentSearch(["Facial", "Spa"], "facial")).toEqual(["Spa"]);
+  });
+});
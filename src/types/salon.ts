@@ -1,3 +1,52 @@
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/** Times are 24-hour 'HH:mm' strings in the salon's local time. */
+export interface TimeInterval {
+  opensAt: string;
+  closesAt: string;
+}
+
+/** Overrides the weekly hours for one calendar day; no intervals means closed. */
+export interface HoursException {
+  /** 'yyyy-MM-dd' */
+  date: string;
+  intervals: TimeInterval[];
+  reason?: string;
+}
+
+export interface OpeningHours {
+  /** Several intervals per day model lunch breaks; an empty list means closed. */
+  weekly: Record<Weekday, TimeInterval[]>;
+  exceptions?: HoursException[];
+}
+
+export interface ArtistSchedule {
+  /** Weekdays worked, 0 = Sunday. */
+  days: number[];
+  start: string;
+  end: string;
+}
+
+/** WGS84 degrees. */
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/** A rectangle of the map, edges in degrees. */
+export interface Bounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/** Who a salon serves; unisex salons show up for everyone. */
+export type Clientele = 'men' | 'women' | 'unisex';
+
+/** Whose services the customer wants to see; 'everyone' hides nothing. */
+export type GenderPreference = 'men' | 'women' | 'everyone';
+
 export interface Salon {
   id: string;
   name: string;
@@ -5,33 +54,47 @@ export interface Salon {
   rating: number;
   reviewCount: number;
   address: string;
-  distance: string;
+  cityId: string;
+  localityId: string;
+  coordinates: LatLng;
   startingPrice: number;
-  isOpen: boolean;
+  hours: OpeningHours;
+  /** Printed on tax invoices; the first two digits are the state code. */
+  gstin: string;
+  /** E.164, e.g. '+918041234567'. */
+  phone: string;
+  clientele: Clientele;
   tags: string[];
-  offer?: string;
   bookingsThisWeek?: number;
   tagline?: string;
 }
 
 export interface Service {
   id: string;
+  salonId: string;
   name: string;
   duration: string;
   price: number;
   originalPrice?: number;
   category: 'men' | 'women' | 'packages';
+  /** Browse categories (Haircut, Spa...) the service is listed under; may be several or none. */
+  categoryIds: string[];
 }
 
 export interface Artist {
   id: string;
+  salonId: string;
   name: string;
   avatar: string;
   specialty: string;
+  /** The services this artist is trained to do; they're only offered for these. */
+  serviceIds: string[];
+  schedule: ArtistSchedule;
 }
 
 export interface Review {
   id: string;
+  salonId: string;
   userName: string;
   userAvatar: string;
   rating: number;
@@ -43,15 +106,157 @@ export interface Review {
   hasPhoto?: boolean;
 }
 
+/** Snapshot of a booked service, so later catalog edits don't rewrite history. */
+export interface BookingItem {
+  serviceId: string;
+  name: string;
+  price: number;
+  qty: number;
+  durationMinutes: number;
+}
+
+/** One service's turn in a booking: who does it and when. Turns run back to back. */
+export interface ItineraryStep {
+  serviceId: string;
+  name: string;
+  artistId: string;
+  artistName: string;
+  /** 24-hour 'HH:mm' start time */
+  time: string;
+  durationMinutes: number;
+}
+
+export type PromotionReward =
+  | { type: 'percentage'; percent: number; maxDiscount?: number }
+  | { type: 'flat'; amount: number }
+  /** For every `buy + free` services in the cart, the cheapest `free` of them cost nothing. */
+  | { type: 'bogo'; buy: number; free: number };
+
+/** Every condition is optional; an empty object means the code works anywhere, any time. */
+export interface PromotionRules {
+  minCartValue?: number;
+  /** Omitted means every salon. */
+  salonIds?: string[];
+  /** 'app' = the customer's first booking anywhere, 'salon' = their first at this salon. */
+  firstVisit?: 'app' | 'salon';
+  /** The appointment, not the checkout, must fall on a Saturday or Sunday. */
+  weekendOnly?: boolean;
+  /** 'yyyy-MM-dd', inclusive */
+  startsOn?: string;
+  /** 'yyyy-MM-dd', inclusive */
+  expiresOn?: string;
+  usesPerCustomer?: number;
+  totalUses?: number;
+}
+
+export interface Promotion {
+  id: string;
+  code: string;
+  title: string;
+  description: string;
+  badge: string;
+  reward: PromotionReward;
+  rules: PromotionRules;
+  /** Times redeemed across all customers. */
+  redemptions: number;
+}
+
+export interface AppliedDiscount {
+  code: string;
+  label: string;
+  amount: number;
+}
+
+export interface PriceBreakdown {
+  subtotal: number;
+  discount?: AppliedDiscount;
+  /** CGST + SGST, charged on the subtotal after the discount. */
+  tax: number;
+  /** Brings the total to a whole rupee. */
+  roundOff?: number;
+  total: number;
+}
+
+export type PaymentMethod = 'upi' | 'card' | 'wallet' | 'pay-at-salon';
+
+/**
+ * 'pending' — prepaid but not yet paid; 'unpaid' — to be settled at the salon.
+ * 'failed' keeps the booking in pending-payment so the customer can retry.
+ * 'refund-pending' — a cancelled prepaid booking whose refund didn't go through yet and can be retried.
+ */
+export type PaymentStatus = 'pending' | 'unpaid' | 'paid' | 'failed' | 'refund-pending' | 'refunded';
+
+export interface BookingPayment {
+  /** Unset until a prepaid customer picks how to pay. */
+  method?: PaymentMethod;
+  status: PaymentStatus;
+  amount: number;
+  /** Gateway reference for online payments, needed for refunds. */
+  intentId?: string;
+  failureReason?: string;
+  /** ISO timestamp */
+  paidAt?: string;
+}
+
+/** Issued when a visit is completed; numbers are consecutive per salon and financial year. */
+export interface BookingInvoice {
+  number: string;
+  /** ISO timestamp */
+  issuedAt: string;
+}
+
+export type BookingStatus =
+  | 'pending-payment'
+  | 'confirmed'
+  | 'checked-in'
+  | 'in-service'
+  | 'completed'
+  | 'no-show'
+  | 'cancelled-by-customer'
+  | 'cancelled-by-salon'
+  | 'refunded';
+
+export interface BookingEvent {
+  status: BookingStatus;
+  /** ISO timestamp */
+  at: string;
+  note?: string;
+}
+
 export interface Booking {
   id: string;
+  customerId: string;
+  salonId: string;
   salonName: string;
   salonImage: string;
-  services: string[];
+  items: BookingItem[];
+  /** Set when one artist does every service; bookings shared between specialists list them in `itinerary`. */
+  artistId?: string;
+  artistName?: string;
+  /** 'yyyy-MM-dd' */
   date: string;
+  /** 24-hour 'HH:mm' start time */
   time: string;
-  status: 'upcoming' | 'completed' | 'cancelled';
-  totalPrice: number;
+  durationMinutes: number;
+  /** Each service in order with its specialist. Bookings made before specialists were per service have none. */
+  itinerary?: ItineraryStep[];
+  status: BookingStatus;
+  /** Every status the booking has been through, oldest first. */
+  history: BookingEvent[];
+  price: PriceBreakdown;
+  payment: BookingPayment;
+  invoice?: BookingInvoice;
+}
+
+export interface User {
+  id: string;
+  /** Empty until a new customer finishes signing up. */
+  name: string;
+  /** E.164, e.g. '+919876543210' */
+  phone: string;
+  avatar?: string;
+  /** Unset until the customer picks one. */
+  genderPreference?: GenderPreference;
 }
 
 export interface Category {
@@ -59,3 +264,20 @@ export interface Category {
   name: string;
   image: string;
 }
+
+/** The catalog is split by city; customers browse one at a time. */
+export interface City {
+  id: string;
+  name: string;
+  /** The city centre, which distances are measured from until the customer narrows it down. */
+  coordinates: LatLng;
+}
+
+/** A neighbourhood within a city, which customers can pick as their location when GPS isn't available. */
+export interface Locality {
+  id: string;
+  name: string;
+  cityId: string;
+  /** Roughly the middle of the neighbourhood. */
+  coordinates: LatLng;
+}